@@ -4,9 +4,13 @@ const isWatch = process.argv.includes('--watch');
 const isMinify = process.argv.includes('--minify');
 
 const buildOptions = {
-  entryPoints: ['src/extension.ts'],
+  // The stdio bridge runs outside VS Code, launched by external MCP clients.
+  entryPoints: {
+    extension: 'src/extension.ts',
+    'mcp/stdioBridge': 'src/mcp/stdioBridge.ts',
+  },
   bundle: true,
-  outfile: 'out/extension.js',
+  outdir: 'out',
   external: ['vscode'],
   format: 'cjs',
   platform: 'node',
@@ -5,6 +5,7 @@ const promptEl = document.getElementById('prompt');
 const sendButton = document.getElementById('send');
 const workspaceLabel = document.getElementById('workspaceLabel');
 const modelSelect = document.getElementById('modelSelect');
+const refreshModelsButton = document.getElementById('refreshModels');
 const tokenUsageLabel = document.getElementById('tokenUsageLabel');
 const sessionToggleButton = document.getElementById('sessionToggle');
 const sessionsOverlay = document.getElementById('sessionsOverlay');
@@ -15,6 +16,19 @@ const apiKeyToggleButton = document.getElementById('apiKeyToggle');
 const apiOverlay = document.getElementById('apiOverlay');
 const apiCloseButton = document.getElementById('apiClose');
 const apiListEl = document.getElementById('apiList');
+const mcpToggleButton = document.getElementById('mcpToggle');
+const mcpOverlay = document.getElementById('mcpOverlay');
+const mcpCloseButton = document.getElementById('mcpClose');
+const mcpListEl = document.getElementById('mcpList');
+const checkpointToggleButton = document.getElementById('checkpointToggle');
+const checkpointOverlay = document.getElementById('checkpointOverlay');
+const checkpointCloseButton = document.getElementById('checkpointClose');
+const checkpointListEl = document.getElementById('checkpointList');
+const processListEl = document.getElementById('processList');
+const attachResourceButton = document.getElementById('attachResource');
+const promptTemplatesButton = document.getElementById('promptTemplates');
+const attachmentListEl = document.getElementById('attachmentList');
+const composerPickerEl = document.getElementById('composerPicker');
 const openPanelButton = document.getElementById('openPanel');
 const restartExtensionButton = document.getElementById('restartExtension');
 
@@ -42,10 +56,28 @@ let activeSessionId;
 let sessionsOpen = false;
 let modelOptions = [];
 let activeModelOptionId;
+const CUSTOM_MODEL_OPTION = '__custom__';
 let providerInfos = [];
 let apiOverlayOpen = false;
+let mcpServers = [];
+let mcpOverlayOpen = false;
+let mcpResources = [];
+let mcpPrompts = [];
+let checkpoints = [];
+let backgroundProcesses = [];
+// Cards are reused across updates so their open/closed state and scroll position survive streaming output.
+const processCards = new Map();
+const MAX_PROCESS_OUTPUT = 20000;
+let checkpointOverlayOpen = false;
+let attachedResources = [];
+// 'resources' | 'prompts' | { prompt } while filling in prompt arguments; undefined when closed.
+let pickerMode;
 let isStopping = false;
 let totalTokenUsage = 0;
+let streamingText = '';
+let streamingTools = [];
+let progressNotice = '';
+let pendingChoices = [];
 
 if (historyEl) {
     historyEl.addEventListener('scroll', () => {
@@ -145,6 +177,13 @@ const renderMessage = (message, index, total) => {
         roleLabel.textContent = ROLE_LABELS[message.role] ?? message.role.toUpperCase();
         header.appendChild(roleLabel);
 
+        if (message.role === 'assistant' && message.provider) {
+            const chip = document.createElement('span');
+            chip.className = 'timeline-chip timeline-chip-provider';
+            chip.textContent = message.provider;
+            header.appendChild(chip);
+        }
+
         if (typeof message.tokens === 'number' && message.tokens > 0) {
             const chip = document.createElement('span');
             chip.className = 'timeline-chip timeline-chip-usage';
@@ -152,6 +191,15 @@ const renderMessage = (message, index, total) => {
             header.appendChild(chip);
         }
 
+        if (Array.isArray(message.attachments)) {
+            message.attachments.forEach((label) => {
+                const chip = document.createElement('span');
+                chip.className = 'timeline-chip timeline-chip-attachment';
+                chip.textContent = `📎 ${label}`;
+                header.appendChild(chip);
+            });
+        }
+
         card.appendChild(header);
 
         const body = document.createElement('div');
@@ -165,6 +213,47 @@ const renderMessage = (message, index, total) => {
     return container;
 };
 
+// Cards for questions the extension is waiting on (e.g. Continue / Stop when a loop is detected).
+const renderChoiceCard = (choice) => {
+    const container = document.createElement('article');
+    container.className = 'timeline-entry timeline-choice';
+    container.dataset.choiceId = choice.id;
+
+    const card = document.createElement('div');
+    card.className = 'timeline-card choice-card';
+
+    const title = document.createElement('div');
+    title.className = 'choice-title';
+    title.textContent = choice.title;
+    card.appendChild(title);
+
+    if (choice.detail) {
+        const detail = document.createElement('div');
+        detail.className = 'choice-detail';
+        detail.textContent = choice.detail;
+        card.appendChild(detail);
+    }
+
+    const actions = document.createElement('div');
+    actions.className = 'choice-actions';
+    (choice.options ?? []).forEach((option) => {
+        const button = document.createElement('button');
+        button.className = option.primary ? 'choice-button choice-primary' : 'choice-button';
+        button.textContent = option.label;
+        button.addEventListener('click', () => {
+            actions.querySelectorAll('button').forEach((node) => {
+                node.disabled = true;
+            });
+            vscode.postMessage({ type: 'choice:resolve', choiceId: choice.id, optionId: option.id });
+        });
+        actions.appendChild(button);
+    });
+    card.appendChild(actions);
+
+    container.appendChild(card);
+    return container;
+};
+
 const renderWelcomeScreen = () => {
     const welcomeContainer = document.createElement('div');
     welcomeContainer.className = 'welcome-screen';
@@ -201,6 +290,10 @@ const renderHistory = () => {
             historyEl.appendChild(renderMessage(message, index, total));
         });
 
+        pendingChoices.forEach((choice) => {
+            historyEl.appendChild(renderChoiceCard(choice));
+        });
+
         if (isLoading) {
             historyEl.appendChild(renderLoadingEntry(combined.length === 0));
         }
@@ -210,6 +303,41 @@ const renderHistory = () => {
     }
 };
 
+const describeRetry = (notice) => {
+    const seconds = Math.max(1, Math.round((notice?.delayMs ?? 0) / 1000));
+    return `Attempt ${(notice?.attempt ?? 0) + 1}/${notice?.maxAttempts ?? '?'} in ${seconds}s • ${notice?.reason ?? ''}`;
+};
+
+const describeFailover = (notice) => `Switched to ${notice?.to ?? '?'} (${notice?.from ?? '?'} failed) • ${notice?.reason ?? ''}`;
+
+const renderProgressNotice = () =>
+    progressNotice ? `<div class="retry-notice">${escapeHtml(progressNotice)}</div>` : '';
+
+const renderLoadingBody = () => {
+    const hasStream = Boolean(streamingText || streamingTools.length);
+    if (!hasStream) {
+        return `
+        ${renderProgressNotice()}
+        <div class="loading-row">
+            <div class="spinner"></div>
+            <span>Sedang memproses…</span>
+        </div>
+    `;
+    }
+
+    const toolChips = streamingTools
+        .map((name) => `<span class="stream-tool-chip">Tool • ${escapeHtml(name)}</span>`)
+        .join('');
+
+    return `
+        ${streamingText ? `<div class="stream-text">${escapeHtml(streamingText)}</div>` : ''}
+        ${toolChips ? `<div class="stream-tools">${toolChips}</div>` : ''}
+        <div class="loading-row">
+            <div class="spinner"></div>
+        </div>
+    `;
+};
+
 const renderLoadingEntry = (isFirstEntry) => {
     const container = document.createElement('article');
     container.className = 'timeline-entry timeline-loading';
@@ -226,24 +354,46 @@ const renderLoadingEntry = (isFirstEntry) => {
     header.className = 'timeline-header timeline-header-loading';
     const label = document.createElement('span');
     label.className = 'timeline-role';
-    label.textContent = 'Processing';
+    label.textContent = streamingText || streamingTools.length ? 'IdSiberCoder' : 'Processing';
     header.appendChild(label);
     card.appendChild(header);
 
     const body = document.createElement('div');
     body.className = 'timeline-body timeline-body-loading';
-    body.innerHTML = `
-        <div class="loading-row">
-            <div class="spinner"></div>
-            <span>Sedang memproses…</span>
-        </div>
-    `;
+    body.innerHTML = renderLoadingBody();
     card.appendChild(body);
 
     container.appendChild(card);
     return container;
 };
 
+const resetStreaming = () => {
+    streamingText = '';
+    streamingTools = [];
+    progressNotice = '';
+};
+
+// Patch the in-flight entry instead of re-rendering the whole history for every token.
+const updateStreamingEntry = () => {
+    const entry = historyEl?.querySelector('.timeline-loading');
+    if (!entry) {
+        renderHistory();
+        return;
+    }
+    const wasAtBottom = isHistoryAtBottom();
+    const label = entry.querySelector('.timeline-role');
+    if (label) {
+        label.textContent = 'IdSiberCoder';
+    }
+    const body = entry.querySelector('.timeline-body');
+    if (body) {
+        body.innerHTML = renderLoadingBody();
+    }
+    if (wasAtBottom) {
+        scrollHistoryToBottom();
+    }
+};
+
 const renderModelOptions = () => {
     if (!modelSelect) {
         return;
@@ -267,6 +417,11 @@ const renderModelOptions = () => {
         modelSelect.appendChild(node);
     });
 
+    const customNode = document.createElement('option');
+    customNode.value = CUSTOM_MODEL_OPTION;
+    customNode.textContent = '✎ Custom model id…';
+    modelSelect.appendChild(customNode);
+
     modelSelect.value = activeModelOptionId;
     modelSelect.disabled = false;
 };
@@ -338,6 +493,472 @@ const renderApiList = () => {
     });
 };
 
+const MCP_STATUS_LABELS = {
+    connecting: 'menghubungkan…',
+    connected: 'terhubung',
+    reconnecting: 'menyambung ulang…',
+    error: 'error',
+    disabled: 'nonaktif',
+    stopped: 'berhenti'
+};
+
+const updateMcpToggle = () => {
+    if (!mcpToggleButton) {
+        return;
+    }
+    const connected = mcpServers.filter((server) => server.status === 'connected').length;
+    const failing = mcpServers.some((server) => server.status === 'error' || server.status === 'reconnecting');
+    mcpToggleButton.title = mcpServers.length
+        ? `MCP Servers (${connected}/${mcpServers.length} connected)`
+        : 'MCP Servers';
+    mcpToggleButton.classList.toggle('has-error', failing);
+};
+
+const renderMcpList = () => {
+    if (!mcpListEl) {
+        return;
+    }
+
+    mcpListEl.innerHTML = '';
+
+    if (!mcpServers.length) {
+        const empty = document.createElement('div');
+        empty.className = 'mcp-empty';
+        empty.textContent = 'No MCP servers yet. Add them in the idSiberCoder.mcpServers setting.';
+        mcpListEl.appendChild(empty);
+        return;
+    }
+
+    mcpServers.forEach((server) => {
+        const wrapper = document.createElement('div');
+        wrapper.className = 'mcp-item';
+
+        const header = document.createElement('div');
+        header.className = 'mcp-item-header';
+
+        const title = document.createElement('div');
+        title.className = 'mcp-item-title';
+        title.textContent = server.name;
+        header.appendChild(title);
+
+        const status = document.createElement('span');
+        status.className = `mcp-status mcp-status-${server.status}`;
+        status.textContent = MCP_STATUS_LABELS[server.status] ?? server.status;
+        header.appendChild(status);
+
+        const detail = document.createElement('div');
+        detail.className = 'mcp-item-detail';
+        detail.textContent =
+            server.status === 'connected'
+                ? `${server.type} · ${server.toolCount} tool${server.toolCount === 1 ? '' : 's'}`
+                : server.type;
+
+        wrapper.appendChild(header);
+        wrapper.appendChild(detail);
+
+        if (server.error && server.status !== 'connected') {
+            const error = document.createElement('div');
+            error.className = 'mcp-item-error';
+            error.textContent = server.error;
+            wrapper.appendChild(error);
+        }
+
+        const actions = document.createElement('div');
+        actions.className = 'mcp-item-actions';
+
+        const toggleButton = document.createElement('button');
+        toggleButton.type = 'button';
+        toggleButton.textContent = server.enabled ? 'Nonaktifkan' : 'Aktifkan';
+        toggleButton.addEventListener('click', () => {
+            vscode.postMessage({ type: 'mcp:toggle', name: server.name, enabled: !server.enabled });
+        });
+        actions.appendChild(toggleButton);
+
+        if (server.enabled) {
+            const restartButton = document.createElement('button');
+            restartButton.type = 'button';
+            restartButton.textContent = 'Restart';
+            restartButton.disabled = server.status === 'connecting';
+            restartButton.addEventListener('click', () => {
+                vscode.postMessage({ type: 'mcp:restart', name: server.name });
+            });
+            actions.appendChild(restartButton);
+        }
+
+        wrapper.appendChild(actions);
+        mcpListEl.appendChild(wrapper);
+    });
+};
+
+const renderCheckpointList = () => {
+    if (!checkpointListEl) {
+        return;
+    }
+
+    checkpointListEl.innerHTML = '';
+
+    if (!checkpoints.length) {
+        const empty = document.createElement('div');
+        empty.className = 'checkpoint-empty';
+        empty.textContent = 'No checkpoints yet. Files are saved automatically before the agent changes them.';
+        checkpointListEl.appendChild(empty);
+        return;
+    }
+
+    [...checkpoints].reverse().forEach((checkpoint) => {
+        const wrapper = document.createElement('div');
+        wrapper.className = 'checkpoint-item';
+
+        const header = document.createElement('div');
+        header.className = 'checkpoint-item-header';
+
+        const title = document.createElement('div');
+        title.className = 'checkpoint-item-title';
+        title.textContent = checkpoint.label;
+        title.title = checkpoint.label;
+        header.appendChild(title);
+
+        const restoreAll = document.createElement('button');
+        restoreAll.type = 'button';
+        restoreAll.textContent = 'Restore all';
+        restoreAll.disabled = !checkpoint.files.some((file) => file.restorable);
+        restoreAll.addEventListener('click', () => {
+            vscode.postMessage({ type: 'checkpoint:restore', checkpointId: checkpoint.id });
+        });
+        header.appendChild(restoreAll);
+
+        const meta = document.createElement('div');
+        meta.className = 'checkpoint-item-meta';
+        const formatDate = (value) =>
+            new Date(value).toLocaleString('id-ID', { hour: '2-digit', minute: '2-digit', day: '2-digit', month: 'short' });
+        meta.textContent = `${formatDate(checkpoint.createdAt)} · ${checkpoint.files.length} file${
+            checkpoint.restoredAt ? ` · direstore ${formatDate(checkpoint.restoredAt)}` : ''
+        }`;
+
+        const files = document.createElement('ul');
+        files.className = 'checkpoint-files';
+        checkpoint.files.forEach((file) => {
+            const item = document.createElement('li');
+            const name = document.createElement('span');
+            name.className = 'checkpoint-file-path';
+            name.textContent = file.existed ? file.path : `${file.path} (baru)`;
+            item.appendChild(name);
+
+            const restoreFile = document.createElement('button');
+            restoreFile.type = 'button';
+            restoreFile.textContent = 'Restore';
+            restoreFile.disabled = !file.restorable;
+            if (!file.restorable) {
+                restoreFile.title = 'Too large or not a regular file; it was not saved.';
+            }
+            restoreFile.addEventListener('click', () => {
+                vscode.postMessage({ type: 'checkpoint:restore', checkpointId: checkpoint.id, path: file.path });
+            });
+            item.appendChild(restoreFile);
+            files.appendChild(item);
+        });
+
+        wrapper.appendChild(header);
+        wrapper.appendChild(meta);
+        wrapper.appendChild(files);
+        checkpointListEl.appendChild(wrapper);
+    });
+};
+
+const describeProcessStatus = (proc) => {
+    if (proc.status === 'running') {
+        return 'running';
+    }
+    if (proc.status === 'killed') {
+        return 'killed';
+    }
+    return proc.signal ? `exited (${proc.signal})` : `exited (${proc.exitCode ?? '?'})`;
+};
+
+const updateProcessCard = (proc) => {
+    let card = processCards.get(proc.id);
+    if (!card) {
+        const details = document.createElement('details');
+        details.className = 'process-card';
+        details.open = true;
+
+        const summary = document.createElement('summary');
+        const status = document.createElement('span');
+        const command = document.createElement('code');
+        command.className = 'process-command';
+        const actions = document.createElement('span');
+        actions.className = 'process-actions';
+
+        const killButton = document.createElement('button');
+        killButton.type = 'button';
+        killButton.textContent = 'Kill';
+        killButton.addEventListener('click', (event) => {
+            event.preventDefault();
+            killButton.disabled = true;
+            vscode.postMessage({ type: 'backgroundProcess:kill', processId: proc.id });
+        });
+
+        const dismissButton = document.createElement('button');
+        dismissButton.type = 'button';
+        dismissButton.className = 'process-dismiss';
+        dismissButton.title = 'Tutup';
+        dismissButton.innerHTML = '&times;';
+        dismissButton.addEventListener('click', (event) => {
+            event.preventDefault();
+            vscode.postMessage({ type: 'backgroundProcess:dismiss', processId: proc.id });
+        });
+
+        actions.appendChild(killButton);
+        actions.appendChild(dismissButton);
+        summary.appendChild(status);
+        summary.appendChild(command);
+        summary.appendChild(actions);
+
+        const output = document.createElement('pre');
+        output.className = 'process-output';
+
+        details.appendChild(summary);
+        details.appendChild(output);
+        card = { details, status, command, killButton, dismissButton, output, text: '' };
+        processCards.set(proc.id, card);
+    }
+
+    card.status.className = `process-status process-status-${proc.status}`;
+    card.status.textContent = describeProcessStatus(proc);
+    card.command.textContent = proc.command;
+    card.command.title = `${proc.id}: ${proc.command}`;
+    card.killButton.classList.toggle('hidden', proc.status !== 'running');
+    card.dismissButton.classList.toggle('hidden', proc.status === 'running');
+    return card;
+};
+
+const setProcessOutput = (card, text) => {
+    const atBottom = card.output.scrollHeight - card.output.scrollTop - card.output.clientHeight < 8;
+    card.text = text.length > MAX_PROCESS_OUTPUT ? text.slice(-MAX_PROCESS_OUTPUT) : text;
+    card.output.textContent = card.text || '(no output yet)';
+    if (atBottom) {
+        card.output.scrollTop = card.output.scrollHeight;
+    }
+};
+
+const renderProcessList = () => {
+    if (!processListEl) {
+        return;
+    }
+    const ids = new Set(backgroundProcesses.map((proc) => proc.id));
+    for (const [id, card] of processCards) {
+        if (!ids.has(id)) {
+            card.details.remove();
+            processCards.delete(id);
+        }
+    }
+    backgroundProcesses.forEach((proc) => {
+        const card = updateProcessCard(proc);
+        setProcessOutput(card, proc.output ?? '');
+        processListEl.appendChild(card.details);
+    });
+    processListEl.classList.toggle('hidden', backgroundProcesses.length === 0);
+};
+
+/** Apply a streamed update: `output` carries only the new chunk. */
+const applyProcessUpdate = (update) => {
+    const index = backgroundProcesses.findIndex((proc) => proc.id === update.id);
+    const previous = index >= 0 ? backgroundProcesses[index] : undefined;
+    const merged = { ...update, output: `${previous?.output ?? ''}${update.output ?? ''}`.slice(-MAX_PROCESS_OUTPUT) };
+    if (previous) {
+        backgroundProcesses[index] = merged;
+    } else {
+        backgroundProcesses = [...backgroundProcesses, merged];
+    }
+    const card = updateProcessCard(merged);
+    setProcessOutput(card, merged.output);
+    if (!card.details.isConnected) {
+        processListEl?.appendChild(card.details);
+    }
+    processListEl?.classList.remove('hidden');
+};
+
+const resourceKey = (resource) => `${resource.server}\u0000${resource.uri}`;
+
+const updateComposerTools = () => {
+    attachResourceButton?.classList.toggle('hidden', mcpResources.length === 0);
+    promptTemplatesButton?.classList.toggle('hidden', mcpPrompts.length === 0);
+};
+
+const renderAttachments = () => {
+    if (!attachmentListEl) {
+        return;
+    }
+    attachmentListEl.innerHTML = '';
+    attachmentListEl.classList.toggle('hidden', attachedResources.length === 0);
+    attachedResources.forEach((resource) => {
+        const chip = document.createElement('span');
+        chip.className = 'attachment-chip';
+        chip.title = `${resource.uri} (${resource.server})`;
+
+        const label = document.createElement('span');
+        label.textContent = `📎 ${resource.name}`;
+        chip.appendChild(label);
+
+        const remove = document.createElement('button');
+        remove.className = 'attachment-remove';
+        remove.textContent = '×';
+        remove.setAttribute('aria-label', `Lepas ${resource.name}`);
+        remove.addEventListener('click', () => {
+            attachedResources = attachedResources.filter((entry) => resourceKey(entry) !== resourceKey(resource));
+            renderAttachments();
+        });
+        chip.appendChild(remove);
+
+        attachmentListEl.appendChild(chip);
+    });
+};
+
+const closePicker = () => {
+    pickerMode = undefined;
+    composerPickerEl?.classList.add('hidden');
+};
+
+const renderPickerItem = (title, detail, onSelect) => {
+    const item = document.createElement('button');
+    item.className = 'picker-item';
+
+    const titleEl = document.createElement('div');
+    titleEl.className = 'picker-item-title';
+    titleEl.textContent = title;
+    item.appendChild(titleEl);
+
+    if (detail) {
+        const detailEl = document.createElement('div');
+        detailEl.className = 'picker-item-detail';
+        detailEl.textContent = detail;
+        item.appendChild(detailEl);
+    }
+
+    item.addEventListener('click', onSelect);
+    return item;
+};
+
+const usePrompt = (prompt, args) => {
+    vscode.postMessage({ type: 'mcp:prompt', server: prompt.server, name: prompt.name, arguments: args });
+    closePicker();
+};
+
+const renderPromptForm = (prompt) => {
+    const form = document.createElement('form');
+    form.className = 'prompt-form';
+
+    const title = document.createElement('div');
+    title.className = 'picker-title';
+    title.textContent = `${prompt.title || prompt.name} (${prompt.server})`;
+    form.appendChild(title);
+
+    const inputs = prompt.arguments.map((argument) => {
+        const label = document.createElement('label');
+        label.className = 'prompt-form-field';
+        label.textContent = argument.required ? `${argument.name} *` : argument.name;
+
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.placeholder = argument.description || '';
+        input.required = Boolean(argument.required);
+        label.appendChild(input);
+        form.appendChild(label);
+        return { argument, input };
+    });
+
+    const actions = document.createElement('div');
+    actions.className = 'prompt-form-actions';
+    const cancel = document.createElement('button');
+    cancel.type = 'button';
+    cancel.className = 'secondary';
+    cancel.textContent = 'Cancel';
+    cancel.addEventListener('click', closePicker);
+    const submit = document.createElement('button');
+    submit.type = 'submit';
+    submit.textContent = 'Use';
+    actions.appendChild(cancel);
+    actions.appendChild(submit);
+    form.appendChild(actions);
+
+    form.addEventListener('submit', (event) => {
+        event.preventDefault();
+        const args = {};
+        inputs.forEach(({ argument, input }) => {
+            if (input.value.trim()) {
+                args[argument.name] = input.value;
+            }
+        });
+        usePrompt(prompt, args);
+    });
+
+    composerPickerEl.appendChild(form);
+    inputs[0]?.input.focus();
+};
+
+const renderPicker = () => {
+    if (!composerPickerEl || !pickerMode) {
+        return;
+    }
+    composerPickerEl.innerHTML = '';
+    composerPickerEl.classList.remove('hidden');
+
+    if (typeof pickerMode === 'object') {
+        renderPromptForm(pickerMode.prompt);
+        return;
+    }
+
+    const title = document.createElement('div');
+    title.className = 'picker-title';
+    title.textContent = pickerMode === 'resources' ? 'Attach MCP resource' : 'Prompt MCP';
+    composerPickerEl.appendChild(title);
+
+    if (pickerMode === 'resources') {
+        const attached = new Set(attachedResources.map(resourceKey));
+        const available = mcpResources.filter((resource) => !attached.has(resourceKey(resource)));
+        if (!available.length) {
+            const empty = document.createElement('div');
+            empty.className = 'picker-empty';
+            empty.textContent = 'All resources are already attached.';
+            composerPickerEl.appendChild(empty);
+        }
+        available.forEach((resource) => {
+            composerPickerEl.appendChild(
+                renderPickerItem(resource.name, `${resource.server} • ${resource.uri}`, () => {
+                    attachedResources = [...attachedResources, resource];
+                    renderAttachments();
+                    closePicker();
+                    promptEl?.focus();
+                })
+            );
+        });
+        return;
+    }
+
+    mcpPrompts.forEach((prompt) => {
+        const detail = [prompt.server, prompt.description].filter(Boolean).join(' • ');
+        composerPickerEl.appendChild(
+            renderPickerItem(prompt.title || prompt.name, detail, () => {
+                if (prompt.arguments.length) {
+                    pickerMode = { prompt };
+                    renderPicker();
+                } else {
+                    usePrompt(prompt, {});
+                }
+            })
+        );
+    });
+};
+
+const togglePicker = (mode) => {
+    if (pickerMode === mode) {
+        closePicker();
+        return;
+    }
+    pickerMode = mode;
+    renderPicker();
+};
+
 const renderSessions = () => {
     if (!sessionsListEl) {
         return;
@@ -407,6 +1028,8 @@ const openSessions = () => {
         return;
     }
     closeApiOverlay();
+    closeMcpOverlay();
+    closeCheckpointOverlay();
     sessionsOpen = true;
     sessionsOverlay.classList.remove('hidden');
     renderSessions();
@@ -425,6 +1048,8 @@ const openApiOverlay = () => {
         return;
     }
     closeSessions();
+    closeMcpOverlay();
+    closeCheckpointOverlay();
     apiOverlayOpen = true;
     apiOverlay.classList.remove('hidden');
     renderApiList();
@@ -438,6 +1063,46 @@ const closeApiOverlay = () => {
     apiOverlay.classList.add('hidden');
 };
 
+const openMcpOverlay = () => {
+    if (!mcpOverlay) {
+        return;
+    }
+    closeSessions();
+    closeApiOverlay();
+    closeCheckpointOverlay();
+    mcpOverlayOpen = true;
+    mcpOverlay.classList.remove('hidden');
+    renderMcpList();
+};
+
+const closeMcpOverlay = () => {
+    if (!mcpOverlay) {
+        return;
+    }
+    mcpOverlayOpen = false;
+    mcpOverlay.classList.add('hidden');
+};
+
+const openCheckpointOverlay = () => {
+    if (!checkpointOverlay) {
+        return;
+    }
+    closeSessions();
+    closeApiOverlay();
+    closeMcpOverlay();
+    checkpointOverlayOpen = true;
+    checkpointOverlay.classList.remove('hidden');
+    renderCheckpointList();
+};
+
+const closeCheckpointOverlay = () => {
+    if (!checkpointOverlay) {
+        return;
+    }
+    checkpointOverlayOpen = false;
+    checkpointOverlay.classList.add('hidden');
+};
+
 const addBaseMessage = (message) => {
     const wasAtBottom = isHistoryAtBottom();
     shouldAutoScroll = wasAtBottom;
@@ -465,8 +1130,17 @@ function sendPrompt() {
     
     // If not loading, send the prompt
     if (prompt && !isLoading) {
-        vscode.postMessage({ type: 'prompt', prompt });
-        addBaseMessage({ role: 'user', content: prompt, html: `<div style="white-space: pre-wrap;">${escapeHtml(prompt)}</div>` });
+        const attachments = attachedResources.map(({ server, uri }) => ({ server, uri }));
+        vscode.postMessage({ type: 'prompt', prompt, attachments });
+        addBaseMessage({
+            role: 'user',
+            content: prompt,
+            html: `<div style="white-space: pre-wrap;">${escapeHtml(prompt)}</div>`,
+            attachments: attachedResources.map((resource) => `${resource.name} (${resource.server})`)
+        });
+        attachedResources = [];
+        renderAttachments();
+        closePicker();
         promptEl.value = '';
         promptEl.focus();
     }
@@ -507,6 +1181,12 @@ modelSelect?.addEventListener('change', (event) => {
         return;
     }
     const selection = target.value;
+    if (selection === CUSTOM_MODEL_OPTION) {
+        // Keep showing the current model until the extension confirms the typed id.
+        target.value = activeModelOptionId ?? '';
+        vscode.postMessage({ type: 'model:custom' });
+        return;
+    }
     if (!selection || selection === activeModelOptionId) {
         return;
     }
@@ -514,6 +1194,10 @@ modelSelect?.addEventListener('change', (event) => {
     vscode.postMessage({ type: 'model:select', selectionId: selection });
 });
 
+refreshModelsButton?.addEventListener('click', () => {
+    vscode.postMessage({ type: 'models:refresh' });
+});
+
 sessionToggleButton?.addEventListener('click', () => {
     if (sessionsOpen) {
         closeSessions();
@@ -530,6 +1214,30 @@ apiKeyToggleButton?.addEventListener('click', () => {
     }
 });
 
+mcpToggleButton?.addEventListener('click', () => {
+    if (mcpOverlayOpen) {
+        closeMcpOverlay();
+    } else {
+        openMcpOverlay();
+    }
+});
+
+checkpointToggleButton?.addEventListener('click', () => {
+    if (checkpointOverlayOpen) {
+        closeCheckpointOverlay();
+    } else {
+        openCheckpointOverlay();
+    }
+});
+
+attachResourceButton?.addEventListener('click', () => {
+    togglePicker('resources');
+});
+
+promptTemplatesButton?.addEventListener('click', () => {
+    togglePicker('prompts');
+});
+
 restartExtensionButton?.addEventListener('click', () => {
     vscode.postMessage({ type: 'restartExtension' });
 });
@@ -554,6 +1262,26 @@ apiCloseButton?.addEventListener('click', () => {
     closeApiOverlay();
 });
 
+mcpOverlay?.addEventListener('click', (event) => {
+    if (event.target === mcpOverlay) {
+        closeMcpOverlay();
+    }
+});
+
+mcpCloseButton?.addEventListener('click', () => {
+    closeMcpOverlay();
+});
+
+checkpointOverlay?.addEventListener('click', (event) => {
+    if (event.target === checkpointOverlay) {
+        closeCheckpointOverlay();
+    }
+});
+
+checkpointCloseButton?.addEventListener('click', () => {
+    closeCheckpointOverlay();
+});
+
 sessionsCreateButton?.addEventListener('click', () => {
     vscode.postMessage({ type: 'sessions:create' });
     closeSessions();
@@ -581,6 +1309,16 @@ window.addEventListener('message', (event) => {
         modelOptions = Array.isArray(state.modelOptions) ? state.modelOptions : [];
         activeModelOptionId = state.activeModelOptionId;
         totalTokenUsage = typeof state.totalTokens === 'number' ? state.totalTokens : 0;
+        pendingChoices = Array.isArray(state.pendingChoices) ? state.pendingChoices : [];
+        mcpServers = Array.isArray(state.mcpServers) ? state.mcpServers : [];
+        mcpResources = Array.isArray(state.mcpResources) ? state.mcpResources : [];
+        mcpPrompts = Array.isArray(state.mcpPrompts) ? state.mcpPrompts : [];
+        checkpoints = Array.isArray(state.checkpoints) ? state.checkpoints : [];
+        backgroundProcesses = Array.isArray(state.backgroundProcesses) ? state.backgroundProcesses : [];
+        renderProcessList();
+        // Drop attachments whose server disconnected or no longer lists the resource.
+        const availableResources = new Set(mcpResources.map(resourceKey));
+        attachedResources = attachedResources.filter((resource) => availableResources.has(resourceKey(resource)));
         updateTokenUsageLabel();
         
         // Handle isProcessing state
@@ -594,11 +1332,65 @@ window.addEventListener('message', (event) => {
         if (apiOverlayOpen) {
             renderApiList();
         }
+        updateMcpToggle();
+        if (mcpOverlayOpen) {
+            renderMcpList();
+        }
+        if (checkpointOverlayOpen) {
+            renderCheckpointList();
+        }
+        updateComposerTools();
+        renderAttachments();
+        if (typeof pickerMode === 'string') {
+            renderPicker();
+        }
         renderSessions();
         renderHistory();
     }
+    if (type === 'choice') {
+        shouldAutoScroll = isHistoryAtBottom();
+        const choice = event.data.choice;
+        if (choice && !pendingChoices.some((entry) => entry.id === choice.id)) {
+            pendingChoices = [...pendingChoices, choice];
+            renderHistory();
+        }
+    }
+    if (type === 'choiceResolved') {
+        pendingChoices = pendingChoices.filter((entry) => entry.id !== event.data.choiceId);
+        renderHistory();
+    }
+    if (type === 'backgroundProcess' && event.data.process) {
+        applyProcessUpdate(event.data.process);
+    }
+    if (type === 'composer') {
+        promptEl.value = typeof event.data.text === 'string' ? event.data.text : '';
+        promptEl.focus();
+    }
+    if (type === 'retry' || type === 'failover') {
+        // The failed attempt's partial output is discarded; the next attempt streams from scratch.
+        resetStreaming();
+        progressNotice = type === 'retry' ? describeRetry(event.data.notice) : describeFailover(event.data.notice);
+        updateStreamingEntry();
+    }
+    if (type === 'stream') {
+        progressNotice = '';
+        const delta = event.data.delta ?? {};
+        if (delta.reset) {
+            // A retry or failover is re-sending the request after a partial response.
+            streamingText = '';
+            streamingTools = [];
+        }
+        if (typeof delta.content === 'string') {
+            streamingText += delta.content;
+        }
+        if (typeof delta.toolName === 'string' && delta.toolName) {
+            streamingTools = [...streamingTools, delta.toolName];
+        }
+        updateStreamingEntry();
+    }
     if (type === 'message') {
         shouldAutoScroll = isHistoryAtBottom();
+        resetStreaming();
         addBaseMessage(message);
         if (typeof message?.tokens === 'number' && message.tokens > 0) {
             totalTokenUsage += message.tokens;
@@ -613,11 +1405,15 @@ window.addEventListener('message', (event) => {
         shouldAutoScroll = isHistoryAtBottom();
         isLoading = Boolean(value);
         isStopping = false; // Reset stopping state when loading state changes
+        if (!isLoading) {
+            resetStreaming();
+        }
         updateSendButton();
         renderHistory();
     }
     if (type === 'processStopped') {
         shouldAutoScroll = isHistoryAtBottom();
+        resetStreaming();
         isLoading = false;
         isStopping = false;
         updateSendButton();
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import type { ProviderId, ProviderMetadata, ProviderModel } from './providers';
+
+const STORAGE_KEY = 'idSiberCoder.modelCatalog';
+
+interface CatalogEntry {
+    baseUrl: string;
+    fetchedAt: number;
+    models: ProviderModel[];
+}
+
+/**
+ * Loads the live model list for one provider. Resolves `undefined` when the provider
+ * cannot be queried yet (no API key, no list-models endpoint).
+ */
+export type ModelLoader = (metadata: ProviderMetadata, baseUrl: string) => Promise<ProviderModel[] | undefined>;
+
+export interface ModelRefreshResult {
+    refreshed: ProviderId[];
+    failures: Array<{ providerId: ProviderId; label: string; error: string }>;
+}
+
+/**
+ * Caches each provider's list-models response in global state so the dropdown does not
+ * depend on the static `models` arrays in `PROVIDERS`. Entries expire after the TTL and
+ * are dropped when the provider's base URL changes.
+ */
+export class ModelCatalog {
+    private entries: Record<ProviderId, CatalogEntry>;
+
+    constructor(
+        private readonly state: vscode.Memento,
+        private readonly loader: ModelLoader,
+        private ttlMs: number
+    ) {
+        this.entries = state.get<Record<ProviderId, CatalogEntry>>(STORAGE_KEY, {});
+    }
+
+    setTtl(ttlMs: number): void {
+        this.ttlMs = ttlMs;
+    }
+
+    /**
+     * Built-in entries first (they carry friendly labels), followed by any discovered ids
+     * not already listed. Providers flagged `dynamicModels` use the discovered list alone.
+     */
+    getModels(metadata: ProviderMetadata, baseUrl: string): ProviderModel[] {
+        const entry = this.getEntry(metadata.id, baseUrl);
+        if (!entry?.models.length) {
+            return metadata.models;
+        }
+        if (metadata.dynamicModels) {
+            return entry.models;
+        }
+
+        const known = new Set(metadata.models.map((model) => model.id));
+        const discovered = entry.models
+            .filter((model) => !known.has(model.id))
+            .sort((left, right) => left.id.localeCompare(right.id));
+        return [...metadata.models, ...discovered];
+    }
+
+    isStale(providerId: ProviderId, baseUrl: string): boolean {
+        const entry = this.getEntry(providerId, baseUrl);
+        return !entry || Date.now() - entry.fetchedAt > this.ttlMs;
+    }
+
+    /**
+     * Query every provider whose entry is missing or expired (or all of them when `force`).
+     * A failed lookup keeps the previous entry so a flaky endpoint never empties the dropdown.
+     */
+    async refresh(
+        targets: Array<{ metadata: ProviderMetadata; baseUrl: string }>,
+        force = false
+    ): Promise<ModelRefreshResult> {
+        const result: ModelRefreshResult = { refreshed: [], failures: [] };
+        const pending = targets.filter(({ metadata, baseUrl }) => force || this.isStale(metadata.id, baseUrl));
+
+        await Promise.all(
+            pending.map(async ({ metadata, baseUrl }) => {
+                try {
+                    const models = await this.loader(metadata, baseUrl);
+                    if (!models) {
+                        return;
+                    }
+                    this.entries[metadata.id] = { baseUrl, fetchedAt: Date.now(), models };
+                    result.refreshed.push(metadata.id);
+                } catch (error) {
+                    result.failures.push({
+                        providerId: metadata.id,
+                        label: metadata.label,
+                        error: (error as Error).message
+                    });
+                }
+            })
+        );
+
+        if (result.refreshed.length) {
+            await this.state.update(STORAGE_KEY, this.entries);
+        }
+        return result;
+    }
+
+    private getEntry(providerId: ProviderId, baseUrl: string): CatalogEntry | undefined {
+        const entry = this.entries[providerId];
+        return entry && entry.baseUrl === baseUrl ? entry : undefined;
+    }
+}
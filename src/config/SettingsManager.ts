@@ -1,7 +1,21 @@
 import * as vscode from 'vscode';
-import { PROVIDERS, ProviderId } from './providers';
+import { randomBytes } from 'crypto';
+import {
+    CustomProviderDefinition,
+    PROVIDER_LIST,
+    ProviderId,
+    ProviderMetadata,
+    isBuiltInProvider,
+    toCustomProviderMetadata
+} from './providers';
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from '../providers/retry';
+import { McpServerConfig, toMcpServerConfigs } from '../mcp/McpServerManager';
+import { PermissionLevel, ToolPermissionRule, toToolPermissionRules } from '../handlers/PermissionPolicy';
+import { CommandRule, toCommandRules } from '../tools/CommandPolicy';
 
 const SECRET_PREFIX = 'idSiberCoder.apiKey.';
+const CUSTOM_MODELS_KEY = 'customProviderModels';
+const MCP_SERVER_TOKEN_KEY = 'idSiberCoder.mcpServer.token';
 
 export interface ProviderSettingsSnapshot {
     baseUrl: string;
@@ -11,6 +25,7 @@ export interface ProviderSettingsSnapshot {
 
 export interface SettingsSnapshot {
     provider: ProviderId;
+    providerList: ProviderMetadata[];
     providers: Record<ProviderId, ProviderSettingsSnapshot>;
     apiKey?: string;
     apiKeys: Record<ProviderId, boolean>;
@@ -18,6 +33,40 @@ export interface SettingsSnapshot {
     contextSummaryThreshold: number;
     contextSummaryRetention: number;
     maxIterations: number;
+    repeatedToolCallLimit: number;
+    /** Show write-type file tools in a diff editor and wait for Accept / Reject / Edit before writing. */
+    reviewFileChanges: boolean;
+    /** Characters of `execute_cli` output (stdout and stderr together) returned to the model. */
+    terminalOutputLimit: number;
+    /** Run `execute_cli` in a visible integrated terminal through shell integration instead of a hidden process. */
+    useIntegratedTerminal: boolean;
+    /** Environment variables added to every `execute_cli` command, e.g. `CI=1`. */
+    terminalEnv: Record<string, string>;
+    commandTimeoutSeconds: number;
+    /** Largest `timeout_seconds` a single `execute_cli` call may ask for. */
+    maxCommandTimeoutSeconds: number;
+    /** Ordered allow/ask/deny rules for tool calls; the first matching rule wins. */
+    toolPermissions: ToolPermissionRule[];
+    commandPolicy: CommandPolicySettings;
+    enableStreaming: boolean;
+    modelCatalogTtlHours: number;
+    retry: RetryPolicy;
+    fallbackProviders: ProviderId[];
+    mcpServers: Record<string, McpServerConfig>;
+    embeddedMcpServer: EmbeddedMcpServerSettings;
+}
+
+export interface CommandPolicySettings {
+    /** Checked before the built-in rules; the first rule that matches a command segment decides. */
+    rules: CommandRule[];
+    /** Level for segments no rule matches; `deny` makes the rules an allowlist. */
+    defaultLevel: PermissionLevel;
+}
+
+export interface EmbeddedMcpServerSettings {
+    enabled: boolean;
+    port: number;
+    requireApproval: boolean;
 }
 
 export class SettingsManager {
@@ -37,27 +86,48 @@ export class SettingsManager {
         return `${SECRET_PREFIX}${provider}`;
     }
 
+    getProviderList(): ProviderMetadata[] {
+        const custom = toCustomProviderMetadata(this.getConfiguration().get<unknown[]>('customProviders', []));
+        return [...PROVIDER_LIST, ...custom];
+    }
 
+    getProviderMetadata(provider: ProviderId): ProviderMetadata | undefined {
+        return this.getProviderList().find((metadata) => metadata.id === provider);
+    }
 
     async getSettings(): Promise<SettingsSnapshot> {
         const configuration = this.getConfiguration();
-        const provider = configuration.get<ProviderId>('provider', 'deepseek');
+        const providerList = this.getProviderList();
+        const configuredProvider = configuration.get<ProviderId>('provider', 'deepseek');
+        // Fall back to the default when the configured id belongs to a removed custom provider.
+        const provider = providerList.some((metadata) => metadata.id === configuredProvider)
+            ? configuredProvider
+            : 'deepseek';
+        const customModels = configuration.get<Record<string, string>>(CUSTOM_MODELS_KEY, {}) ?? {};
 
         const providers: Record<ProviderId, ProviderSettingsSnapshot> = {} as Record<ProviderId, ProviderSettingsSnapshot>;
         const apiKeys: Record<ProviderId, boolean> = {} as Record<ProviderId, boolean>;
 
         let activeApiKey: string | undefined;
 
-        for (const providerId of Object.keys(PROVIDERS) as ProviderId[]) {
-            const metadata = PROVIDERS[providerId];
-            const baseUrl =
-                configuration.get<string>(`${providerId}.baseUrl`, metadata.defaultBaseUrl) ||
-                metadata.defaultBaseUrl;
-            const model =
-                configuration.get<string>(`${providerId}.model`, metadata.defaultModel) ||
-                metadata.defaultModel;
-            const maxTokens = configuration.get<number>(`${providerId}.maxTokens`, metadata.defaultMaxTokens ?? 4096);
-            providers[providerId] = { baseUrl, model, maxTokens };
+        for (const metadata of providerList) {
+            const providerId = metadata.id;
+            if (metadata.custom) {
+                providers[providerId] = {
+                    baseUrl: metadata.defaultBaseUrl,
+                    model: customModels[providerId] || metadata.defaultModel,
+                    maxTokens: metadata.defaultMaxTokens ?? 4096
+                };
+            } else {
+                const baseUrl =
+                    configuration.get<string>(`${providerId}.baseUrl`, metadata.defaultBaseUrl) ||
+                    metadata.defaultBaseUrl;
+                const model =
+                    configuration.get<string>(`${providerId}.model`, metadata.defaultModel) ||
+                    metadata.defaultModel;
+                const maxTokens = configuration.get<number>(`${providerId}.maxTokens`, metadata.defaultMaxTokens ?? 4096);
+                providers[providerId] = { baseUrl, model, maxTokens };
+            }
 
             // Check for API key in secrets storage
             const stored = await this.secrets.get(this.getSecretKey(providerId));
@@ -86,13 +156,47 @@ export class SettingsManager {
 
         return {
             provider,
+            providerList,
             providers,
             apiKey: activeApiKey,
             apiKeys,
             enableContextOptimization: configuration.get<boolean>('enableContextOptimization', true),
             contextSummaryThreshold: configuration.get<number>('contextSummaryThreshold', 12),
             contextSummaryRetention: configuration.get<number>('contextSummaryRetention', 6),
-            maxIterations: configuration.get<number>('maxIterations', 12)
+            maxIterations: configuration.get<number>('maxIterations', 12),
+            repeatedToolCallLimit: configuration.get<number>('repeatedToolCallLimit', 3),
+            reviewFileChanges: configuration.get<boolean>('reviewFileChanges', false),
+            terminalOutputLimit: configuration.get<number>('terminalOutputLimit', 8000),
+            useIntegratedTerminal: configuration.get<boolean>('useIntegratedTerminal', false),
+            terminalEnv: Object.fromEntries(
+                Object.entries(configuration.get<Record<string, unknown>>('terminalEnv', {}) ?? {})
+                    .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+                    .map(([name, value]) => [name, String(value)])
+            ),
+            commandTimeoutSeconds: configuration.get<number>('commandTimeoutSeconds', 30),
+            maxCommandTimeoutSeconds: configuration.get<number>('maxCommandTimeoutSeconds', 600),
+            toolPermissions: toToolPermissionRules(configuration.get<unknown>('toolPermissions', [])),
+            commandPolicy: {
+                rules: toCommandRules(configuration.get<unknown>('commandPolicy.rules', [])),
+                defaultLevel: configuration.get<PermissionLevel>('commandPolicy.defaultLevel', 'allow')
+            },
+            enableStreaming: configuration.get<boolean>('enableStreaming', true),
+            modelCatalogTtlHours: configuration.get<number>('modelCatalogTtlHours', 24),
+            mcpServers: toMcpServerConfigs(configuration.get<unknown>('mcpServers', {})),
+            embeddedMcpServer: {
+                enabled: configuration.get<boolean>('mcpServer.enabled', false),
+                port: configuration.get<number>('mcpServer.port', 39217),
+                requireApproval: configuration.get<boolean>('mcpServer.requireApproval', true)
+            },
+            fallbackProviders: configuration
+                .get<unknown[]>('fallbackProviders', [])
+                .filter((entry): entry is string => typeof entry === 'string' && entry.trim().length > 0)
+                .map((entry) => entry.trim()),
+            retry: {
+                maxAttempts: configuration.get<number>('retry.maxAttempts', DEFAULT_RETRY_POLICY.maxAttempts),
+                baseDelayMs: configuration.get<number>('retry.baseDelayMs', DEFAULT_RETRY_POLICY.baseDelayMs),
+                maxDelayMs: configuration.get<number>('retry.maxDelayMs', DEFAULT_RETRY_POLICY.maxDelayMs)
+            }
         };
     }
 
@@ -107,7 +211,12 @@ export class SettingsManager {
             return existing;
         }
 
-        const providerLabel = PROVIDERS[provider]?.label ?? provider;
+        const metadata = this.getProviderMetadata(provider);
+        if (metadata?.requiresApiKey === false) {
+            return '';
+        }
+
+        const providerLabel = metadata?.label ?? provider;
         const input = await vscode.window.showInputBox({
             prompt: `Enter ${providerLabel} API key for IdSiberCoder`,
             placeHolder: 'sk-...'
@@ -122,6 +231,17 @@ export class SettingsManager {
         return undefined;
     }
 
+    /** Bearer token external MCP clients present to the embedded server; created on first use. */
+    async ensureMcpServerToken(): Promise<string> {
+        const existing = await this.secrets.get(MCP_SERVER_TOKEN_KEY);
+        if (existing) {
+            return existing;
+        }
+        const token = randomBytes(24).toString('hex');
+        await this.secrets.store(MCP_SERVER_TOKEN_KEY, token);
+        return token;
+    }
+
     async clearApiKey(provider: ProviderId): Promise<void> {
         await this.secrets.delete(this.getSecretKey(provider));
     }
@@ -133,16 +253,30 @@ export class SettingsManager {
 
     async updateModel(provider: ProviderId, model: string): Promise<void> {
         const configuration = this.getConfiguration();
+        if (!isBuiltInProvider(provider)) {
+            // Custom providers have no per-provider settings keys, so their selection lives in one map.
+            const current = configuration.get<Record<string, string>>(CUSTOM_MODELS_KEY, {}) ?? {};
+            await configuration.update(CUSTOM_MODELS_KEY, { ...current, [provider]: model }, this.getUpdateTarget());
+            return;
+        }
         await configuration.update(`${provider}.model`, model, this.getUpdateTarget());
     }
 
     async updateBaseUrl(provider: ProviderId, baseUrl: string): Promise<void> {
         const configuration = this.getConfiguration();
+        if (!isBuiltInProvider(provider)) {
+            await this.updateCustomProvider(provider, { baseUrl });
+            return;
+        }
         await configuration.update(`${provider}.baseUrl`, baseUrl, this.getUpdateTarget());
     }
 
     async updateMaxTokens(provider: ProviderId, maxTokens?: number): Promise<void> {
         const configuration = this.getConfiguration();
+        if (!isBuiltInProvider(provider)) {
+            await this.updateCustomProvider(provider, { maxTokens });
+            return;
+        }
         await configuration.update(`${provider}.maxTokens`, maxTokens, this.getUpdateTarget());
     }
 
@@ -156,6 +290,34 @@ export class SettingsManager {
         }
     }
 
+    async setEmbeddedMcpServerEnabled(enabled: boolean): Promise<void> {
+        await this.getConfiguration().update('mcpServer.enabled', enabled, vscode.ConfigurationTarget.Global);
+    }
+
+    async setMcpServerEnabled(name: string, enabled: boolean): Promise<void> {
+        const configuration = this.getConfiguration();
+        const servers = configuration.get<Record<string, Record<string, unknown>>>('mcpServers', {}) ?? {};
+        const entry = servers[name];
+        if (!entry) {
+            return;
+        }
+        const next: Record<string, unknown> = { ...entry };
+        if (enabled) {
+            delete next.disabled;
+        } else {
+            next.disabled = true;
+        }
+        const updated = { ...servers, [name]: next };
+        await configuration.update('mcpServers', updated, this.getUpdateTarget());
+    }
+
+    private async updateCustomProvider(provider: ProviderId, patch: Partial<CustomProviderDefinition>): Promise<void> {
+        const configuration = this.getConfiguration();
+        const entries = configuration.get<CustomProviderDefinition[]>('customProviders', []) ?? [];
+        const updated = entries.map((entry) => (entry?.id === provider ? { ...entry, ...patch } : entry));
+        await configuration.update('customProviders', updated, this.getUpdateTarget());
+    }
+
     private async storeApiKey(provider: ProviderId, value: string): Promise<void> {
         await this.secrets.store(this.getSecretKey(provider), value);
     }
@@ -1,4 +1,17 @@
-export type ProviderId = 'deepseek' | 'openai' | 'zhipuai' | 'grok' | 'claude' | 'novita' | 'gemini';
+export type BuiltInProviderId =
+    | 'deepseek'
+    | 'openai'
+    | 'zhipuai'
+    | 'grok'
+    | 'claude'
+    | 'novita'
+    | 'gemini'
+    | 'ollama';
+
+/** Built-in ids plus the ids of user-defined entries in `idSiberCoder.customProviders`. */
+export type ProviderId = string;
+
+export type CustomProviderAuthHeader = 'bearer' | 'x-api-key' | 'api-key' | 'none';
 
 export interface ProviderModel {
     id: string;
@@ -12,9 +25,26 @@ export interface ProviderMetadata {
     defaultModel: string;
     defaultMaxTokens?: number;
     models: ProviderModel[];
+    requiresApiKey?: boolean;
+    /** Models are discovered from the endpoint at runtime; `models` is only a fallback. */
+    dynamicModels?: boolean;
+    custom?: {
+        authHeader: CustomProviderAuthHeader;
+    };
+}
+
+/** Shape of one entry in the `idSiberCoder.customProviders` setting. */
+export interface CustomProviderDefinition {
+    id: string;
+    label?: string;
+    baseUrl: string;
+    authHeader?: CustomProviderAuthHeader;
+    models?: Array<string | ProviderModel>;
+    defaultModel?: string;
+    maxTokens?: number;
 }
 
-export const PROVIDERS: Record<ProviderId, ProviderMetadata> = {
+export const PROVIDERS: Record<BuiltInProviderId, ProviderMetadata> = {
     gemini: {
         id: 'gemini',
         label: 'Google Gemini',
@@ -101,7 +131,76 @@ export const PROVIDERS: Record<ProviderId, ProviderMetadata> = {
             { id: 'meta-llama/llama-3.3-70b-instruct', label: 'Llama 3.3 70B' },
             { id: 'qwen/qwen3-coder-480b-a35b-instruct', label: 'Qwen Coder' }
         ]
+    },
+    ollama: {
+        id: 'ollama',
+        label: 'Ollama (Local)',
+        defaultBaseUrl: 'http://localhost:11434',
+        defaultModel: 'llama3.1',
+        defaultMaxTokens: 8000,
+        requiresApiKey: false,
+        dynamicModels: true,
+        models: [
+            { id: 'llama3.1', label: 'Llama 3.1' }
+        ]
     }
 };
 
 export const PROVIDER_LIST = Object.values(PROVIDERS);
+
+const AUTH_HEADERS: CustomProviderAuthHeader[] = ['bearer', 'x-api-key', 'api-key', 'none'];
+
+export const isBuiltInProvider = (id: string): id is BuiltInProviderId =>
+    Object.prototype.hasOwnProperty.call(PROVIDERS, id);
+
+/**
+ * Normalise raw `customProviders` entries into provider metadata. Entries without an id or
+ * base URL, or whose id collides with a built-in or earlier entry, are dropped.
+ */
+export const toCustomProviderMetadata = (definitions: unknown): ProviderMetadata[] => {
+    if (!Array.isArray(definitions)) {
+        return [];
+    }
+
+    const seen = new Set<string>();
+    const result: ProviderMetadata[] = [];
+
+    for (const entry of definitions as Partial<CustomProviderDefinition>[]) {
+        const id = typeof entry?.id === 'string' ? entry.id.trim() : '';
+        const baseUrl = typeof entry?.baseUrl === 'string' ? entry.baseUrl.trim() : '';
+        if (!id || !baseUrl || id.includes('::') || isBuiltInProvider(id) || seen.has(id)) {
+            continue;
+        }
+        seen.add(id);
+
+        const models: ProviderModel[] = (Array.isArray(entry.models) ? entry.models : [])
+            .map((model) =>
+                typeof model === 'string'
+                    ? { id: model, label: model }
+                    : { id: String(model?.id ?? ''), label: String(model?.label ?? model?.id ?? '') }
+            )
+            .filter((model) => model.id.length > 0);
+
+        const defaultModel = entry.defaultModel?.trim() || models[0]?.id || '';
+        if (defaultModel && !models.some((model) => model.id === defaultModel)) {
+            models.unshift({ id: defaultModel, label: defaultModel });
+        }
+
+        const authHeader = AUTH_HEADERS.includes(entry.authHeader as CustomProviderAuthHeader)
+            ? (entry.authHeader as CustomProviderAuthHeader)
+            : 'bearer';
+
+        result.push({
+            id,
+            label: entry.label?.trim() || id,
+            defaultBaseUrl: baseUrl,
+            defaultModel,
+            defaultMaxTokens: typeof entry.maxTokens === 'number' ? entry.maxTokens : undefined,
+            models,
+            requiresApiKey: authHeader !== 'none',
+            custom: { authHeader }
+        });
+    }
+
+    return result;
+};
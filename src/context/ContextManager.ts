@@ -17,9 +17,26 @@ export interface ToolFunctionCall {
     };
 }
 
+/** The provider (and model) that produced an assistant turn, which may be a fallback. */
+export interface MessageProvider {
+    id: string;
+    label: string;
+    model?: string;
+}
+
+/** An MCP resource attached to a user turn. Its text is inlined in `content`; this keeps the label for the UI. */
+export interface MessageAttachment {
+    server: string;
+    uri: string;
+    name: string;
+}
+
 export interface ConversationMessage {
     role: Role;
     content: string;
+    reasoning?: string;
+    provider?: MessageProvider;
+    attachments?: MessageAttachment[];
     name?: string;
     toolCallId?: string;
     usage?: MessageUsage;
@@ -254,7 +271,7 @@ export class ContextManager implements Disposable {
                     for (const entryTool of entry.toolCalls) {
                         const tcName = entryTool.function?.name;
                         let tcContent = '';
-                        if(tcName != 'edit_file' && tcName != 'write_file'){
+                        if(tcName != 'edit_file' && tcName != 'write_file' && tcName != 'apply_patch'){
                             tcContent = JSON.stringify(entryTool.function?.arguments);
                         }else{
                             tcContent = this.limitJsonString(entryTool.function?.arguments,200);
@@ -269,9 +286,13 @@ export class ContextManager implements Disposable {
                 continue;
             }
 
-            // Handle read_file tool results - truncate file content in summary
+            // Handle read_file tool results - keep the "<path>: lines a-b of n" header, drop the file content
             if (entry.role === 'tool' && entry.name === 'read_file' && content.includes('Tool result for read_file:')) {
-                content = content.replace(/Tool result for read_file:.*/s, 'Tool result for read_file: ...');
+                const header = content.match(/Tool result for read_file:\s*\n?(.*: lines \d+-\d+ of \d+)/)?.[1];
+                content = content.replace(
+                    /Tool result for read_file:.*/s,
+                    header ? `Tool result for read_file: ${header} ...` : 'Tool result for read_file: ...'
+                );
             }
 
             const bullet = this.truncate(`• ${label}: ${content}`);
@@ -1,24 +1,48 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import MarkdownIt from 'markdown-it';
-import { CodexPanel, PanelMessage, PanelSession } from './panels/CodexPanel';
+import {
+    CodexPanel,
+    PanelFailoverNotice,
+    PanelAttachmentRef,
+    PanelBackgroundProcess,
+    PanelCheckpoint,
+    PanelMcpPrompt,
+    PanelMcpResource,
+    PanelMcpServer,
+    PanelMessage,
+    PanelRetryNotice,
+    PanelSession,
+    PanelStreamDelta
+} from './panels/CodexPanel';
 import { SidebarView } from './panels/SidebarView';
 import { SettingsManager, ProviderSettingsSnapshot } from './config/SettingsManager';
-import { PROVIDERS, PROVIDER_LIST, ProviderId } from './config/providers';
+import { ModelCatalog } from './config/ModelCatalog';
+import type { ProviderId, ProviderMetadata, ProviderModel } from './config/providers';
 import { GeneralMCPHandler } from './handlers/GeneralMCPHandler';
 import { ToolRegistry } from './handlers/ToolCallHandler';
-import { FileManager, FileOperationResult } from './tools/FileManager';
-import { TerminalManager, TerminalOperationResult } from './tools/TerminalManager';
-import { DeepSeekProvider } from './providers/DeepSeekProvider';
-import { OpenAIProvider } from './providers/OpenAIProvider';
-import { ZhiPuAIProvider } from './providers/ZhiPuAIProvider';
-import { GrokProvider } from './providers/GrokProvider';
-import { ClaudeProvider } from './providers/ClaudeProvider';
-import { NovitaAIProvider } from './providers/NovitaAIProvider';
-import { GeminiProvider } from './providers/GeminiProvider';
-import type { ToolDefinition, ChatProvider } from './providers/types';
+import { FileChange, FileEdit, FileManager, FileOperationResult } from './tools/FileManager';
+import { SearchManager } from './tools/SearchManager';
+import { createUnifiedDiff, parseUnifiedDiff } from './tools/patch';
+import { BackgroundProcessEvent, TerminalManager, TerminalOperationResult } from './tools/TerminalManager';
+import { CommandPolicy, CommandVerdict } from './tools/CommandPolicy';
+import { createChatProvider } from './providers/factory';
+import type { ToolDefinition, ChatProvider, StreamHandler } from './providers/types';
+import type { RetryNotice } from './providers/retry';
 import type { PromptOutcome } from './handlers/GeneralMCPHandler';
+import type { FailoverNotice, ProviderCandidate } from './handlers/RequestHandler';
 import type { ConversationMessage, MessageUsage, ToolFunctionCall } from './context/ContextManager';
 import { SessionManager } from './handlers/SessionManager';
+import { CheckpointManager } from './handlers/CheckpointManager';
+import { ChangeReviewer } from './handlers/ChangeReviewer';
+import { describeSessionGrant, PermissionPolicy, PermissionVerdict, ToolSubject } from './handlers/PermissionPolicy';
+import { ChoiceHandler } from './handlers/ChoiceHandler';
+import { LoopGuard, LoopGuardTrip } from './handlers/LoopGuard';
+import { isMcpToolName, McpServerManager } from './mcp/McpServerManager';
+import { McpServerSession, McpToolServer } from './mcp/McpToolServer';
+import { contentToText } from './mcp/protocol';
+import { ATTACHMENT_SEPARATOR, ResolvedAttachment } from './handlers/ConversationHandler';
+import { McpHttpServer } from './mcp/McpHttpServer';
 import type { SessionSummary } from './handlers/SessionManager';
 
 const SYSTEM_PROTOCOL = `# IdSiberCoder Guidelines
@@ -35,7 +59,7 @@ type FileToolPayload = {
     path?: string;
     destination?: string;
     content?: string;
-    edits?: Array<{ find: string; replace?: string }>;
+    edits?: Array<{ find: string; replace?: string; occurrences?: number; start_line?: number; end_line?: number; regex?: boolean }>;
 };
 
 const fileToolAlias: Record<string, string> = {
@@ -52,6 +76,7 @@ const fileToolAlias: Record<string, string> = {
 const markdown = new MarkdownIt({ html: false, linkify: true, breaks: true });
 const CONTEXT_SUMMARY_PREFIX = 'Context summary (auto-generated)';
 const SUMMARY_TOKEN_THRESHOLD = 40000;
+const MAX_ATTACHMENT_CHARS = 100000;
 
 const ensureString = (value: unknown, field: string): string => {
     if (typeof value === 'string' && value.trim().length > 0) {
@@ -60,6 +85,174 @@ const ensureString = (value: unknown, field: string): string => {
     throw new Error(`${field} is required`);
 };
 
+const optionalLineNumber = (value: unknown): number | undefined => {
+    const parsed = typeof value === 'string' && value.trim() ? Number(value) : value;
+    return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/** Accepts a glob list or VS Code's comma-separated "files to include" form. */
+const optionalGlobs = (value: unknown): string[] | undefined => {
+    const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/,(?![^{]*\})/) : [];
+    const globs = entries.filter((entry): entry is string => typeof entry === 'string').map((entry) => entry.trim()).filter(Boolean);
+    return globs.length ? globs : undefined;
+};
+
+/** An object of environment variables; values are stringified, anything else is ignored. */
+const optionalEnv = (value: unknown): Record<string, string> | undefined => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return undefined;
+    }
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined && entry !== null);
+    return entries.length ? Object.fromEntries(entries.map(([name, entry]) => [name, String(entry)])) : undefined;
+};
+
+/** Plain `true` entries of `files.exclude`; sibling-based `when` clauses are not evaluated. */
+const getFilesExclude = (): string[] => {
+    const exclude = vscode.workspace.getConfiguration('files').get<Record<string, unknown>>('exclude') ?? {};
+    return Object.entries(exclude)
+        .filter(([, enabled]) => enabled === true)
+        .map(([glob]) => glob);
+};
+
+const toFileEdits = (edits: unknown): FileEdit[] =>
+    Array.isArray(edits)
+        ? edits.map((edit: Record<string, unknown>): FileEdit => ({
+              find: typeof edit?.find === 'string' ? edit.find : '',
+              replace: typeof edit?.replace === 'string' ? edit.replace : '',
+              regex: edit?.regex === true,
+              occurrences: optionalLineNumber(edit?.occurrences),
+              startLine: optionalLineNumber(edit?.start_line),
+              endLine: optionalLineNumber(edit?.end_line)
+          }))
+        : [];
+
+/** The change a tool call would make, for the tools that are reviewed in a diff before they run. */
+const toFileChange = (action: string, params: Record<string, unknown>): FileChange | undefined => {
+    const text = (value: unknown) => (typeof value === 'string' ? value : String(value ?? ''));
+    switch (action) {
+        case 'write_file':
+            return { kind: 'write', path: ensureString(params.file_path, 'file_path'), content: text(params.content) };
+        case 'append_to_file':
+            return { kind: 'append', path: ensureString(params.file_path, 'file_path'), content: text(params.content) };
+        case 'edit_file':
+            return { kind: 'edit', path: ensureString(params.file_path, 'file_path'), edits: toFileEdits(params.edits) };
+        case 'delete_file':
+            return { kind: 'delete', path: ensureString(params.file_path, 'file_path') };
+        case 'move_file':
+            return {
+                kind: 'move',
+                path: ensureString(params.source_path, 'source_path'),
+                destination: ensureString(params.destination_path, 'destination_path')
+            };
+        default:
+            return undefined;
+    }
+};
+
+/** Paths a file tool is about to change, so they can be snapshotted first; empty for read-only tools. */
+const mutatedPaths = (action: string, params: Record<string, unknown>): string[] => {
+    const paths = (...values: unknown[]) =>
+        values.filter((value): value is string => typeof value === 'string' && value.trim().length > 0);
+    switch (action) {
+        case 'write_file':
+        case 'append_to_file':
+        case 'edit_file':
+        case 'delete_file':
+            return paths(params.file_path);
+        case 'move_file':
+            return paths(params.source_path, params.destination_path);
+        case 'copy_file':
+            return paths(params.destination_path);
+        case 'apply_patch':
+            try {
+                return parseUnifiedDiff(String(params.patch ?? '')).flatMap((file) => paths(file.oldPath, file.newPath));
+            } catch {
+                return [];
+            }
+        default:
+            return [];
+    }
+};
+
+/** Who a `runTool` call acts for: whose session grants apply, what cancels its prompts, and who to name on the card. */
+interface ToolRunScope {
+    grantScope?: string;
+    cancelToken?: vscode.CancellationToken;
+    requester?: string;
+}
+
+/** Paths and globs a tool reads from; a search without `include` reads the whole workspace (`.`). */
+const readPaths = (action: string, params: Record<string, unknown>): unknown[] => {
+    const globs = (value: unknown) => (Array.isArray(value) ? value : typeof value === 'string' ? [value] : []);
+    switch (action) {
+        case 'read_file':
+            return [params.file_path];
+        case 'list_directory':
+            return [params.dir_path ?? '.'];
+        case 'copy_file':
+            return [params.source_path];
+        case 'find_files':
+            return globs(params.patterns);
+        case 'search_workspace': {
+            const include = globs(params.include);
+            return include.length ? include : ['.'];
+        }
+        default:
+            return [];
+    }
+};
+
+/** The paths and command a tool call touches, matched against `idSiberCoder.toolPermissions` rules. */
+const toolSubject = (action: string, params: Record<string, unknown>, workspaceFolder?: string): ToolSubject => {
+    const read = readPaths(action, params);
+    const paths = [...read.filter((value): value is string => typeof value === 'string'), ...mutatedPaths(action, params)].map(
+        (entry) => (workspaceFolder && path.isAbsolute(entry) ? path.relative(workspaceFolder, entry) : entry)
+    );
+    // Input to a background process may be typed into a shell or REPL, so it is checked like a command line.
+    const command =
+        action === 'execute_cli' ? params.command : action === 'send_process_input' ? params.input : undefined;
+    return {
+        paths,
+        command: typeof command === 'string' ? command : undefined
+    };
+};
+
+/** Fence `text` as a Markdown code block, with a fence longer than any backtick run inside it. */
+const codeFence = (text: string, language = '') => {
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return `${fence}${language}\n${text}\n${fence}`;
+};
+
+/**
+ * Plain-text (for the model) and Markdown (for the panel) rendering of a finished command:
+ * the exit status and duration first, then stdout and stderr as separate sections.
+ */
+const formatCommandOutput = (result: TerminalOperationResult): { text: string; markdown: string } => {
+    const duration = result.durationMs !== undefined ? ` · ${(result.durationMs / 1000).toFixed(1)}s` : '';
+    const status = result.timedOut
+        ? `Timed out (${result.signal ?? (result.terminal ? 'interrupted' : 'killed')})`
+        : result.signal
+            ? `Killed by ${result.signal}`
+            : `Exit code ${result.exitCode ?? 'unknown'}`;
+    const streams = [
+        // An integrated terminal interleaves both streams.
+        { name: result.terminal ? `output (terminal "${result.terminal}")` : 'stdout', text: result.stdout ?? '' },
+        { name: 'stderr', text: result.stderr ?? '' }
+    ].filter((stream) => stream.text.length > 0);
+
+    const text = [
+        result.command ? `$ ${result.command}` : '',
+        `${status}${duration}`,
+        ...(streams.length ? streams.map((stream) => `${stream.name}:\n${stream.text}`) : ['(no output)'])
+    ].filter(Boolean);
+    const markdown = [
+        `${result.command ? `\`$ ${result.command.replace(/`/g, "'")}\` — ` : ''}**${status}**${duration}`,
+        ...(streams.length ? streams.map((stream) => `${stream.name}\n\n${codeFence(stream.text, 'text')}`) : ['_(no output)_'])
+    ];
+    return { text: text.join('\n'), markdown: markdown.join('\n\n') };
+};
+
 const buildSystemPrompt = (workspaceFolder?: string): string => {
     const workspaceLine = workspaceFolder
         ? `Current workspace root: ${workspaceFolder}`
@@ -72,9 +265,16 @@ interface Tooling {
     definitions: ToolDefinition[];
 }
 
-const buildTooling = (fileManager: FileManager, terminalManager: TerminalManager): Tooling => {
+const buildTooling = (
+    fileManager: FileManager,
+    terminalManager: TerminalManager,
+    searchManager: SearchManager
+): Tooling => {
     const registry: ToolRegistry = {
-        read_file: async ({ file_path }) => fileManager.readFile(ensureString(file_path, 'file_path')),
+        read_file: async ({ file_path, start_line, end_line }) => fileManager.readFile(
+            ensureString(file_path, 'file_path'),
+            { startLine: optionalLineNumber(start_line), endLine: optionalLineNumber(end_line) }
+        ),
         write_file: async ({ file_path, content }) => fileManager.writeFile(
             ensureString(file_path, 'file_path'),
             typeof content === 'string' ? content : String(content ?? '')
@@ -92,20 +292,60 @@ const buildTooling = (fileManager: FileManager, terminalManager: TerminalManager
             ensureString(source_path, 'source_path'),
             ensureString(destination_path, 'destination_path')
         ),
-        list_directory: async ({ dir_path }) => fileManager.listDirectory(
-            typeof dir_path === 'string' && dir_path.length > 0 ? dir_path : '.'
+        list_directory: async ({ dir_path, recursive, max_depth, include_ignored }) => fileManager.listDirectory(
+            typeof dir_path === 'string' && dir_path.length > 0 ? dir_path : '.',
+            {
+                recursive: recursive === true,
+                maxDepth: optionalLineNumber(max_depth),
+                includeIgnored: include_ignored === true
+            }
         ),
-        edit_file: async ({ file_path, edits }) => fileManager.editFile(
-            ensureString(file_path, 'file_path'),
-            Array.isArray(edits) ? edits : []
+        find_files: async ({ patterns, max_results, include_ignored }) => fileManager.findFiles(
+            optionalGlobs(patterns) ?? [],
+            { maxResults: optionalLineNumber(max_results), includeIgnored: include_ignored === true }
+        ),
+        edit_file: async ({ file_path, edits }) => fileManager.editFile(ensureString(file_path, 'file_path'), toFileEdits(edits)),
+        apply_patch: async ({ patch, fuzz }) => fileManager.applyPatch(
+            ensureString(patch, 'patch'),
+            optionalLineNumber(fuzz)
         ),
-        execute_cli: async ({ command, capture_output }) => {
+        search_workspace: async ({ query, is_regex, case_sensitive, include, exclude, context_lines, max_results }) =>
+            searchManager.search({
+                query: ensureString(query, 'query'),
+                isRegex: is_regex === true,
+                caseSensitive: case_sensitive === true,
+                include: optionalGlobs(include),
+                exclude: optionalGlobs(exclude),
+                contextLines: optionalLineNumber(context_lines),
+                maxResults: optionalLineNumber(max_results)
+            }),
+        execute_cli: async ({ command, capture_output, background, cwd, env, timeout_seconds }) => {
             const capture = capture_output === true;
+            const timeoutSeconds = optionalLineNumber(timeout_seconds);
             return terminalManager.executeCommand(
                 ensureString(command, 'command'),
-                capture
+                capture,
+                background === true,
+                {
+                    cwd: typeof cwd === 'string' && cwd.trim() && cwd.trim() !== '.' ? cwd.trim() : undefined,
+                    env: optionalEnv(env),
+                    timeoutMs: timeoutSeconds !== undefined ? timeoutSeconds * 1000 : undefined
+                }
             );
-        }
+        },
+        read_process_output: async ({ process_id, wait_seconds }) => terminalManager.readProcessOutput(
+            ensureString(process_id, 'process_id'),
+            (optionalLineNumber(wait_seconds) ?? 0) * 1000
+        ),
+        send_process_input: async ({ process_id, input, newline }) => terminalManager.writeProcessInput(
+            ensureString(process_id, 'process_id'),
+            typeof input === 'string' ? input : String(input ?? ''),
+            newline !== false
+        ),
+        kill_process: async ({ process_id, signal }) => terminalManager.killProcess(
+            ensureString(process_id, 'process_id'),
+            signal === 'SIGINT' || signal === 'SIGKILL' ? signal : 'SIGTERM'
+        )
     };
 
     const definitions: ToolDefinition[] = [
@@ -113,11 +353,14 @@ const buildTooling = (fileManager: FileManager, terminalManager: TerminalManager
             type: 'function',
             function: {
                 name: 'read_file',
-                description: 'Read a file relative to the workspace root.',
+                description:
+                    'Read a text file relative to the workspace root. Each output line is prefixed with its line number and a tab (the prefix is not part of the file), and the result reports the total line count. Without a range only the first 400 lines are returned; request later chunks with start_line/end_line. Binary files are refused.',
                 parameters: {
                     type: 'object',
                     properties: {
-                        file_path: { type: 'string', description: 'Relative path to the file to read.' }
+                        file_path: { type: 'string', description: 'Relative path to the file to read.' },
+                        start_line: { type: 'integer', minimum: 1, description: 'First line to return (1-based). Defaults to 1.' },
+                        end_line: { type: 'integer', minimum: 1, description: 'Last line to return (inclusive).' }
                     },
                     required: ['file_path']
                 }
@@ -201,32 +444,58 @@ const buildTooling = (fileManager: FileManager, terminalManager: TerminalManager
             type: 'function',
             function: {
                 name: 'list_directory',
-                description: 'List the contents of a directory.',
+                description:
+                    'List the contents of a directory. With recursive=true returns an indented tree with file sizes and modification times, skipping .gitignore entries, files.exclude and dependency/build folders.',
                 parameters: {
                     type: 'object',
                     properties: {
-                        dir_path: { type: 'string', description: 'Directory to list. Defaults to workspace root.' }
+                        dir_path: { type: 'string', description: 'Directory to list. Defaults to workspace root.' },
+                        recursive: { type: 'boolean', description: 'List sub-folders too. Defaults to false.' },
+                        max_depth: { type: 'integer', minimum: 0, description: 'Folder levels to descend when recursive. Defaults to 3.' },
+                        include_ignored: { type: 'boolean', description: 'Also list ignored, dependency and build folders.' }
                     }
                 }
             }
         },
+        {
+            type: 'function',
+            function: {
+                name: 'find_files',
+                description:
+                    'Find files by glob pattern across the workspace, e.g. ["**/*.test.ts", "package.json"]. Globs without "/" match at any depth. Ignored, dependency and build folders are skipped unless include_ignored is true.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        patterns: { type: 'array', items: { type: 'string' }, description: 'Glob patterns relative to the workspace root.' },
+                        max_results: { type: 'integer', minimum: 1, description: 'Maximum paths to return. Defaults to 200.' },
+                        include_ignored: { type: 'boolean', description: 'Also search ignored, dependency and build folders.' }
+                    },
+                    required: ['patterns']
+                }
+            }
+        },
         {
             type: 'function',
             function: {
                 name: 'edit_file',
-                description: 'Apply text replacements to an existing file.',
+                description:
+                    'Apply text replacements to an existing file. Each find must match exactly `occurrences` times (default 1); if any edit fails nothing is written. Returns a diff of the change.',
                 parameters: {
                     type: 'object',
                     properties: {
                         file_path: { type: 'string' },
                         edits: {
                             type: 'array',
-                            description: 'Sequential find/replace operations to apply.',
+                            description: 'Sequential find/replace operations to apply; later edits see the result of earlier ones.',
                             items: {
                                 type: 'object',
                                 properties: {
-                                    find: { type: 'string', description: 'Exact text to replace.' },
-                                    replace: { type: 'string', description: 'Replacement text.' }
+                                    find: { type: 'string', description: 'Exact text to replace (a regular expression when regex is true).' },
+                                    replace: { type: 'string', description: 'Replacement text. In regex mode $1, $2… refer to capture groups.' },
+                                    occurrences: { type: 'integer', minimum: 1, description: 'Number of matches expected and replaced. Defaults to 1.' },
+                                    start_line: { type: 'integer', minimum: 1, description: 'Only match within lines from here (1-based).' },
+                                    end_line: { type: 'integer', minimum: 1, description: 'Only match within lines up to here (inclusive).' },
+                                    regex: { type: 'boolean', description: 'Treat find as a JavaScript regular expression (multiline). Defaults to false.' }
                                 },
                                 required: ['find']
                             }
@@ -236,11 +505,57 @@ const buildTooling = (fileManager: FileManager, terminalManager: TerminalManager
                 }
             }
         },
+        {
+            type: 'function',
+            function: {
+                name: 'apply_patch',
+                description:
+                    'Apply a unified diff to one or more workspace files (use /dev/null headers to add or delete files, "rename from/to" to rename). Include about 3 unchanged context lines around each change. Hunks are located by their context, so line numbers may be approximate. If any hunk fails nothing is written and the result lists each failed hunk; re-read the file and retry.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        patch: { type: 'string', description: 'Unified diff text with ---/+++ file headers and @@ hunks.' },
+                        fuzz: {
+                            type: 'integer',
+                            minimum: 0,
+                            maximum: 3,
+                            description: 'Context lines that may be ignored at each end of a hunk when it does not match exactly. Defaults to 2.'
+                        }
+                    },
+                    required: ['patch']
+                }
+            }
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'search_workspace',
+                description:
+                    'Search file contents across the workspace (respects .gitignore and files.exclude) and return matches as "path:line: text". Use it to locate code before reading files.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        query: { type: 'string', description: 'Text to find, or a JavaScript regular expression when is_regex is true.' },
+                        is_regex: { type: 'boolean', description: 'Treat query as a regular expression. Defaults to false.' },
+                        case_sensitive: { type: 'boolean', description: 'Defaults to false.' },
+                        include: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Only search files matching these globs, e.g. ["src/**/*.ts"]. Globs without "/" match at any depth.'
+                        },
+                        exclude: { type: 'array', items: { type: 'string' }, description: 'Skip files matching these globs.' },
+                        context_lines: { type: 'integer', minimum: 0, maximum: 5, description: 'Lines of context around each match ("path-line- text"). Defaults to 0.' },
+                        max_results: { type: 'integer', minimum: 1, maximum: 500, description: 'Maximum matches to return. Defaults to 100.' }
+                    },
+                    required: ['query']
+                }
+            }
+        },
         {
             type: 'function',
             function: {
                 name: 'execute_cli',
-                description: 'Execute a CLI command in VS Code terminal. Only safe commands are allowed for security.',
+                description: 'Execute a CLI command in VS Code terminal. The user\'s command policy may block a command or ask them to confirm it; a blocked result explains why.',
                 parameters: {
                     type: 'object',
                     properties: {
@@ -251,11 +566,80 @@ const buildTooling = (fileManager: FileManager, terminalManager: TerminalManager
                         capture_output: { 
                             type: 'boolean', 
                             description: 'Whether to capture command output. Only works for safe informational commands.' 
+                        },
+                        background: {
+                            type: 'boolean',
+                            description: 'Run a long-lived command (dev server, watcher, long build) in the background. Returns a process_id and the first output instead of waiting for it to finish.'
+                        },
+                        cwd: {
+                            type: 'string',
+                            description: 'Working directory relative to the workspace root (default: the root). Must stay inside the workspace.'
+                        },
+                        env: {
+                            type: 'object',
+                            additionalProperties: { type: 'string' },
+                            description: 'Extra environment variables for this command, e.g. {"NODE_ENV": "test"}.'
+                        },
+                        timeout_seconds: {
+                            type: 'number',
+                            minimum: 1,
+                            description: 'Time limit in seconds for a foreground command. Defaults to the user\'s setting (30 unless changed) and is capped by their maximum. Use background for anything that runs indefinitely.'
                         }
                     },
                     required: ['command']
                 }
             }
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'read_process_output',
+                description: 'Read the output a background process (started with execute_cli background=true) produced since the last read, plus its status and exit code.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        process_id: { type: 'string' },
+                        wait_seconds: {
+                            type: 'number',
+                            minimum: 0,
+                            maximum: 30,
+                            description: 'Wait up to this many seconds for the process to exit before reading. Defaults to 0.'
+                        }
+                    },
+                    required: ['process_id']
+                }
+            }
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'send_process_input',
+                description: 'Write text to the stdin of a running background process, e.g. to answer a prompt.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        process_id: { type: 'string' },
+                        input: { type: 'string' },
+                        newline: { type: 'boolean', description: 'Append a newline (press Enter). Defaults to true.' }
+                    },
+                    required: ['process_id', 'input']
+                }
+            }
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'kill_process',
+                description: 'Stop a background process and everything it started. Returns its remaining output.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        process_id: { type: 'string' },
+                        signal: { type: 'string', enum: ['SIGTERM', 'SIGINT', 'SIGKILL'], description: 'Defaults to SIGTERM.' }
+                    },
+                    required: ['process_id']
+                }
+            }
         }
     ];
 
@@ -268,10 +652,30 @@ export async function activate(context: vscode.ExtensionContext) {
 
     const getWorkspaceFolder = () => vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
     let workspaceFolder = getWorkspaceFolder();
-    const fileManager = new FileManager(workspaceFolder ?? '');
-    const terminalManager = new TerminalManager();
+    const permissionPolicy = new PermissionPolicy(settings.toolPermissions);
+    // Paths the tool permissions deny are left out of listings, find_files and search_workspace like files.exclude.
+    const fileManager = new FileManager(workspaceFolder ?? '', () => [
+        ...getFilesExclude(),
+        ...permissionPolicy.deniedPaths('find_files'),
+        ...permissionPolicy.deniedPaths('list_directory')
+    ]);
+    const commandPolicy = new CommandPolicy(settings.commandPolicy.rules, settings.commandPolicy.defaultLevel);
+    const terminalManager = new TerminalManager(
+        () => ({
+            outputLimit: settings.terminalOutputLimit,
+            useIntegratedTerminal: settings.useIntegratedTerminal,
+            env: settings.terminalEnv,
+            defaultTimeoutMs: settings.commandTimeoutSeconds * 1000,
+            maxTimeoutMs: settings.maxCommandTimeoutSeconds * 1000
+        }),
+        commandPolicy
+    );
+    const searchManager = new SearchManager(workspaceFolder ?? '', () => [
+        ...getFilesExclude(),
+        ...permissionPolicy.deniedPaths('search_workspace')
+    ]);
 
-    let { registry: toolRegistry, definitions: toolDefinitions } = buildTooling(fileManager, terminalManager);
+    let { registry: toolRegistry, definitions: toolDefinitions } = buildTooling(fileManager, terminalManager, searchManager);
 
     let cachedProvider: ChatProvider | undefined;
     let cachedProviderId: ProviderId | undefined;
@@ -280,13 +684,18 @@ export async function activate(context: vscode.ExtensionContext) {
     let cachedModel = settings.providers[settings.provider].model;
     let cachedMaxTokens = settings.providers[settings.provider].maxTokens;
 
-    const providerFactory = async (): Promise<ChatProvider> => {
+    const getActiveProvider = async (): Promise<ChatProvider> => {
         const providerId = settings.provider;
         const providerSettings = settings.providers[providerId];
+        const metadata = settings.providerList.find((provider) => provider.id === providerId);
+        if (!metadata || !providerSettings) {
+            throw new Error(`Unsupported provider: ${providerId}`);
+        }
+
         const apiKey = await settingsManager.ensureApiKey(providerId);
-        if (!apiKey) {
+        if (!apiKey && metadata.requiresApiKey !== false) {
             throw new Error(
-                `${PROVIDERS[providerId].label} API key not configured. Use the 🔑 API Keys panel or VS Code settings to add one.`
+                `${metadata.label} API key not configured. Use the 🔑 API Keys panel or VS Code settings to add one.`
             );
         }
 
@@ -298,58 +707,12 @@ export async function activate(context: vscode.ExtensionContext) {
             cachedModel !== providerSettings.model ||
             (cachedMaxTokens ?? 4096) !== (providerSettings.maxTokens ?? 4096)
         ) {
-            if (providerId === 'deepseek') {
-                cachedProvider = new DeepSeekProvider({
-                    apiKey,
-                    baseUrl: providerSettings.baseUrl,
-                    model: providerSettings.model,
-                    maxTokens: providerSettings.maxTokens
-                });
-            } else if (providerId === 'openai') {
-                cachedProvider = new OpenAIProvider({
-                    apiKey,
-                    baseUrl: providerSettings.baseUrl,
-                    model: providerSettings.model,
-                    maxTokens: providerSettings.maxTokens
-                });
-            } else if (providerId === 'zhipuai') {
-                cachedProvider = new ZhiPuAIProvider({
-                    apiKey,
-                    baseUrl: providerSettings.baseUrl,
-                    model: providerSettings.model,
-                    maxTokens: providerSettings.maxTokens
-                });
-            } else if (providerId === 'grok') {
-                cachedProvider = new GrokProvider({
-                    apiKey,
-                    baseUrl: providerSettings.baseUrl,
-                    model: providerSettings.model,
-                    maxTokens: providerSettings.maxTokens
-                });
-            } else if (providerId === 'claude') {
-                cachedProvider = new ClaudeProvider({
-                    apiKey,
-                    baseUrl: providerSettings.baseUrl,
-                    model: providerSettings.model,
-                    maxTokens: providerSettings.maxTokens
-                });
-            } else if (providerId === 'novita') {
-                cachedProvider = new NovitaAIProvider({
-                    apiKey,
-                    baseUrl: providerSettings.baseUrl,
-                    model: providerSettings.model,
-                    maxTokens: providerSettings.maxTokens
-                });
-            } else if (providerId === 'gemini') {
-                cachedProvider = new GeminiProvider({
-                    apiKey,
-                    baseUrl: providerSettings.baseUrl,
-                    model: providerSettings.model,
-                    maxTokens: providerSettings.maxTokens
-                });
-            } else {
-                throw new Error(`Unsupported provider: ${providerId}`);
-            }
+            cachedProvider = createChatProvider(metadata, {
+                apiKey: apiKey ?? '',
+                baseUrl: providerSettings.baseUrl,
+                model: providerSettings.model,
+                maxTokens: providerSettings.maxTokens
+            });
             cachedProviderId = providerId;
             cachedKey = apiKey;
             cachedBaseUrl = providerSettings.baseUrl;
@@ -360,6 +723,57 @@ export async function activate(context: vscode.ExtensionContext) {
         return cachedProvider;
     };
 
+    /**
+     * Fallbacks never prompt for credentials: entries without a stored key (or unknown ids)
+     * are skipped so a misconfigured chain cannot block the active provider.
+     */
+    const getFallbackCandidates = async (primaryId: ProviderId): Promise<ProviderCandidate[]> => {
+        const candidates: ProviderCandidate[] = [];
+        for (const fallbackId of settings.fallbackProviders) {
+            if (fallbackId === primaryId || candidates.some((candidate) => candidate.id === fallbackId)) {
+                continue;
+            }
+            const metadata = settings.providerList.find((provider) => provider.id === fallbackId);
+            const providerSettings = settings.providers[fallbackId];
+            if (!metadata || !providerSettings) {
+                mcp.getLogger().warn(`Skipping unknown fallback provider: ${fallbackId}`);
+                continue;
+            }
+            const apiKey = (await settingsManager.getApiKey(fallbackId)) ?? '';
+            if (!apiKey && metadata.requiresApiKey !== false) {
+                mcp.getLogger().warn(`Skipping fallback provider ${metadata.label}: API key not configured`);
+                continue;
+            }
+            candidates.push({
+                id: metadata.id,
+                label: metadata.label,
+                model: providerSettings.model,
+                provider: createChatProvider(metadata, {
+                    apiKey,
+                    baseUrl: providerSettings.baseUrl,
+                    model: providerSettings.model,
+                    maxTokens: providerSettings.maxTokens
+                })
+            });
+        }
+        return candidates;
+    };
+
+    const providerFactory = async (): Promise<ProviderCandidate[]> => {
+        const primaryId = settings.provider;
+        const provider = await getActiveProvider();
+        const metadata = settings.providerList.find((entry) => entry.id === primaryId);
+        return [
+            {
+                id: primaryId,
+                label: metadata?.label ?? primaryId,
+                model: settings.providers[primaryId]?.model ?? '',
+                provider
+            },
+            ...(await getFallbackCandidates(primaryId))
+        ];
+    };
+
     let systemPrompt = buildSystemPrompt(workspaceFolder);
 
     const mcp = new GeneralMCPHandler({
@@ -372,20 +786,51 @@ export async function activate(context: vscode.ExtensionContext) {
             summaryThreshold: settings.contextSummaryThreshold,
             summaryRetention: settings.contextSummaryRetention,
             summaryTokenThreshold: SUMMARY_TOKEN_THRESHOLD
-        }
+        },
+        retryPolicy: settings.retry,
+        onRetry: (notice) => notifyRetry(notice),
+        onFailover: (notice) => notifyFailover(notice)
     });
 
+    const mcpServers = new McpServerManager(mcp.getLogger(), {
+        name: 'IdSiberCoder',
+        version: String(context.extension.packageJSON?.version ?? '0.0.0')
+    });
+
+    // Built-in workspace tools first, then the namespaced tools of connected MCP servers.
+    const refreshTooling = () => {
+        const tooling = buildTooling(fileManager, terminalManager, searchManager);
+        const external = mcpServers.getTooling();
+        toolRegistry = { ...tooling.registry, ...external.registry };
+        toolDefinitions = [...tooling.definitions, ...external.definitions];
+        mcp.updateTools(toolRegistry, toolDefinitions);
+    };
+
     const sessionManager = new SessionManager(context.workspaceState);
     sessionManager.setDefaultSystemPrompt(systemPrompt);
     const activeSession = sessionManager.ensureBootstrapped();
     if (activeSession) {
         mcp.loadConversation(activeSession.messages);
     }
+    const checkpoints = new CheckpointManager(sessionManager, () => workspaceFolder);
+
+    const choiceHandler = new ChoiceHandler({
+        show: (choice) => {
+            sidebarProvider.postChoice(choice);
+            activePanel?.postChoice(choice);
+        },
+        dismiss: (choiceId) => {
+            sidebarProvider.postChoiceResolved(choiceId);
+            activePanel?.postChoiceResolved(choiceId);
+        }
+    });
 
     // Register sidebar view provider
+    const changeReviewer = new ChangeReviewer(choiceHandler);
+
     const sidebarProvider = new SidebarView(context.extensionUri, {
-        onPrompt: async (prompt: string) => {
-            await handlePrompt(prompt);
+        onPrompt: async (prompt: string, attachments?: PanelAttachmentRef[]) => {
+            await handlePrompt(prompt, attachments);
         },
         onFileTool: async (payload: FileToolPayload) => {
             await handleFileTool(payload);
@@ -405,6 +850,33 @@ export async function activate(context: vscode.ExtensionContext) {
         onSaveApiKey: (providerId: string, apiKey: string | undefined) => {
             handleSaveApiKey(providerId as ProviderId, apiKey);
         },
+        onRefreshModels: () => {
+            handleRefreshModels();
+        },
+        onCustomModel: () => {
+            handleCustomModel();
+        },
+        onChoice: (choiceId: string, optionId: string) => {
+            choiceHandler.resolve(choiceId, optionId);
+        },
+        onToggleMcpServer: (name: string, enabled: boolean) => {
+            handleToggleMcpServer(name, enabled);
+        },
+        onRestartMcpServer: (name: string) => {
+            handleRestartMcpServer(name);
+        },
+        onMcpPrompt: (server: string, name: string, args: Record<string, string>) => {
+            handleMcpPrompt(server, name, args);
+        },
+        onRestoreCheckpoint: (checkpointId: string, filePath?: string) => {
+            handleRestoreCheckpoint(checkpointId, filePath);
+        },
+        onKillBackgroundProcess: (processId: string) => {
+            void terminalManager.killProcess(processId);
+        },
+        onDismissBackgroundProcess: (processId: string) => {
+            handleDismissBackgroundProcess(processId);
+        },
         onReady: () => {
             // Sidebar webview is ready, update state with a small delay
             setTimeout(() => {
@@ -481,7 +953,7 @@ export async function activate(context: vscode.ExtensionContext) {
         `.trim();
     };
 
-    const formatAssistantHtml = (raw: string, toolCalls?: ToolFunctionCall[]) => {
+    const formatAssistantHtml = (raw: string, toolCalls?: ToolFunctionCall[], reasoning?: string) => {
         const trimmedRaw = raw.trim();
         if (trimmedRaw.startsWith(CONTEXT_SUMMARY_PREFIX)) {
             return {
@@ -492,7 +964,7 @@ export async function activate(context: vscode.ExtensionContext) {
         }
 
         const lines = raw.split(/\r?\n/);
-        const thinkLines: string[] = [];
+        const thinkLines: string[] = reasoning?.trim() ? [reasoning.trim()] : [];
         const responseLines: string[] = [];
         let toolCallPayload = '';
 
@@ -580,12 +1052,17 @@ export async function activate(context: vscode.ExtensionContext) {
             const actionName = actionMatch?.[1] ?? 'tool';
             const statusFragment = actionMatch?.[2] ?? '';
             const bodyText = rest.join('\n').trim();
+            // edit_file appends a unified diff; render it as a code block instead of markdown.
+            const diffStart = bodyText.indexOf('\n--- a/');
+            const renderedBody = diffStart >= 0
+                ? `${bodyText.slice(0, diffStart)}\n\n\`\`\`diff\n${bodyText.slice(diffStart + 1)}\n\`\`\``
+                : bodyText;
             const success = !statusFragment.includes('FAILED');
             const summary = success
                 ? `Tool • ${actionName} (success)`
                 : `Tool • ${actionName} (failed)`;
             const html = bodyText
-                ? markdown.render(bodyText)
+                ? markdown.render(renderedBody)
                 : statusFragment
                     ? markdown.render(statusFragment)
                     : markdown.render(headline);
@@ -600,11 +1077,28 @@ export async function activate(context: vscode.ExtensionContext) {
         }
 
         if (message.role === 'assistant') {
-            const panelMessage = formatAssistantHtml(message.content ?? '', message.toolCalls);
+            const panelMessage = formatAssistantHtml(message.content ?? '', message.toolCalls, message.reasoning);
             (panelMessage as PanelMessage).tokens = message.usage?.totalTokens;
+            if (message.provider) {
+                (panelMessage as PanelMessage).provider = message.provider.model
+                    ? `${message.provider.label} · ${message.provider.model}`
+                    : message.provider.label;
+            }
             return panelMessage;
         }
 
+        if (message.role === 'user' && message.attachments?.length) {
+            // Resource text is for the model; the timeline shows the typed prompt plus attachment chips.
+            const separatorIndex = message.content.indexOf(ATTACHMENT_SEPARATOR);
+            const typed = separatorIndex >= 0 ? message.content.slice(0, separatorIndex) : message.content;
+            return {
+                role: 'user',
+                content: typed,
+                html: `<div style="white-space: pre-wrap;">${escapeHtml(typed)}</div>`,
+                attachments: message.attachments.map((attachment) => `${attachment.name} (${attachment.server})`)
+            };
+        }
+
         return {
             role: message.role as PanelMessage['role'],
             content: message.content,
@@ -644,19 +1138,67 @@ export async function activate(context: vscode.ExtensionContext) {
             updatedAt: session.updatedAt
         }));
 
+    const HOUR_MS = 60 * 60 * 1000;
+
+    const modelCatalog = new ModelCatalog(
+        context.globalState,
+        async (metadata, baseUrl) => {
+            const providerSettings = settings.providers[metadata.id];
+            const apiKey = (await settingsManager.getApiKey(metadata.id)) ?? '';
+            if (!providerSettings || (!apiKey && metadata.requiresApiKey !== false)) {
+                return undefined;
+            }
+            const provider = createChatProvider(metadata, {
+                apiKey,
+                baseUrl,
+                model: providerSettings.model,
+                maxTokens: providerSettings.maxTokens
+            });
+            return provider.listModels?.();
+        },
+        settings.modelCatalogTtlHours * HOUR_MS
+    );
+
+    const getProviderBaseUrl = (provider: ProviderMetadata) =>
+        settings.providers[provider.id]?.baseUrl ?? provider.defaultBaseUrl;
+
+    /**
+     * Catalogue models for a provider, keeping the selected model visible even when it was
+     * entered by hand and is not reported by the endpoint.
+     */
+    const getProviderModels = (provider: ProviderMetadata): ProviderModel[] => {
+        const models = modelCatalog.getModels(provider, getProviderBaseUrl(provider));
+        const selected = settings.providers[provider.id]?.model;
+        if (selected && !models.some((model) => model.id === selected)) {
+            return [{ id: selected, label: selected }, ...models];
+        }
+        return models;
+    };
+
+    const refreshModelCatalog = async (force = false) => {
+        const result = await modelCatalog.refresh(
+            settings.providerList.map((metadata) => ({ metadata, baseUrl: getProviderBaseUrl(metadata) })),
+            force
+        );
+        for (const failure of result.failures) {
+            mcp.getLogger().warn(`Model discovery failed for ${failure.label}: ${failure.error}`);
+        }
+        return result;
+    };
+
     const toPanelProviders = () =>
-        PROVIDER_LIST.map((provider) => ({
+        settings.providerList.map((provider) => ({
             id: provider.id,
             label: provider.label,
-            models: provider.models.map((model) => ({ ...model })),
+            models: getProviderModels(provider).map((model) => ({ ...model })),
             hasApiKey: Boolean(settings.apiKeys?.[provider.id])
         }));
 
     const MODEL_OPTION_SEPARATOR = '::';
 
     const toPanelModelOptions = () =>
-        PROVIDER_LIST.flatMap((provider) =>
-            provider.models.map((model) => ({
+        settings.providerList.flatMap((provider) =>
+            getProviderModels(provider).map((model) => ({
                 id: `${provider.id}${MODEL_OPTION_SEPARATOR}${model.id}`,
                 label: `${model.label} (${provider.label})`,
                 providerId: provider.id,
@@ -664,6 +1206,50 @@ export async function activate(context: vscode.ExtensionContext) {
             }))
         );
 
+    const toPanelMcpServers = (): PanelMcpServer[] =>
+        mcpServers.getStates().map((state) => ({
+            name: state.name,
+            type: state.type,
+            status: state.status,
+            error: state.error,
+            toolCount: state.tools.length,
+            enabled: state.status !== 'disabled'
+        }));
+
+    const toPanelMcpResources = (): PanelMcpResource[] =>
+        mcpServers.getStates().flatMap((state) =>
+            state.resources.map((resource) => ({
+                server: state.name,
+                uri: resource.uri,
+                name: resource.title ?? resource.name,
+                description: resource.description,
+                mimeType: resource.mimeType
+            }))
+        );
+
+    const toPanelMcpPrompts = (): PanelMcpPrompt[] =>
+        mcpServers.getStates().flatMap((state) =>
+            state.prompts.map((prompt) => ({
+                server: state.name,
+                name: prompt.name,
+                title: prompt.title,
+                description: prompt.description,
+                arguments: prompt.arguments ?? []
+            }))
+        );
+
+    const toPanelCheckpoints = (): PanelCheckpoint[] =>
+        checkpoints.list().map((checkpoint) => ({
+            id: checkpoint.id,
+            label: checkpoint.label,
+            createdAt: checkpoint.createdAt,
+            restoredAt: checkpoint.restoredAt,
+            files: checkpoint.files.map((file) => ({ path: file.path, existed: file.existed, restorable: !file.skipped }))
+        }));
+
+    const toPanelBackgroundProcesses = (): PanelBackgroundProcess[] =>
+        terminalManager.listProcesses().map((info) => ({ ...info, output: terminalManager.getOutputTail(info.id) }));
+
     const buildPanelState = () => ({
         messages: renderMessagesForPanel(),
         workingDirectory: workspaceFolder,
@@ -672,13 +1258,50 @@ export async function activate(context: vscode.ExtensionContext) {
         providers: toPanelProviders(),
         modelOptions: toPanelModelOptions(),
         activeModelOptionId: `${settings.provider}${MODEL_OPTION_SEPARATOR}${settings.providers[settings.provider]?.model}`,
-        totalTokens: computeTotalTokens()
+        totalTokens: computeTotalTokens(),
+        pendingChoices: choiceHandler.getPending(),
+        mcpServers: toPanelMcpServers(),
+        mcpResources: toPanelMcpResources(),
+        mcpPrompts: toPanelMcpPrompts(),
+        checkpoints: toPanelCheckpoints(),
+        backgroundProcesses: toPanelBackgroundProcesses()
     });
 
     const updateSidebarState = () => {
         sidebarProvider.postState(buildPanelState());
     };
 
+    // Output arrives in many small chunks; batch it per process so the webviews get a few updates per second.
+    const pendingProcessEvents = new Map<string, BackgroundProcessEvent>();
+    let processFlushTimer: NodeJS.Timeout | undefined;
+    const flushProcessEvents = () => {
+        processFlushTimer = undefined;
+        for (const event of pendingProcessEvents.values()) {
+            const { chunk, ...info } = event;
+            const update: PanelBackgroundProcess = { ...info, output: chunk };
+            sidebarProvider.postBackgroundProcess(update);
+            activePanel?.postBackgroundProcess(update);
+        }
+        pendingProcessEvents.clear();
+    };
+    terminalManager.onProcessEvent = (event) => {
+        const pending = pendingProcessEvents.get(event.id);
+        pendingProcessEvents.set(event.id, { ...event, chunk: `${pending?.chunk ?? ''}${event.chunk}` });
+        processFlushTimer ??= setTimeout(flushProcessEvents, 150);
+    };
+
+    function handleDismissBackgroundProcess(processId: string) {
+        terminalManager.removeProcess(processId);
+        updateSidebarState();
+        activePanel?.postState(buildPanelState());
+    }
+
+    mcpServers.onDidChange = () => {
+        refreshTooling();
+        updateSidebarState();
+        activePanel?.postState(buildPanelState());
+    };
+
     const persistActiveSession = () => {
         const sessionId = sessionManager.getActiveSessionId();
         if (!sessionId) {
@@ -689,6 +1312,8 @@ export async function activate(context: vscode.ExtensionContext) {
 
     const refreshSettings = async () => {
         settings = await settingsManager.getSettings();
+        permissionPolicy.setRules(settings.toolPermissions);
+        commandPolicy.setRules(settings.commandPolicy.rules, settings.commandPolicy.defaultLevel);
         cachedProvider = undefined;
         cachedProviderId = undefined;
         cachedKey = undefined;
@@ -724,6 +1349,7 @@ export async function activate(context: vscode.ExtensionContext) {
             persistActiveSession();
         }
         sessionManager.deleteSession(sessionId);
+        permissionPolicy.clearSession(sessionId);
         const session = sessionManager.getActiveSession();
         if (session) {
             mcp.loadConversation(session.messages);
@@ -732,19 +1358,19 @@ export async function activate(context: vscode.ExtensionContext) {
         updateSidebarState();
     }
 
-    async function handleModelSelect(selectionId: string) {
+    async function handleModelSelect(selectionId: string, allowUnlisted = false) {
         const [providerIdRaw, modelId] = selectionId.split(MODEL_OPTION_SEPARATOR);
         if (!providerIdRaw || !modelId) {
             vscode.window.showWarningMessage(`Model option ${selectionId} is not recognised.`);
             return;
         }
         const providerId = providerIdRaw as ProviderId;
-        const metadata = PROVIDERS[providerId];
+        const metadata = settings.providerList.find((provider) => provider.id === providerId);
         if (!metadata) {
             vscode.window.showWarningMessage(`Unsupported provider: ${providerIdRaw}`);
             return;
         }
-        if (!metadata.models.some((model) => model.id === modelId)) {
+        if (!allowUnlisted && !getProviderModels(metadata).some((model) => model.id === modelId)) {
             vscode.window.showWarningMessage(`Model ${modelId} is not available for ${metadata.label}.`);
             return;
         }
@@ -782,30 +1408,135 @@ export async function activate(context: vscode.ExtensionContext) {
         updateSidebarState();
     }
 
+    async function handleRefreshModels() {
+        const result = await refreshModelCatalog(true);
+        updateSidebarState();
+        activePanel?.postState(buildPanelState());
+
+        if (result.failures.length) {
+            vscode.window.showWarningMessage(
+                `Could not refresh models for ${result.failures.map((failure) => failure.label).join(', ')}. See the IdSiberCoder output for details.`
+            );
+        } else {
+            vscode.window.showInformationMessage(`Model list refreshed for ${result.refreshed.length} provider(s).`);
+        }
+    }
+
+    async function handleCustomModel() {
+        const metadata = settings.providerList.find((provider) => provider.id === settings.provider);
+        if (!metadata) {
+            return;
+        }
+        const modelId = await vscode.window.showInputBox({
+            prompt: `Model id for ${metadata.label}`,
+            placeHolder: metadata.defaultModel,
+            value: settings.providers[metadata.id]?.model,
+            validateInput: (value) =>
+                !value.trim()
+                    ? 'Model id is required.'
+                    : value.includes(MODEL_OPTION_SEPARATOR)
+                    ? `Model id must not contain "${MODEL_OPTION_SEPARATOR}".`
+                    : undefined
+        });
+        if (!modelId?.trim()) {
+            updateSidebarState();
+            return;
+        }
+        await handleModelSelect(`${metadata.id}${MODEL_OPTION_SEPARATOR}${modelId.trim()}`, true);
+    }
+
+    async function handleToggleMcpServer(name: string, enabled: boolean) {
+        // The configuration watcher applies the change once the setting is written.
+        await settingsManager.setMcpServerEnabled(name, enabled);
+    }
+
+    async function handleRestartMcpServer(name?: string) {
+        let target = name;
+        if (!target) {
+            const states = mcpServers.getStates().filter((state) => state.status !== 'disabled');
+            if (!states.length) {
+                vscode.window.showInformationMessage('No MCP servers are configured. Add them under idSiberCoder.mcpServers.');
+                return;
+            }
+            const picked = await vscode.window.showQuickPick(
+                states.map((state) => ({
+                    label: state.name,
+                    description: `${state.type} · ${state.status}`,
+                    detail: state.error
+                })),
+                { placeHolder: 'Restart which MCP server?' }
+            );
+            target = picked?.label;
+        }
+        if (target) {
+            await mcpServers.restart(target);
+        }
+    }
+
     async function handleSaveApiKey(providerId: ProviderId, apiKey?: string) {
-        if (!PROVIDERS[providerId]) {
+        const metadata = settings.providerList.find((provider) => provider.id === providerId);
+        if (!metadata) {
             vscode.window.showWarningMessage(`Unsupported provider: ${providerId}`);
             return;
         }
 
         if (apiKey && apiKey.trim()) {
             await settingsManager.setApiKey(providerId, apiKey.trim());
-            vscode.window.showInformationMessage(`${PROVIDERS[providerId].label} API key saved.`);
+            vscode.window.showInformationMessage(`${metadata.label} API key saved.`);
         } else {
             await settingsManager.setApiKey(providerId, undefined);
-            vscode.window.showInformationMessage(`${PROVIDERS[providerId].label} API key cleared.`);
+            vscode.window.showInformationMessage(`${metadata.label} API key cleared.`);
         }
 
         await refreshSettings();
         sidebarProvider.setLoading(false);
         updateSidebarState();
+
+        await refreshModelCatalog();
+        updateSidebarState();
     }
 
     const sendSidebarMessage = (message: ConversationMessage) => {
         const renderable = toPanelMessage(message);
         if (renderable) {
             sidebarProvider.appendMessage(renderable);
+            activePanel?.appendMessage(renderable);
+        }
+    };
+
+    function notifyRetry(notice: RetryNotice) {
+        const panelNotice: PanelRetryNotice = {
+            attempt: notice.attempt,
+            maxAttempts: notice.maxAttempts,
+            delayMs: notice.delayMs,
+            reason: notice.reason
+        };
+        sidebarProvider.postRetry(panelNotice);
+        activePanel?.postRetry(panelNotice);
+    }
+
+    function notifyFailover(notice: FailoverNotice) {
+        const panelNotice: PanelFailoverNotice = { from: notice.from, to: notice.to, reason: notice.reason };
+        sidebarProvider.postFailover(panelNotice);
+        activePanel?.postFailover(panelNotice);
+    }
+
+    const createStreamHandler = (): StreamHandler | undefined => {
+        if (!settings.enableStreaming) {
+            return undefined;
         }
+        return (delta) => {
+            const panelDelta: PanelStreamDelta = {
+                reset: delta.reset || undefined,
+                content: delta.content,
+                toolName: delta.toolCall?.name
+            };
+            if (!panelDelta.reset && !panelDelta.content && !panelDelta.toolName) {
+                return;
+            }
+            sidebarProvider.postStreamDelta(panelDelta);
+            activePanel?.postStreamDelta(panelDelta);
+        };
     };
 
     const isFileOperationResult = (value: unknown): value is FileOperationResult => {
@@ -819,7 +1550,8 @@ export async function activate(context: vscode.ExtensionContext) {
     const getToolCalls = (outcome: PromptOutcome) =>
         outcome.toolCalls ?? outcome.message.toolCalls ?? [];
 
-    const parseToolArguments = (toolCall?: ToolFunctionCall) => {
+    /** Undefined when the arguments are not valid JSON, e.g. a streamed call cut off by the token limit. */
+    const parseToolArguments = (toolCall?: ToolFunctionCall): Record<string, unknown> | undefined => {
         try {
             const args = toolCall?.function?.arguments;
             if (typeof args === 'string' && args.trim()) {
@@ -827,13 +1559,26 @@ export async function activate(context: vscode.ExtensionContext) {
             }
         } catch (error) {
             console.warn('Failed to parse tool call arguments:', error);
+            return undefined;
         }
-        return {} as Record<string, unknown>;
+        return {};
     };
 
     const ensureToolParameters = (action: string, parameters: Record<string, unknown>): Record<string, unknown> => {
         switch (action) {
             case 'read_file':
+                {
+                    // Also accept offset/limit (first line plus line count) as used by other agents.
+                    const start = optionalLineNumber(parameters.start_line ?? parameters.offset);
+                    const limit = optionalLineNumber(parameters.limit);
+                    const end = optionalLineNumber(parameters.end_line)
+                        ?? (limit !== undefined ? (start ?? 1) + Math.max(1, limit) - 1 : undefined);
+                    return {
+                        file_path: parameters.file_path ?? parameters.path ?? parameters.target,
+                        start_line: start,
+                        end_line: end
+                    };
+                }
             case 'delete_file':
                 {
                     const pathValue =
@@ -856,7 +1601,21 @@ export async function activate(context: vscode.ExtensionContext) {
             case 'list_directory':
                 {
                     const dir = parameters.dir_path ?? parameters.directory ?? parameters.path ?? parameters.target;
-                    return { dir_path: typeof dir === 'string' && dir.length > 0 ? dir : '.' };
+                    return {
+                        dir_path: typeof dir === 'string' && dir.length > 0 ? dir : '.',
+                        recursive: parameters.recursive === true,
+                        max_depth: parameters.max_depth ?? parameters.depth,
+                        include_ignored: parameters.include_ignored === true
+                    };
+                }
+            case 'find_files':
+                {
+                    const patterns = parameters.patterns ?? parameters.pattern ?? parameters.glob;
+                    return {
+                        patterns: typeof patterns === 'string' ? [patterns] : patterns,
+                        max_results: parameters.max_results ?? parameters.limit,
+                        include_ignored: parameters.include_ignored === true
+                    };
                 }
             case 'edit_file':
                 return {
@@ -865,18 +1624,52 @@ export async function activate(context: vscode.ExtensionContext) {
                         ? parameters.edits
                               .map((edit: any) => ({
                                   find: typeof edit?.find === 'string' ? edit.find : '',
-                                  replace: typeof edit?.replace === 'string' ? edit.replace : ''
+                                  replace: typeof edit?.replace === 'string' ? edit.replace : '',
+                                  occurrences: edit?.occurrences ?? edit?.expected_occurrences ?? edit?.count,
+                                  start_line: edit?.start_line,
+                                  end_line: edit?.end_line,
+                                  regex: edit?.regex === true || edit?.is_regex === true
                               }))
                               .filter((edit) => edit.find.length > 0)
                         : []
                 };
+            case 'apply_patch':
+                return {
+                    patch: parameters.patch ?? parameters.diff ?? parameters.content ?? '',
+                    fuzz: parameters.fuzz
+                };
+            case 'search_workspace':
+                return {
+                    query: parameters.query ?? parameters.pattern ?? parameters.text ?? '',
+                    is_regex: parameters.is_regex === true || parameters.regex === true,
+                    case_sensitive: parameters.case_sensitive === true,
+                    include: parameters.include ?? parameters.glob,
+                    exclude: parameters.exclude,
+                    context_lines: parameters.context_lines ?? parameters.context,
+                    max_results: parameters.max_results ?? parameters.limit
+                };
             case 'execute_cli':
                 return {
                     command: parameters.command ?? '',
-                    capture_output: parameters.capture_output === true
+                    capture_output: parameters.capture_output === true,
+                    background: parameters.background === true || parameters.run_in_background === true,
+                    cwd: parameters.cwd ?? parameters.working_directory ?? parameters.workdir,
+                    env: parameters.env ?? parameters.environment,
+                    timeout_seconds: parameters.timeout_seconds ?? parameters.timeout
+                };
+            case 'read_process_output':
+            case 'send_process_input':
+            case 'kill_process':
+                return {
+                    process_id: parameters.process_id ?? parameters.processId ?? parameters.id,
+                    wait_seconds: parameters.wait_seconds,
+                    input: parameters.input ?? parameters.text,
+                    newline: parameters.newline,
+                    signal: parameters.signal
                 };
             default:
-                return {};
+                // MCP tools declare their own input schema; forward the model's arguments untouched.
+                return isMcpToolName(action) ? parameters : {};
         }
     };
 
@@ -901,8 +1694,12 @@ export async function activate(context: vscode.ExtensionContext) {
 
     const buildToolOutputs = (action: string, result: FileOperationResult | TerminalOperationResult) => {
         const lines: string[] = [];
+        const commandOutput = 'stdout' in result || 'stderr' in result ? formatCommandOutput(result) : undefined;
         
         // Handle TerminalOperationResult specifically
+        if (commandOutput) {
+            lines.push(commandOutput.text);
+        }
         if ('output' in result && result.output) {
             lines.push(result.output);
         }
@@ -914,12 +1711,14 @@ export async function activate(context: vscode.ExtensionContext) {
         if ('content' in result && result.content) {
             lines.push(result.content);
         }
-        
-        if (!result.success && result.error) {
+
+        // A finished command already reports its exit status.
+        if (!result.success && result.error && !commandOutput) {
             lines.push(`Error: ${result.error}`);
         }
 
-        const bodyText = lines.join('\n').trim();
+        const diffText = 'diff' in result && result.diff ? result.diff : '';
+        const bodyText = [...lines, diffText].join('\n').trim();
         const conversationText = bodyText
             ? `Tool result for ${action}:\n${bodyText}`
             : result.success
@@ -928,8 +1727,9 @@ export async function activate(context: vscode.ExtensionContext) {
 
         const displayText = bodyText || (result.success ? 'Success' : result.error ?? 'No output');
 
-        const markdownBody = bodyText.includes('\n')
-            ? bodyText
+        const listText = lines.join('\n').trim();
+        const listBody = listText.includes('\n')
+            ? listText
                   .split('\n')
                   .map((line) => {
                       const trimmed = line.trim();
@@ -943,7 +1743,12 @@ export async function activate(context: vscode.ExtensionContext) {
                   })
                   .filter(Boolean)
                   .join('\n')
-            : displayText;
+            : listText || displayText;
+        const markdownBody = commandOutput
+            ? commandOutput.markdown
+            : diffText
+                ? `${listBody}\n\n\`\`\`diff\n${diffText}\n\`\`\``
+                : listBody;
 
         const summary = result.success
             ? `Tool • ${action} (success)`
@@ -960,8 +1765,281 @@ export async function activate(context: vscode.ExtensionContext) {
         return { conversationText, panelMessage };
     };
 
-    async function processOutcome(outcome: PromptOutcome, cancelToken?: vscode.CancellationToken) {
+    /** Show an approval card for an `ask` verdict; "allow for this session" is remembered by `PermissionPolicy` under `scope.grantScope`. */
+    const askToolPermission = async (
+        action: string,
+        subject: ToolSubject,
+        verdict: PermissionVerdict,
+        commandVerdict: CommandVerdict | undefined,
+        scope: ToolRunScope
+    ): Promise<boolean> => {
+        const target = subject.command ? `\`${subject.command}\`` : subject.paths.join(', ');
+        const rule = verdict.level === 'ask' ? verdict.rule : undefined;
+        // A session grant only covers the toolPermissions rule that asked; commands the command policy asks about are confirmed each time.
+        const commandAsks = commandVerdict?.level === 'ask';
+        const grantable = rule && !commandAsks ? rule : undefined;
+        const answer = await choiceHandler.ask(
+            {
+                title: scope.requester ? `Allow ${scope.requester} to run ${action}?` : `Allow ${action}?`,
+                detail: [
+                    target,
+                    rule ? `Rule: ${[rule.tool, rule.path, rule.command].filter(Boolean).join(' · ')} → ask` : '',
+                    ...(commandAsks ? commandVerdict.reasons : []),
+                    grantable ? describeSessionGrant(action, grantable) : ''
+                ]
+                    .filter(Boolean)
+                    .join('\n'),
+                options: [
+                    { id: 'once', label: 'Allow', primary: true },
+                    ...(grantable ? [{ id: 'session', label: 'Allow for this session' }] : []),
+                    { id: 'deny', label: 'Deny' }
+                ]
+            },
+            scope.cancelToken
+        );
+        if (answer === 'session' && scope.grantScope && grantable) {
+            permissionPolicy.grantForSession(scope.grantScope, action, grantable);
+        }
+        return answer === 'once' || answer === 'session';
+    };
+
+    /**
+     * Validate arguments and run one tool through `ToolCallHandler`; shared by the agent loop and the embedded MCP server.
+     * The call must pass `idSiberCoder.toolPermissions` first, and `execute_cli` also `idSiberCoder.commandPolicy`. With `idSiberCoder.reviewFileChanges` file writes wait
+     * for the user's verdict in a diff editor (which then stands in for an `ask` card), and files the tool is about
+     * to change are snapshotted (see `CheckpointManager`). `scope` defaults to the active chat session and its request.
+     */
+    const runTool = async (
+        action: string,
+        args: Record<string, unknown>,
+        checkpointLabel = action,
+        scope: ToolRunScope = {
+            grantScope: sessionManager.getActiveSessionId(),
+            cancelToken: currentCancellationTokenSource?.token
+        }
+    ): Promise<FileOperationResult | TerminalOperationResult> => {
+        try {
+            const params = ensureToolParameters(action, args);
+            const subject = toolSubject(action, params, workspaceFolder);
+            const verdict = permissionPolicy.evaluate(action, subject, scope.grantScope);
+            if (verdict.level === 'deny') {
+                return {
+                    success: false,
+                    error: `${action} is not permitted here by the user's idSiberCoder.toolPermissions settings. Do not retry it; use another approach or ask the user.`
+                };
+            }
+
+            const commandVerdict = subject.command !== undefined ? commandPolicy.evaluate(subject.command) : undefined;
+            if (commandVerdict?.level === 'deny') {
+                return {
+                    success: false,
+                    error: `The user's command policy blocks this command:\n${commandVerdict.reasons.join('\n')}\nDo not retry it or work around it with an equivalent command; use another approach or ask the user.`
+                };
+            }
+
+            const change = settings.reviewFileChanges ? toFileChange(action, params) : undefined;
+            // A change that cannot be previewed (missing file, failing edit) runs unreviewed and reports its own error.
+            const preview = change ? await fileManager.previewChange(change).catch(() => undefined) : undefined;
+            const needsApproval = verdict.level === 'ask' || commandVerdict?.level === 'ask';
+            if (needsApproval && !preview && !(await askToolPermission(action, subject, verdict, commandVerdict, scope))) {
+                return {
+                    success: false,
+                    error: `The user declined this ${action} call; nothing was run. Ask what they want instead of retrying it.`
+                };
+            }
+            const decision = preview ? await changeReviewer.review(preview, scope.cancelToken) : undefined;
+            if (decision?.kind === 'reject') {
+                return {
+                    success: false,
+                    error: `The user rejected this ${action} call; nothing was written. Ask what they want instead of retrying the same change.`,
+                    path: preview?.path
+                };
+            }
+
+            try {
+                await checkpoints.capture(mutatedPaths(action, params), checkpointLabel);
+            } catch (error) {
+                mcp.getLogger().warn(`Checkpoint before ${action} failed`, error instanceof Error ? error.message : String(error));
+            }
+
+            if (preview && decision?.kind === 'edited') {
+                const written = await fileManager.writeFile(preview.path, decision.content);
+                return written.success
+                    ? {
+                          ...written,
+                          message: `The user edited your proposed change before accepting it; ${preview.path} now holds their version. Diff from your proposal to the saved file:`,
+                          diff: createUnifiedDiff(preview.path, preview.after ?? '', decision.content)
+                      }
+                    : written;
+            }
+            return await executeTool(action, params);
+        } catch (error) {
+            const friendly = error instanceof Error ? error.message : String(error);
+            return { success: false, error: friendly };
+        }
+    };
+
+    const mcpGrantScope = (session: McpServerSession) => `mcp:${session.id}`;
+
+    // One decision per client session; concurrent calls wait for the same prompt.
+    const mcpSessionApprovals = new WeakMap<McpServerSession, Promise<boolean>>();
+
+    const approveMcpSession = (session: McpServerSession): Promise<boolean> => {
+        if (!settings.embeddedMcpServer.requireApproval) {
+            return Promise.resolve(true);
+        }
+        let approval = mcpSessionApprovals.get(session);
+        if (!approval) {
+            const clientName = session.client?.name ?? 'An MCP client';
+            approval = Promise.resolve(
+                vscode.window.showWarningMessage(
+                    `${clientName} wants to run IdSiberCoder workspace tools on ${workspaceFolder ?? 'this window'}.`,
+                    'Allow',
+                    'Deny'
+                )
+            ).then((answer) => answer === 'Allow');
+            mcpSessionApprovals.set(session, approval);
+        }
+        return approval;
+    };
+
+    const embeddedMcpServer = new McpHttpServer(
+        new McpToolServer(
+            {
+                // Only the built-in workspace tools; tools proxied from other MCP servers are not re-published.
+                listTools: () =>
+                    toolDefinitions
+                        .filter((definition) => !isMcpToolName(definition.function.name))
+                        .map((definition) => ({
+                            name: definition.function.name,
+                            description: definition.function.description,
+                            inputSchema: definition.function.parameters
+                        })),
+                callTool: async (name, args, session, signal) => {
+                    if (!(await approveMcpSession(session))) {
+                        return {
+                            content: [{ type: 'text', text: 'Denied: the IdSiberCoder user did not allow this client to run workspace tools.' }],
+                            isError: true
+                        };
+                    }
+                    const client = session.client?.name ?? 'client';
+                    mcp.getLogger().info(`Embedded MCP server: ${client} called ${name}`, args);
+                    const cancellation = new vscode.CancellationTokenSource();
+                    const cancel = () => cancellation.cancel();
+                    signal.addEventListener('abort', cancel, { once: true });
+                    if (signal.aborted) {
+                        cancellation.cancel();
+                    }
+                    try {
+                        // Each client session starts with no grants; chat-session grants never apply to MCP calls.
+                        const result = await runTool(name, args, `MCP: ${client}`, {
+                            grantScope: mcpGrantScope(session),
+                            cancelToken: cancellation.token,
+                            requester: client
+                        });
+                        const { conversationText } = buildToolOutputs(name, result);
+                        return { content: [{ type: 'text', text: conversationText }], isError: !result.success };
+                    } finally {
+                        signal.removeEventListener('abort', cancel);
+                        cancellation.dispose();
+                    }
+                },
+                closeSession: (session) => permissionPolicy.clearSession(mcpGrantScope(session))
+            },
+            { name: 'idsibercoder-workspace', version: String(context.extension.packageJSON?.version ?? '0.0.0') },
+            'Tools operate on the folder open in VS Code; file paths are relative to the workspace root.'
+        ),
+        mcp.getLogger()
+    );
+
+    const applyEmbeddedMcpServerSettings = async () => {
+        const config = settings.embeddedMcpServer;
+        if (!config.enabled) {
+            await embeddedMcpServer.stop();
+            return;
+        }
+        try {
+            await embeddedMcpServer.start(config.port, await settingsManager.ensureMcpServerToken());
+        } catch (error) {
+            const friendly = error instanceof Error ? error.message : String(error);
+            mcp.getLogger().error('Embedded MCP server failed to start', friendly);
+            vscode.window.showWarningMessage(`IdSiberCoder MCP server could not listen on port ${config.port}: ${friendly}`);
+        }
+    };
+
+    async function handleCopyMcpServerConfig() {
+        if (!embeddedMcpServer.url) {
+            const answer = await vscode.window.showInformationMessage(
+                'The IdSiberCoder MCP server is not running (idSiberCoder.mcpServer.enabled).',
+                'Enable'
+            );
+            if (answer !== 'Enable') {
+                return;
+            }
+            await settingsManager.setEmbeddedMcpServerEnabled(true);
+            await refreshSettings();
+            await applyEmbeddedMcpServerSettings();
+            if (!embeddedMcpServer.url) {
+                return;
+            }
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            [
+                { label: 'Streamable HTTP', description: embeddedMcpServer.url, transport: 'http' as const },
+                { label: 'stdio', description: 'node bridge process for clients that only launch commands', transport: 'stdio' as const }
+            ],
+            { placeHolder: 'How will the MCP client connect?' }
+        );
+        if (!picked) {
+            return;
+        }
+
+        const token = await settingsManager.ensureMcpServerToken();
+        const entry =
+            picked.transport === 'http'
+                ? { type: 'http', url: embeddedMcpServer.url, headers: { Authorization: `Bearer ${token}` } }
+                : {
+                      command: 'node',
+                      args: [context.asAbsolutePath('out/mcp/stdioBridge.js')],
+                      env: { IDSIBERCODER_MCP_URL: embeddedMcpServer.url, IDSIBERCODER_MCP_TOKEN: token }
+                  };
+        await vscode.env.clipboard.writeText(JSON.stringify({ idsibercoder: entry }, null, 2));
+        vscode.window.showInformationMessage(`MCP ${picked.label} configuration copied. It contains the access token; keep it private.`);
+    }
+
+    /**
+     * Pause the agent and let the user decide whether a long or repetitive run should go on.
+     */
+    async function confirmLoopContinuation(trip: LoopGuardTrip, cancelToken?: vscode.CancellationToken) {
+        const detail =
+            trip.kind === 'iterations'
+                ? `IdSiberCoder has run ${trip.iterations} tool rounds for this request (idSiberCoder.maxIterations).`
+                : `The model called ${trip.toolName} with the same arguments ${trip.repeats} times in a row (idSiberCoder.repeatedToolCallLimit).`;
+        const answer = await choiceHandler.ask(
+            {
+                title: trip.kind === 'iterations' ? 'Iteration limit reached' : 'Repeated tool call detected',
+                detail,
+                options: [
+                    { id: 'continue', label: 'Continue', primary: true },
+                    { id: 'stop', label: 'Stop' }
+                ]
+            },
+            cancelToken
+        );
+        return answer === 'continue';
+    }
+
+    async function processOutcome(
+        outcome: PromptOutcome,
+        cancelToken?: vscode.CancellationToken,
+        onDelta?: StreamHandler
+    ) {
         let currentOutcome: PromptOutcome | null = outcome;
+        const loopGuard = new LoopGuard({
+            maxIterations: settings.maxIterations,
+            repeatLimit: settings.repeatedToolCallLimit
+        });
 
         while (currentOutcome) {
             sendSidebarMessage(currentOutcome.message);
@@ -979,6 +2057,28 @@ export async function activate(context: vscode.ExtensionContext) {
                 break;
             }
 
+            const trip = loopGuard.recordRound(toolCalls);
+            if (trip) {
+                const proceed = await confirmLoopContinuation(trip, cancelToken);
+                if (cancelToken?.isCancellationRequested) {
+                    return;
+                }
+                if (!proceed) {
+                    // Every tool call needs a result or the next request is rejected by the provider.
+                    for (const call of toolCalls) {
+                        const action = fileToolAlias[call?.function?.name ?? ''] ?? call?.function?.name ?? 'tool';
+                        const { conversationText } = buildToolOutputs(action, {
+                            success: false,
+                            error: 'Skipped: the user stopped the agent loop.'
+                        });
+                        mcp.addToolResult(action, conversationText, call?.id);
+                    }
+                    sendSidebarMessage({ role: 'assistant', content: '⏹️ Stopped by the user.' });
+                    break;
+                }
+                loopGuard.reset();
+            }
+
             for (const call of toolCalls) {
                 // Check for cancellation before each tool execution
                 if (cancelToken?.isCancellationRequested) {
@@ -993,15 +2093,12 @@ export async function activate(context: vscode.ExtensionContext) {
                 }
 
                 const args = parseToolArguments(call);
-
-                let result: FileOperationResult | TerminalOperationResult;
-                try {
-                    const params = ensureToolParameters(normalizedAction, args);
-                    result = await executeTool(normalizedAction, params);
-                } catch (error) {
-                    const friendly = error instanceof Error ? error.message : String(error);
-                    result = { success: false, error: friendly };
-                }
+                const result: FileOperationResult | TerminalOperationResult = args
+                    ? await runTool(normalizedAction, args)
+                    : {
+                          success: false,
+                          error: `The arguments of this ${normalizedAction} call are not valid JSON (the response may have been cut off); nothing was run. Send the call again with complete arguments.`
+                      };
 
                 const { conversationText } = buildToolOutputs(normalizedAction, result);
                 mcp.addToolResult(normalizedAction, conversationText, call?.id);
@@ -1015,7 +2112,7 @@ export async function activate(context: vscode.ExtensionContext) {
                     console.log('Process outcome cancelled before continuing');
                     return;
                 }
-                currentOutcome = await mcp.continueAfterTool(cancelToken);
+                currentOutcome = await mcp.continueAfterTool(cancelToken, onDelta);
             } catch (error) {
                 const friendly = error instanceof Error ? error.message : String(error);
                 sendSidebarMessage({ role: 'assistant', content: `❌ ${friendly}` });
@@ -1027,8 +2124,94 @@ export async function activate(context: vscode.ExtensionContext) {
         persistActiveSession();
     }
 
-    async function handlePrompt(prompt: string) {
+    /**
+     * Read the attached MCP resources. Unreadable ones are reported and left out rather than failing the prompt.
+     */
+    async function resolveAttachments(refs: PanelAttachmentRef[]): Promise<ResolvedAttachment[]> {
+        const resolved: ResolvedAttachment[] = [];
+        for (const ref of refs) {
+            const resource = mcpServers
+                .getStates()
+                .find((state) => state.name === ref.server)
+                ?.resources.find((entry) => entry.uri === ref.uri);
+            try {
+                const contents = await mcpServers.readResource(ref.server, ref.uri);
+                let text = contents
+                    .map((entry) => entry.text ?? `[binary ${entry.mimeType ?? 'content'}, ${entry.blob?.length ?? 0} base64 chars omitted]`)
+                    .join('\n');
+                if (text.length > MAX_ATTACHMENT_CHARS) {
+                    text = `${text.slice(0, MAX_ATTACHMENT_CHARS)}\n[Truncated - ${text.length} characters total]`;
+                }
+                resolved.push({
+                    server: ref.server,
+                    uri: ref.uri,
+                    name: resource?.title ?? resource?.name ?? ref.uri,
+                    mimeType: contents[0]?.mimeType ?? resource?.mimeType,
+                    text
+                });
+            } catch (error) {
+                const friendly = error instanceof Error ? error.message : String(error);
+                mcp.getLogger().warn(`Could not read MCP resource ${ref.uri} from ${ref.server}`, friendly);
+                vscode.window.showWarningMessage(`Attachment ${resource?.name ?? ref.uri} was skipped: ${friendly}`);
+            }
+        }
+        return resolved;
+    }
+
+    async function handleMcpPrompt(server: string, name: string, args: Record<string, string>) {
+        try {
+            const result = await mcpServers.getPrompt(server, name, args);
+            const text = result.messages
+                .map((message) => contentToText([message.content]))
+                .filter((entry) => entry.trim().length > 0)
+                .join('\n\n');
+            sidebarProvider.postComposerText(text);
+            activePanel?.postComposerText(text);
+        } catch (error) {
+            const friendly = error instanceof Error ? error.message : String(error);
+            vscode.window.showWarningMessage(`MCP prompt ${name} failed: ${friendly}`);
+        }
+    }
+
+    async function handleRestoreCheckpoint(checkpointId: string, filePath?: string) {
+        if (currentProcessController) {
+            vscode.window.showWarningMessage('Wait for the current request to finish (or stop it) before restoring a checkpoint.');
+            return;
+        }
+        const checkpoint = checkpoints.list().find((entry) => entry.id === checkpointId);
+        if (!checkpoint) {
+            return;
+        }
+        const target = filePath ?? `every file changed since "${checkpoint.label}"`;
+        const answer = await vscode.window.showWarningMessage(
+            `Restore ${target}? Changes made after this checkpoint will be overwritten (the restore itself is checkpointed, so it can be undone).`,
+            { modal: true },
+            'Restore'
+        );
+        if (answer !== 'Restore') {
+            return;
+        }
+
+        try {
+            const result = await checkpoints.restore(checkpointId, filePath);
+            if (result.failed.length) {
+                const details = result.failed.map((entry) => `${entry.path} (${entry.reason})`).join(', ');
+                vscode.window.showWarningMessage(`Restored ${result.restored.length} file(s); failed: ${details}`);
+            } else {
+                vscode.window.showInformationMessage(`Restored ${result.restored.length} file(s).`);
+            }
+        } catch (error) {
+            const friendly = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Restore failed: ${friendly}`);
+        }
+        updateSidebarState();
+        activePanel?.postState(buildPanelState());
+    }
+
+    async function handlePrompt(prompt: string, attachmentRefs: PanelAttachmentRef[] = []) {
         sidebarProvider.setLoading(true);
+        activePanel?.setLoading(true);
+        const onDelta = createStreamHandler();
         
         // Create cancellation controller for this process
         const cancellationTokenSource = new vscode.CancellationTokenSource();
@@ -1041,9 +2224,11 @@ export async function activate(context: vscode.ExtensionContext) {
         
         currentProcessController = controller;
         currentCancellationTokenSource = cancellationTokenSource;
+        checkpoints.beginGroup(prompt);
         
         try {
-            const outcome = await mcp.handlePrompt(prompt, cancellationTokenSource.token);
+            const attachments = attachmentRefs.length ? await resolveAttachments(attachmentRefs) : undefined;
+            const outcome = await mcp.handlePrompt(prompt, cancellationTokenSource.token, onDelta, attachments);
             
             // Check if cancellation was requested during the request
             if (cancellationTokenSource.token.isCancellationRequested) {
@@ -1055,7 +2240,7 @@ export async function activate(context: vscode.ExtensionContext) {
                 return;
             }
             
-            await processOutcome(outcome, cancellationTokenSource.token);
+            await processOutcome(outcome, cancellationTokenSource.token, onDelta);
         } catch (error: unknown) {
             // Check if the error is due to cancellation
             if (cancellationTokenSource.token.isCancellationRequested) {
@@ -1073,7 +2258,9 @@ export async function activate(context: vscode.ExtensionContext) {
             updateSidebarState();
             persistActiveSession();
         } finally {
+            checkpoints.endGroup();
             sidebarProvider.setLoading(false);
+            activePanel?.setLoading(false);
             if (currentProcessController === controller) {
                 currentProcessController = undefined;
             }
@@ -1170,8 +2357,8 @@ export async function activate(context: vscode.ExtensionContext) {
         }
 
         activePanel = CodexPanel.createOrShow(context, {
-            onPrompt: async (prompt: string) => {
-                await handlePrompt(prompt);
+            onPrompt: async (prompt: string, attachments?: PanelAttachmentRef[]) => {
+                await handlePrompt(prompt, attachments);
             },
             onFileTool: async (payload: FileToolPayload) => {
                 await handleFileTool(payload);
@@ -1191,6 +2378,33 @@ export async function activate(context: vscode.ExtensionContext) {
             onSaveApiKey: (providerId: string, apiKey: string | undefined) => {
                 handleSaveApiKey(providerId as ProviderId, apiKey);
             },
+            onRefreshModels: () => {
+                handleRefreshModels();
+            },
+            onCustomModel: () => {
+                handleCustomModel();
+            },
+            onChoice: (choiceId: string, optionId: string) => {
+                choiceHandler.resolve(choiceId, optionId);
+            },
+            onToggleMcpServer: (name: string, enabled: boolean) => {
+                handleToggleMcpServer(name, enabled);
+            },
+            onRestartMcpServer: (name: string) => {
+                handleRestartMcpServer(name);
+            },
+            onMcpPrompt: (server: string, name: string, args: Record<string, string>) => {
+                handleMcpPrompt(server, name, args);
+            },
+            onRestoreCheckpoint: (checkpointId: string, filePath?: string) => {
+                handleRestoreCheckpoint(checkpointId, filePath);
+            },
+            onKillBackgroundProcess: (processId: string) => {
+                void terminalManager.killProcess(processId);
+            },
+            onDismissBackgroundProcess: (processId: string) => {
+                handleDismissBackgroundProcess(processId);
+            },
             onReady: () => {
                 // Panel webview is ready, update state with a small delay
                 setTimeout(() => {
@@ -1237,13 +2451,23 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const refreshModelsDisposable = vscode.commands.registerCommand('idSiberCoder.refreshModels', async () => {
+        await handleRefreshModels();
+    });
+
+    const restartMcpServerDisposable = vscode.commands.registerCommand('idSiberCoder.restartMcpServer', async () => {
+        await handleRestartMcpServer();
+    });
+
+    const copyMcpServerConfigDisposable = vscode.commands.registerCommand('idSiberCoder.copyMcpServerConfig', async () => {
+        await handleCopyMcpServerConfig();
+    });
+
     const workspaceWatcher = vscode.workspace.onDidChangeWorkspaceFolders(() => {
         workspaceFolder = getWorkspaceFolder();
         fileManager.setWorkspaceRoot(workspaceFolder ?? '');
-        const tooling = buildTooling(fileManager, terminalManager);
-        toolRegistry = tooling.registry;
-        toolDefinitions = tooling.definitions;
-        mcp.updateTools(toolRegistry, toolDefinitions);
+        searchManager.setWorkspaceRoot(workspaceFolder ?? '');
+        refreshTooling();
         systemPrompt = buildSystemPrompt(workspaceFolder);
         sessionManager.setDefaultSystemPrompt(systemPrompt);
         mcp.updateSystemPrompt(systemPrompt);
@@ -1271,21 +2495,50 @@ export async function activate(context: vscode.ExtensionContext) {
             });
         }
 
+        if (event.affectsConfiguration('idSiberCoder.retry')) {
+            mcp.updateRetryPolicy(settings.retry, (notice) => notifyRetry(notice));
+        }
+
+        if (event.affectsConfiguration('idSiberCoder.mcpServers')) {
+            void mcpServers.applyConfig(settings.mcpServers);
+        }
+
+        if (event.affectsConfiguration('idSiberCoder.mcpServer')) {
+            void applyEmbeddedMcpServerSettings();
+        }
+
+        if (event.affectsConfiguration('idSiberCoder.modelCatalogTtlHours')) {
+            modelCatalog.setTtl(settings.modelCatalogTtlHours * HOUR_MS);
+        }
+
         persistActiveSession();
         updateSidebarState();
+
+        await refreshModelCatalog();
+        updateSidebarState();
     });
 
     context.subscriptions.push(
+        changeReviewer.register(),
         openSidebarDisposable,
         openPanelDisposable,
         sendPromptDisposable,
+        refreshModelsDisposable,
+        restartMcpServerDisposable,
+        copyMcpServerConfigDisposable,
         workspaceWatcher,
         configWatcher,
-        { dispose: () => mcp.dispose() }
+        { dispose: () => mcp.dispose() },
+        { dispose: () => terminalManager.dispose() },
+        { dispose: () => void mcpServers.dispose() },
+        { dispose: () => void embeddedMcpServer.stop() }
     );
 
     // Always update sidebar state on activation
     updateSidebarState();
+    void refreshModelCatalog().then(updateSidebarState);
+    void mcpServers.applyConfig(settings.mcpServers);
+    void applyEmbeddedMcpServerSettings();
     
     if (!workspaceFolder) {
         vscode.window.showInformationMessage('Open a workspace folder to enable IdSiberCoder file tools.');
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import type { FileChangePreview } from '../tools/FileManager';
+import type { ChoiceHandler } from './ChoiceHandler';
+
+export type ReviewDecision =
+    | { kind: 'accept' }
+    | { kind: 'reject' }
+    /** The user changed the proposal in the editor; `content` is what should be written instead. */
+    | { kind: 'edited'; content: string };
+
+const SCHEME = 'idsibercoder-review';
+
+/**
+ * Shows a proposed file change in VS Code's diff editor and asks the user to accept, reject or
+ * edit it through a `ChoiceHandler` card. Both sides of the diff are read-only virtual documents;
+ * "Edit" copies the proposal to a temporary file the user can change before accepting.
+ */
+export class ChangeReviewer implements vscode.TextDocumentContentProvider {
+    private readonly documents = new Map<string, string>();
+
+    constructor(private readonly choices: ChoiceHandler) {}
+
+    register(): vscode.Disposable {
+        return vscode.workspace.registerTextDocumentContentProvider(SCHEME, this);
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.documents.get(uri.toString()) ?? '';
+    }
+
+    async review(preview: FileChangePreview, cancelToken?: vscode.CancellationToken): Promise<ReviewDecision> {
+        const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        const target = preview.destination ?? preview.path;
+        const original = this.createDocument(id, 'original', preview.path, preview.before ?? '');
+        const proposed = this.createDocument(id, 'proposed', target, preview.after ?? '');
+        const summary = this.describe(preview);
+
+        try {
+            await vscode.commands.executeCommand('vscode.diff', original, proposed, `${summary} (IdSiberCoder)`, { preview: true });
+            const answer = await this.choices.ask(
+                {
+                    title: `Review: ${summary}`,
+                    detail: 'The change is open in a diff editor. Accept writes it; Edit lets you change the proposal first.',
+                    options: [
+                        { id: 'accept', label: 'Accept', primary: true },
+                        ...(preview.after !== undefined && preview.destination === undefined ? [{ id: 'edit', label: 'Edit' }] : []),
+                        { id: 'reject', label: 'Reject' }
+                    ]
+                },
+                cancelToken
+            );
+            if (answer === 'accept') {
+                return { kind: 'accept' };
+            }
+            if (answer === 'edit') {
+                return await this.editProposal(original, preview, target, cancelToken);
+            }
+            return { kind: 'reject' };
+        } finally {
+            await this.closeDiffs(proposed);
+            this.documents.delete(original.toString());
+            this.documents.delete(proposed.toString());
+        }
+    }
+
+    private async editProposal(
+        original: vscode.Uri,
+        preview: FileChangePreview,
+        target: string,
+        cancelToken?: vscode.CancellationToken
+    ): Promise<ReviewDecision> {
+        // A real file (unlike an untitled document) can be saved and closed without a save prompt.
+        const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'idsibercoder-review-'));
+        const draft = vscode.Uri.file(path.join(folder, path.basename(target)));
+        await fs.writeFile(draft.fsPath, preview.after ?? '', 'utf8');
+        try {
+            await vscode.commands.executeCommand('vscode.diff', original, draft, `Edit ${target} (IdSiberCoder)`);
+            const answer = await this.choices.ask(
+                {
+                    title: `Edit ${target}`,
+                    detail: 'Edit the right side of the diff, then choose Accept edited to write the result.',
+                    options: [
+                        { id: 'accept', label: 'Accept edited', primary: true },
+                        { id: 'reject', label: 'Reject' }
+                    ]
+                },
+                cancelToken
+            );
+            const document = vscode.workspace.textDocuments.find((entry) => entry.uri.toString() === draft.toString());
+            const content = document?.getText() ?? (await fs.readFile(draft.fsPath, 'utf8'));
+            if (document?.isDirty) {
+                await document.save();
+            }
+            await this.closeDiffs(draft);
+            if (answer !== 'accept') {
+                return { kind: 'reject' };
+            }
+            return content === preview.after ? { kind: 'accept' } : { kind: 'edited', content };
+        } finally {
+            await fs.rm(folder, { recursive: true, force: true });
+        }
+    }
+
+    private createDocument(id: string, side: string, filePath: string, content: string): vscode.Uri {
+        // Keeping the file name lets VS Code pick the right language for highlighting.
+        const uri = vscode.Uri.from({ scheme: SCHEME, path: `/${filePath}`, query: `${side}=${id}` });
+        this.documents.set(uri.toString(), content);
+        return uri;
+    }
+
+    private describe(preview: FileChangePreview): string {
+        if (preview.destination) {
+            return `Move ${preview.path} → ${preview.destination}`;
+        }
+        if (preview.after === undefined) {
+            return `Delete ${preview.path}`;
+        }
+        return `${preview.before === undefined ? 'Create' : 'Modify'} ${preview.path}`;
+    }
+
+    /** Close the diff tabs whose right-hand side is `modified`. */
+    private async closeDiffs(modified: vscode.Uri): Promise<void> {
+        const tabs = vscode.window.tabGroups.all
+            .flatMap((group) => group.tabs)
+            .filter((tab) => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === modified.toString());
+        if (tabs.length) {
+            await vscode.window.tabGroups.close(tabs);
+        }
+    }
+}
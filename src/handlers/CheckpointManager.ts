@@ -0,0 +1,244 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { looksBinary } from '../tools/FileManager';
+import type { SessionManager } from './SessionManager';
+
+/** The state of one file just before the first agent change in a checkpoint. */
+export interface FileSnapshot {
+    /** Workspace-relative path. */
+    path: string;
+    /** False when the agent created the file; restoring deletes it again. */
+    existed: boolean;
+    encoding?: 'utf8' | 'base64';
+    content?: string;
+    /** Why the content was not captured (the file cannot be restored). */
+    skipped?: string;
+}
+
+export interface Checkpoint {
+    id: string;
+    /** The user prompt (or tool source) whose changes this checkpoint covers. */
+    label: string;
+    createdAt: number;
+    files: FileSnapshot[];
+    restoredAt?: number;
+}
+
+export interface RestoreResult {
+    restored: string[];
+    failed: Array<{ path: string; reason: string }>;
+}
+
+const MAX_SNAPSHOT_BYTES = 2 * 1024 * 1024;
+const MAX_CHECKPOINTS_PER_SESSION = 30;
+/** Total snapshot content kept across all sessions; everything lives in one workspaceState entry. */
+const MAX_CHECKPOINT_BYTES = 20 * 1024 * 1024;
+
+/** Size of the captured file contents of a checkpoint, as stored. */
+export const checkpointBytes = (checkpoint: Checkpoint): number =>
+    checkpoint.files.reduce((total, file) => total + (file.content?.length ?? 0), 0);
+
+/**
+ * Drop the oldest checkpoints across `sessions` until their snapshots fit in `maxBytes`. The
+ * checkpoint `keepId` (the one just written) is never dropped. Returns the new checkpoint list of
+ * every session that lost checkpoints.
+ */
+export function evictOldestCheckpoints(
+    sessions: Array<{ id: string; checkpoints?: Checkpoint[] }>,
+    maxBytes: number,
+    keepId?: string
+): Map<string, Checkpoint[]> {
+    const entries = sessions.flatMap((session) =>
+        (session.checkpoints ?? []).map((checkpoint) => ({ sessionId: session.id, checkpoint, bytes: checkpointBytes(checkpoint) }))
+    );
+    let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    const dropped = new Set<Checkpoint>();
+    for (const entry of [...entries].sort((a, b) => a.checkpoint.createdAt - b.checkpoint.createdAt)) {
+        if (total <= maxBytes) {
+            break;
+        }
+        if (entry.checkpoint.id !== keepId) {
+            dropped.add(entry.checkpoint);
+            total -= entry.bytes;
+        }
+    }
+
+    const changed = new Map<string, Checkpoint[]>();
+    for (const session of sessions) {
+        const checkpoints = session.checkpoints ?? [];
+        if (checkpoints.some((checkpoint) => dropped.has(checkpoint))) {
+            changed.set(session.id, checkpoints.filter((checkpoint) => !dropped.has(checkpoint)));
+        }
+    }
+    return changed;
+}
+
+/**
+ * Records workspace files before agent tools change them, grouped into one checkpoint per user
+ * prompt and stored on the session's `SessionRecord`. Restoring a checkpoint puts every file it
+ * (or any later checkpoint) touched back to its state before that prompt.
+ */
+export class CheckpointManager {
+    private openGroup?: { sessionId: string; label: string; checkpointId?: string };
+
+    constructor(
+        private readonly sessions: SessionManager,
+        private readonly getWorkspaceRoot: () => string | undefined
+    ) {}
+
+    /** Start grouping captures under `label` (typically the prompt) until {@link endGroup}. */
+    beginGroup(label: string): void {
+        const sessionId = this.sessions.getActiveSessionId();
+        this.openGroup = sessionId ? { sessionId, label } : undefined;
+    }
+
+    endGroup(): void {
+        this.openGroup = undefined;
+    }
+
+    list(sessionId = this.sessions.getActiveSessionId()): Checkpoint[] {
+        return sessionId ? this.sessions.getCheckpoints(sessionId) : [];
+    }
+
+    /**
+     * Snapshot `paths` before a tool changes them. Files already captured in the current checkpoint
+     * keep their earlier snapshot. Outside a group a standalone checkpoint labelled `label` is made.
+     */
+    async capture(paths: string[], label: string): Promise<void> {
+        const root = this.getWorkspaceRoot();
+        const group = this.openGroup;
+        const sessionId = group?.sessionId ?? this.sessions.getActiveSessionId();
+        if (!root || !sessionId || !paths.length) {
+            return;
+        }
+
+        const checkpoints = this.sessions.getCheckpoints(sessionId);
+        let checkpoint = group?.checkpointId ? checkpoints.find((entry) => entry.id === group.checkpointId) : undefined;
+        const isNew = !checkpoint;
+        if (!checkpoint) {
+            const now = Date.now();
+            checkpoint = {
+                id: `checkpoint-${now}-${Math.random().toString(36).slice(2, 8)}`,
+                label: group?.label ?? label,
+                createdAt: now,
+                files: []
+            };
+        }
+
+        const known = new Set(checkpoint.files.map((file) => file.path));
+        const pending = [...new Set(paths.map((entry) => this.normalize(root, entry)))].filter(
+            (entry): entry is string => Boolean(entry) && !known.has(entry as string)
+        );
+        if (!pending.length) {
+            return;
+        }
+        for (const relativePath of pending) {
+            checkpoint.files.push(await this.snapshot(root, relativePath));
+        }
+
+        if (isNew) {
+            checkpoints.push(checkpoint);
+            if (group) {
+                group.checkpointId = checkpoint.id;
+            }
+        }
+        this.sessions.setCheckpoints(sessionId, checkpoints.slice(-MAX_CHECKPOINTS_PER_SESSION));
+        for (const [id, kept] of evictOldestCheckpoints(this.sessions.getSessions(), MAX_CHECKPOINT_BYTES, checkpoint.id)) {
+            this.sessions.setCheckpoints(id, kept);
+        }
+    }
+
+    /**
+     * Restore the files of `checkpointId` and of every later checkpoint to their state before it,
+     * or only `filePath` when given. The current contents are captured first as a new checkpoint,
+     * so a restore can itself be undone.
+     */
+    async restore(checkpointId: string, filePath?: string): Promise<RestoreResult> {
+        const root = this.getWorkspaceRoot();
+        const sessionId = this.sessions.getActiveSessionId();
+        const result: RestoreResult = { restored: [], failed: [] };
+        if (!root || !sessionId) {
+            return result;
+        }
+
+        const checkpoints = this.sessions.getCheckpoints(sessionId);
+        const index = checkpoints.findIndex((entry) => entry.id === checkpointId);
+        if (index === -1) {
+            throw new Error('Checkpoint not found in this session.');
+        }
+        const target = checkpoints[index];
+
+        // Oldest snapshot of each path wins: it is the state before the selected checkpoint.
+        const snapshots = new Map<string, FileSnapshot>();
+        for (const checkpoint of (filePath ? [target] : checkpoints.slice(index)).reverse()) {
+            for (const file of checkpoint.files) {
+                if (!filePath || file.path === filePath) {
+                    snapshots.set(file.path, file);
+                }
+            }
+        }
+        if (!snapshots.size) {
+            return result;
+        }
+
+        await this.capture([...snapshots.keys()], `Before restoring: ${target.label}`);
+
+        for (const snapshot of snapshots.values()) {
+            try {
+                await this.write(root, snapshot);
+                result.restored.push(snapshot.path);
+            } catch (error) {
+                result.failed.push({ path: snapshot.path, reason: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        const updated = this.sessions.getCheckpoints(sessionId).map((entry) =>
+            entry.id === checkpointId ? { ...entry, restoredAt: Date.now() } : entry
+        );
+        this.sessions.setCheckpoints(sessionId, updated);
+        return result;
+    }
+
+    private async snapshot(root: string, relativePath: string): Promise<FileSnapshot> {
+        const full = path.join(root, relativePath);
+        let stats;
+        try {
+            stats = await fs.stat(full);
+        } catch {
+            return { path: relativePath, existed: false };
+        }
+        if (!stats.isFile()) {
+            return { path: relativePath, existed: true, skipped: 'not a regular file' };
+        }
+        if (stats.size > MAX_SNAPSHOT_BYTES) {
+            return { path: relativePath, existed: true, skipped: `larger than ${MAX_SNAPSHOT_BYTES / 1024 / 1024} MB` };
+        }
+        const buffer = await fs.readFile(full);
+        return looksBinary(buffer)
+            ? { path: relativePath, existed: true, encoding: 'base64', content: buffer.toString('base64') }
+            : { path: relativePath, existed: true, encoding: 'utf8', content: buffer.toString('utf8') };
+    }
+
+    private async write(root: string, snapshot: FileSnapshot): Promise<void> {
+        if (snapshot.skipped) {
+            throw new Error(`not captured (${snapshot.skipped})`);
+        }
+        const full = path.join(root, snapshot.path);
+        if (!snapshot.existed) {
+            await fs.rm(full, { force: true });
+            return;
+        }
+        await fs.mkdir(path.dirname(full), { recursive: true });
+        await fs.writeFile(full, Buffer.from(snapshot.content ?? '', snapshot.encoding === 'base64' ? 'base64' : 'utf8'));
+    }
+
+    /** Workspace-relative forward-slash path, or undefined for paths outside the workspace. */
+    private normalize(root: string, target: string): string | undefined {
+        const full = path.resolve(root, target);
+        const relative = path.relative(root, full);
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+            return undefined;
+        }
+        return relative.split(path.sep).join('/');
+    }
+}
@@ -0,0 +1,90 @@
+import type { CancellationToken } from 'vscode';
+
+export interface ChoiceOption {
+    id: string;
+    label: string;
+    /** Rendered as the highlighted button. */
+    primary?: boolean;
+}
+
+export interface ChoiceRequest {
+    id: string;
+    title: string;
+    detail?: string;
+    options: ChoiceOption[];
+}
+
+export interface ChoicePresenter {
+    show(request: ChoiceRequest): void;
+    dismiss(choiceId: string): void;
+}
+
+interface PendingChoice {
+    request: ChoiceRequest;
+    resolve: (optionId: string | undefined) => void;
+}
+
+/**
+ * Asks the user to pick one option from a card rendered in the chat webviews and waits for
+ * the answer. Pending choices survive webview reloads through `getPending()`.
+ */
+export class ChoiceHandler {
+    private readonly pending = new Map<string, PendingChoice>();
+
+    constructor(private readonly presenter: ChoicePresenter) {}
+
+    /**
+     * Resolves with the chosen option id, or `undefined` when the request is cancelled first.
+     */
+    ask(request: Omit<ChoiceRequest, 'id'>, cancelToken?: CancellationToken): Promise<string | undefined> {
+        if (cancelToken?.isCancellationRequested) {
+            return Promise.resolve(undefined);
+        }
+
+        const choice: ChoiceRequest = {
+            ...request,
+            id: `choice-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+        };
+
+        return new Promise((resolve) => {
+            const listener = cancelToken?.onCancellationRequested(() => this.settle(choice.id, undefined));
+            this.pending.set(choice.id, {
+                request: choice,
+                resolve: (optionId) => {
+                    listener?.dispose();
+                    resolve(optionId);
+                }
+            });
+            this.presenter.show(choice);
+        });
+    }
+
+    /** Called when the webview reports the user's pick. Unknown ids are ignored. */
+    resolve(choiceId: string, optionId: string): void {
+        const entry = this.pending.get(choiceId);
+        if (!entry || !entry.request.options.some((option) => option.id === optionId)) {
+            return;
+        }
+        this.settle(choiceId, optionId);
+    }
+
+    getPending(): ChoiceRequest[] {
+        return Array.from(this.pending.values(), (entry) => entry.request);
+    }
+
+    cancelAll(): void {
+        for (const choiceId of Array.from(this.pending.keys())) {
+            this.settle(choiceId, undefined);
+        }
+    }
+
+    private settle(choiceId: string, optionId: string | undefined): void {
+        const entry = this.pending.get(choiceId);
+        if (!entry) {
+            return;
+        }
+        this.pending.delete(choiceId);
+        this.presenter.dismiss(choiceId);
+        entry.resolve(optionId);
+    }
+}
@@ -1,4 +1,15 @@
-import { ContextManager, ConversationMessage, MessageUsage } from '../context/ContextManager';
+import { ContextManager, ConversationMessage, MessageAttachment, MessageUsage } from '../context/ContextManager';
+
+/** Attachment with the resource text that is sent to the model. */
+export interface ResolvedAttachment extends MessageAttachment {
+    mimeType?: string;
+    text: string;
+}
+
+/** Separates the typed prompt from inlined resources, so the UI can show the prompt alone. */
+export const ATTACHMENT_SEPARATOR = '\n\n<mcp-resource ';
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
 
 export interface ConversationState {
     messages: ConversationMessage[];
@@ -20,16 +31,30 @@ export class ConversationHandler {
         this.initialize(systemPrompt);
     }
 
-    addUserMessage(content: string): void {
-        this.history.push({ role: 'user', content });
+    addUserMessage(content: string, attachments: ResolvedAttachment[] = []): void {
+        if (!attachments.length) {
+            this.history.push({ role: 'user', content });
+            return;
+        }
+        const blocks = attachments.map((attachment) => {
+            const mimeType = attachment.mimeType ? ` mimeType="${escapeAttribute(attachment.mimeType)}"` : '';
+            return `<mcp-resource server="${escapeAttribute(attachment.server)}" uri="${escapeAttribute(attachment.uri)}"${mimeType}>\n${attachment.text}\n</mcp-resource>`;
+        });
+        this.history.push({
+            role: 'user',
+            content: [content, ...blocks].join('\n\n'),
+            attachments: attachments.map(({ server, uri, name }) => ({ server, uri, name }))
+        });
     }
 
     addAssistantMessage(
         content: string,
         usage?: MessageUsage,
-        toolCalls?: ConversationMessage['toolCalls']
+        toolCalls?: ConversationMessage['toolCalls'],
+        reasoning?: string,
+        provider?: ConversationMessage['provider']
     ): void {
-        this.history.push({ role: 'assistant', content, usage, toolCalls });
+        this.history.push({ role: 'assistant', content, usage, toolCalls, reasoning, provider });
     }
 
     addToolResult(content: string, toolName: string, toolCallId?: string): void {
@@ -6,11 +6,12 @@ import {
     MessageUsage,
     ToolFunctionCall
 } from '../context/ContextManager';
-import { ConversationHandler } from './ConversationHandler';
+import { ConversationHandler, ResolvedAttachment } from './ConversationHandler';
 import { ToolCallHandler, ToolRegistry } from './ToolCallHandler';
 import { LoggingHandler } from './LoggingHandler';
-import { ProviderFactory, RequestHandler } from './RequestHandler';
-import type { ToolDefinition } from '../providers/types';
+import { FailoverHandler, ProviderFactory, RequestHandler } from './RequestHandler';
+import type { StreamHandler, ToolDefinition } from '../providers/types';
+import type { RetryHandler, RetryPolicy } from '../providers/retry';
 
 export interface MCPOptions {
     systemPrompt: string;
@@ -18,6 +19,9 @@ export interface MCPOptions {
     providerFactory: ProviderFactory;
     contextOptions?: ContextManagerOptions;
     toolDefinitions: ToolDefinition[];
+    retryPolicy?: RetryPolicy;
+    onRetry?: RetryHandler;
+    onFailover?: FailoverHandler;
 }
 
 export interface PromptOutcome {
@@ -55,11 +59,20 @@ export class GeneralMCPHandler {
             this.toolDefinitions
         );
         this.requestHandler.updateToolDefinitions(this.toolDefinitions);
+        if (options.retryPolicy) {
+            this.requestHandler.updateRetryPolicy(options.retryPolicy, options.onRetry);
+        }
+        this.requestHandler.updateFailoverHandler(options.onFailover);
     }
 
-    async handlePrompt(prompt: string, cancelToken?: vscode.CancellationToken): Promise<PromptOutcome> {
+    async handlePrompt(
+        prompt: string,
+        cancelToken?: vscode.CancellationToken,
+        onDelta?: StreamHandler,
+        attachments?: ResolvedAttachment[]
+    ): Promise<PromptOutcome> {
         try {
-            const result = await this.requestHandler.handle(prompt, cancelToken);
+            const result = await this.requestHandler.handle(prompt, cancelToken, onDelta, attachments);
             this.loggingHandler.info('Received response from provider');
             return {
                 message: result.message,
@@ -91,8 +104,11 @@ export class GeneralMCPHandler {
         this.conversationHandler.addToolResult(content, toolName, toolCallId);
     }
 
-    async continueAfterTool(cancelToken?: vscode.CancellationToken): Promise<PromptOutcome> {
-        const result = await this.requestHandler.continueConversation(cancelToken);
+    async continueAfterTool(
+        cancelToken?: vscode.CancellationToken,
+        onDelta?: StreamHandler
+    ): Promise<PromptOutcome> {
+        const result = await this.requestHandler.continueConversation(cancelToken, onDelta);
         this.loggingHandler.info('Provider responded after tool execution');
         return {
             message: result.message,
@@ -102,6 +118,10 @@ export class GeneralMCPHandler {
         };
     }
 
+    getLogger(): LoggingHandler {
+        return this.loggingHandler;
+    }
+
     getConversation(): ConversationMessage[] {
         return this.conversationHandler.getHistory();
     }
@@ -127,6 +147,10 @@ export class GeneralMCPHandler {
         this.contextManager.updateOptions(options);
     }
 
+    updateRetryPolicy(policy: RetryPolicy, onRetry?: RetryHandler): void {
+        this.requestHandler.updateRetryPolicy(policy, onRetry);
+    }
+
     updateTools(tools: ToolRegistry, definitions?: ToolDefinition[]): void {
         this.toolCallHandler.setTools(tools);
         if (definitions) {
@@ -0,0 +1,62 @@
+import type { ToolFunctionCall } from '../context/ContextManager';
+
+export interface LoopGuardOptions {
+    /** Tool rounds allowed before the user is asked whether to keep going. */
+    maxIterations: number;
+    /** Identical consecutive tool calls (same name and arguments) treated as a runaway loop; 0 disables the check. */
+    repeatLimit: number;
+}
+
+export type LoopGuardTrip =
+    | { kind: 'iterations'; iterations: number }
+    | { kind: 'repetition'; toolName: string; repeats: number };
+
+/**
+ * Tracks one agent run and reports when it should pause: either the iteration budget is
+ * spent or the model keeps issuing the exact same tool call.
+ */
+export class LoopGuard {
+    private iterations = 0;
+    private lastSignature: string | undefined;
+    private repeats = 0;
+
+    constructor(private readonly options: LoopGuardOptions) {}
+
+    /**
+     * Record one round of tool calls about to be executed. Returns the reason to pause, if any.
+     */
+    recordRound(toolCalls: ToolFunctionCall[]): LoopGuardTrip | undefined {
+        this.iterations += 1;
+
+        for (const call of toolCalls) {
+            const signature = LoopGuard.signatureOf(call);
+            this.repeats = signature === this.lastSignature ? this.repeats + 1 : 1;
+            this.lastSignature = signature;
+            if (this.options.repeatLimit > 0 && this.repeats >= this.options.repeatLimit) {
+                return { kind: 'repetition', toolName: call.function?.name ?? 'tool', repeats: this.repeats };
+            }
+        }
+
+        if (this.options.maxIterations > 0 && this.iterations > this.options.maxIterations) {
+            return { kind: 'iterations', iterations: this.iterations - 1 };
+        }
+        return undefined;
+    }
+
+    /** Grant a fresh budget after the user chose to continue. */
+    reset(): void {
+        this.iterations = 1;
+        this.lastSignature = undefined;
+        this.repeats = 0;
+    }
+
+    private static signatureOf(call: ToolFunctionCall): string {
+        const name = call.function?.name ?? '';
+        const rawArguments = call.function?.arguments ?? '';
+        try {
+            return `${name}:${JSON.stringify(JSON.parse(rawArguments || '{}'))}`;
+        } catch {
+            return `${name}:${rawArguments}`;
+        }
+    }
+}
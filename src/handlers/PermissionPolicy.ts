@@ -0,0 +1,164 @@
+import { compileGlobs } from '../tools/glob';
+
+export type PermissionLevel = 'allow' | 'ask' | 'deny';
+
+export interface ToolPermissionRule {
+    /** Tool name, or a `*` pattern such as `mcp__github__*`. */
+    tool: string;
+    /** Workspace path glob; the rule only applies to calls that touch matching paths. */
+    path?: string;
+    /** Command pattern (`*` wildcards, or `/regex/`); the rule only applies to matching `execute_cli` commands and `send_process_input` input. */
+    command?: string;
+    level: PermissionLevel;
+}
+
+/** What a tool call touches, as far as the rules can tell. */
+export interface ToolSubject {
+    paths: string[];
+    command?: string;
+}
+
+export interface PermissionVerdict {
+    level: PermissionLevel;
+    /** The rule that decided; undefined when no rule matched. */
+    rule?: ToolPermissionRule;
+    /** True when the user chose "allow for this session" earlier. */
+    grantedForSession?: boolean;
+}
+
+const LEVELS: PermissionLevel[] = ['allow', 'ask', 'deny'];
+
+export const toToolPermissionRules = (raw: unknown): ToolPermissionRule[] => {
+    if (!Array.isArray(raw)) {
+        return [];
+    }
+    return raw.flatMap((value): ToolPermissionRule[] => {
+        if (!value || typeof value !== 'object') {
+            return [];
+        }
+        const entry = value as Record<string, unknown>;
+        const tool = typeof entry.tool === 'string' ? entry.tool.trim() : '';
+        const level = LEVELS.find((candidate) => candidate === entry.level);
+        if (!tool || !level) {
+            return [];
+        }
+        return [
+            {
+                tool,
+                path: typeof entry.path === 'string' && entry.path.trim() ? entry.path.trim() : undefined,
+                command: typeof entry.command === 'string' && entry.command.trim() ? entry.command.trim() : undefined,
+                level
+            }
+        ];
+    });
+};
+
+const wildcard = (pattern: string) =>
+    new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+
+const commandPattern = (pattern: string): RegExp => {
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    if (regex) {
+        try {
+            return new RegExp(regex[1], regex[2]);
+        } catch {
+            // Fall through and treat the text literally.
+        }
+    }
+    return wildcard(pattern.replace(/\s+/g, ' '));
+};
+
+/** A grant covers one tool under one rule, keyed by the rule's patterns so it survives a settings reload that keeps the rule. */
+const grantKey = (tool: string, rule: ToolPermissionRule) =>
+    JSON.stringify([tool, rule.tool, rule.path ?? '', rule.command ?? '']);
+
+/** What "Allow for this session" would cover for a call that `rule` asks about, worded for the permission card. */
+export const describeSessionGrant = (tool: string, rule: ToolPermissionRule): string => {
+    const limits = [
+        rule.path ? `paths matching ${rule.path}` : '',
+        rule.command ? `commands matching ${rule.command}` : ''
+    ].filter(Boolean);
+    return `"Allow for this session" covers later ${tool} calls ${limits.length ? `on ${limits.join(' and ')}` : 'under this rule'}; calls other rules ask about still ask.`;
+};
+
+interface CompiledRule {
+    rule: ToolPermissionRule;
+    tool: RegExp;
+    path?: (relativePath: string) => boolean;
+    command?: RegExp;
+}
+
+/**
+ * Decides whether a tool call may run, must be confirmed, or is refused, from the ordered
+ * `idSiberCoder.toolPermissions` rules (first match wins; no match means allow). "Allow for this
+ * session" answers are remembered per grant scope (a chat session, or an MCP client session) and
+ * turn later `ask` verdicts from the same rule for that tool into `allow`; they never override `deny`.
+ */
+export class PermissionPolicy {
+    private rules: CompiledRule[] = [];
+    private readonly sessionGrants = new Map<string, Set<string>>();
+
+    constructor(rules: ToolPermissionRule[] = []) {
+        this.setRules(rules);
+    }
+
+    setRules(rules: ToolPermissionRule[]): void {
+        this.rules = rules.map((rule) => ({
+            rule,
+            tool: wildcard(rule.tool),
+            path: rule.path ? compileGlobs([rule.path]) : undefined,
+            command: rule.command ? commandPattern(rule.command) : undefined
+        }));
+    }
+
+    evaluate(tool: string, subject: ToolSubject, sessionId?: string): PermissionVerdict {
+        const paths = subject.paths.map((entry) => entry.replace(/\\/g, '/').replace(/^\.\//, ''));
+        const command = subject.command?.trim().replace(/\s+/g, ' ');
+
+        const match = this.rules.find(({ rule, tool: toolPattern, path, command: commandMatcher }) => {
+            if (!toolPattern.test(tool)) {
+                return false;
+            }
+            if (path) {
+                // Allow rules must cover every path a call touches; ask/deny rules apply if any path matches.
+                if (!paths.length || !(rule.level === 'allow' ? paths.every(path) : paths.some(path))) {
+                    return false;
+                }
+            }
+            if (commandMatcher && (command === undefined || !commandMatcher.test(command))) {
+                return false;
+            }
+            return true;
+        });
+
+        if (!match) {
+            return { level: 'allow' };
+        }
+        if (match.rule.level === 'ask' && sessionId && this.sessionGrants.get(sessionId)?.has(grantKey(tool, match.rule))) {
+            return { level: 'allow', rule: match.rule, grantedForSession: true };
+        }
+        return { level: match.rule.level, rule: match.rule };
+    }
+
+    /**
+     * Path globs of the `deny` rules for `tool`. Workspace walks (search, find, listings) skip them, so a
+     * broad search cannot read what the rules refuse to a direct call.
+     */
+    deniedPaths(tool: string): string[] {
+        return this.rules
+            .filter(({ rule, tool: toolPattern }) => rule.level === 'deny' && rule.path && !rule.command && toolPattern.test(tool))
+            .map(({ rule }) => rule.path as string);
+    }
+
+    /** Remember an "allow for this session" answer for `tool` under the `ask` rule that prompted it. */
+    grantForSession(sessionId: string, tool: string, rule: ToolPermissionRule): void {
+        const grants = this.sessionGrants.get(sessionId) ?? new Set<string>();
+        grants.add(grantKey(tool, rule));
+        this.sessionGrants.set(sessionId, grants);
+    }
+
+    /** Forget the session's grants, e.g. when it is deleted. */
+    clearSession(sessionId: string): void {
+        this.sessionGrants.delete(sessionId);
+    }
+}
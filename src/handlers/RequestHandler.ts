@@ -1,10 +1,32 @@
 import type { ConversationMessage, MessageUsage, ToolFunctionCall } from '../context/ContextManager';
-import type { ConversationHandler } from './ConversationHandler';
-import type { ProviderResponse, ToolDefinition, ChatProvider } from '../providers/types';
+import type { ConversationHandler, ResolvedAttachment } from './ConversationHandler';
+import type { ProviderResponse, ToolDefinition, ChatProvider, StreamHandler } from '../providers/types';
 import { LoggingHandler } from './LoggingHandler';
+import { computeRetryDelay, DEFAULT_RETRY_POLICY, RetryHandler, RetryPolicy, waitForRetry } from '../providers/retry';
 import * as vscode from 'vscode';
 
-export type ProviderFactory = () => Promise<ChatProvider>;
+/** One entry of the failover chain: the active provider first, then the configured fallbacks. */
+export interface ProviderCandidate {
+    id: string;
+    label: string;
+    model: string;
+    provider: ChatProvider;
+}
+
+export type ProviderFactory = () => Promise<ProviderCandidate[]>;
+
+export interface FailoverNotice {
+    from: string;
+    to: string;
+    reason: string;
+}
+
+export type FailoverHandler = (notice: FailoverNotice) => void;
+
+interface ResettableStream {
+    onDelta: StreamHandler;
+    reset(): void;
+}
 
 export interface PromptResult {
     message: ConversationMessage;
@@ -15,6 +37,10 @@ export interface PromptResult {
 }
 
 export class RequestHandler {
+    private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+    private onRetry?: RetryHandler;
+    private onFailover?: FailoverHandler;
+
     constructor(
         private readonly conversationHandler: ConversationHandler,
         private readonly providerFactory: ProviderFactory,
@@ -26,18 +52,34 @@ export class RequestHandler {
         this.toolDefinitions = tools;
     }
 
-    async handle(prompt: string, cancelToken?: vscode.CancellationToken): Promise<PromptResult> {
-        this.conversationHandler.addUserMessage(prompt);
+    updateRetryPolicy(policy: RetryPolicy, onRetry?: RetryHandler): void {
+        this.retryPolicy = policy;
+        this.onRetry = onRetry;
+    }
+
+    updateFailoverHandler(onFailover?: FailoverHandler): void {
+        this.onFailover = onFailover;
+    }
+
+    async handle(
+        prompt: string,
+        cancelToken?: vscode.CancellationToken,
+        onDelta?: StreamHandler,
+        attachments?: ResolvedAttachment[]
+    ): Promise<PromptResult> {
+        this.conversationHandler.addUserMessage(prompt, attachments);
         const optimized = this.conversationHandler.optimize();
 
-        const provider = await this.providerFactory();
+        const candidates = await this.providerFactory();
         this.logger.info('Dispatching prompt to provider', { tokenCount: optimized.messages.length });
 
-        const response: ProviderResponse = await provider.sendChat(optimized.messages, this.toolDefinitions, cancelToken);
+        const response = await this.dispatchWithFailover(candidates, optimized.messages, cancelToken, onDelta);
         this.conversationHandler.addAssistantMessage(
             response.message.content,
             response.usage,
-            response.toolCalls
+            response.toolCalls,
+            response.message.reasoning,
+            response.message.provider
         );
 
         return {
@@ -49,18 +91,23 @@ export class RequestHandler {
         };
     }
 
-    async continueConversation(cancelToken?: vscode.CancellationToken): Promise<PromptResult> {
+    async continueConversation(
+        cancelToken?: vscode.CancellationToken,
+        onDelta?: StreamHandler
+    ): Promise<PromptResult> {
         const optimized = this.conversationHandler.optimize();
-        const provider = await this.providerFactory();
+        const candidates = await this.providerFactory();
         this.logger.info('Continuing conversation after tool result', {
             tokenCount: optimized.messages.length
         });
 
-        const response: ProviderResponse = await provider.sendChat(optimized.messages, this.toolDefinitions, cancelToken);
+        const response = await this.dispatchWithFailover(candidates, optimized.messages, cancelToken, onDelta);
         this.conversationHandler.addAssistantMessage(
             response.message.content,
             response.usage,
-            response.toolCalls
+            response.toolCalls,
+            response.message.reasoning,
+            response.message.provider
         );
 
         return {
@@ -71,4 +118,93 @@ export class RequestHandler {
             toolCalls: response.toolCalls
         };
     }
+
+    /**
+     * Walk the failover chain: when a provider still fails after its retries, the same
+     * transcript is sent to the next candidate. The answering provider is stamped on the message.
+     */
+    private async dispatchWithFailover(
+        candidates: ProviderCandidate[],
+        messages: ConversationMessage[],
+        cancelToken?: vscode.CancellationToken,
+        onDelta?: StreamHandler
+    ): Promise<ProviderResponse> {
+        if (!candidates.length) {
+            throw new Error('No provider configured');
+        }
+
+        const stream = onDelta ? RequestHandler.resettableStream(onDelta) : undefined;
+        for (let index = 0; ; index++) {
+            const candidate = candidates[index];
+            const response = await this.dispatch(candidate.provider, messages, cancelToken, stream);
+            response.message.provider = { id: candidate.id, label: candidate.label, model: candidate.model };
+
+            const next = candidates[index + 1];
+            if (!response.error || !next || cancelToken?.isCancellationRequested) {
+                return response;
+            }
+
+            this.logger.warn(`${candidate.label} failed, falling back to ${next.label}`, {
+                status: response.error.status,
+                message: response.error.message
+            });
+            stream?.reset();
+            this.onFailover?.({ from: candidate.label, to: next.label, reason: response.error.message });
+        }
+    }
+
+    /**
+     * Send the transcript, retrying transient failures (429, 5xx, socket resets) according to
+     * the retry policy. Providers report failures as `❌` responses carrying `error`; the last
+     * one is returned unchanged once attempts run out. Cancellation is never retried. A stream that
+     * already emitted output is reset before the request is sent again.
+     */
+    private async dispatch(
+        provider: ChatProvider,
+        messages: ConversationMessage[],
+        cancelToken?: vscode.CancellationToken,
+        stream?: ResettableStream
+    ): Promise<ProviderResponse> {
+        const maxAttempts = Math.max(1, Math.floor(this.retryPolicy.maxAttempts));
+        for (let attempt = 1; ; attempt++) {
+            const response = stream && provider.streamChat
+                ? await provider.streamChat(messages, this.toolDefinitions, stream.onDelta, cancelToken)
+                : await provider.sendChat(messages, this.toolDefinitions, cancelToken);
+
+            if (!response.error || cancelToken?.isCancellationRequested) {
+                return response;
+            }
+
+            const delayMs = computeRetryDelay(attempt, { ...this.retryPolicy, maxAttempts }, response.error);
+            if (delayMs === undefined) {
+                return response;
+            }
+
+            this.logger.warn(`Provider request failed (attempt ${attempt}/${maxAttempts}), retrying in ${delayMs}ms`, {
+                status: response.error.status,
+                code: response.error.code,
+                message: response.error.message
+            });
+            stream?.reset();
+            this.onRetry?.({ attempt, maxAttempts, delayMs, reason: response.error.message });
+            await waitForRetry(delayMs, cancelToken);
+        }
+    }
+
+    /** Wrap `onDelta` so a retry can tell the view to drop the partial response, but only if one was shown. */
+    private static resettableStream(onDelta: StreamHandler): ResettableStream {
+        let emitted = false;
+        return {
+            onDelta: (delta) => {
+                emitted = true;
+                onDelta(delta);
+            },
+            reset: () => {
+                if (emitted) {
+                    emitted = false;
+                    onDelta({ reset: true });
+                }
+            }
+        };
+    }
 }
@@ -1,5 +1,6 @@
 import type { Memento } from 'vscode';
 import type { ConversationMessage } from '../context/ContextManager';
+import type { Checkpoint } from './CheckpointManager';
 
 export interface SessionRecord {
     id: string;
@@ -7,6 +8,8 @@ export interface SessionRecord {
     createdAt: number;
     updatedAt: number;
     messages: ConversationMessage[];
+    /** File snapshots taken before agent edits, oldest first. */
+    checkpoints?: Checkpoint[];
 }
 
 export interface SessionSummary {
@@ -124,6 +127,19 @@ export class SessionManager {
         this.persistSessions();
     }
 
+    getCheckpoints(sessionId: string): Checkpoint[] {
+        return [...(this.sessions.find((item) => item.id === sessionId)?.checkpoints ?? [])];
+    }
+
+    setCheckpoints(sessionId: string, checkpoints: Checkpoint[]): void {
+        const session = this.sessions.find((item) => item.id === sessionId);
+        if (!session) {
+            return;
+        }
+        session.checkpoints = checkpoints;
+        this.persistSessions();
+    }
+
     renameSession(sessionId: string, title: string): void {
         const session = this.sessions.find((item) => item.id === sessionId);
         if (!session) {
@@ -0,0 +1,230 @@
+import {
+    JSON_RPC_ERRORS,
+    JsonRpcId,
+    JsonRpcMessage,
+    JsonRpcRequest,
+    MCP_PROTOCOL_VERSION,
+    McpGetPromptResult,
+    McpImplementation,
+    McpInitializeResult,
+    McpPrompt,
+    McpResource,
+    McpResourceContents,
+    McpServerCapabilities,
+    McpTool,
+    McpToolCallResult,
+    isJsonRpcRequest,
+    isJsonRpcResponse
+} from './protocol';
+import type { McpTransport } from './transport';
+
+export interface McpClientOptions {
+    clientInfo: McpImplementation;
+    /** Per-request timeout; tool calls may override it. */
+    timeoutMs?: number;
+}
+
+interface PendingRequest {
+    method: string;
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+export class McpRequestError extends Error {
+    constructor(
+        message: string,
+        readonly code?: number,
+        readonly data?: unknown
+    ) {
+        super(message);
+        this.name = 'McpRequestError';
+    }
+}
+
+/**
+ * JSON-RPC client for a single MCP server: performs the initialize handshake, correlates
+ * responses with requests, answers server pings, and surfaces list-changed notifications.
+ */
+export class McpClient {
+    onToolsChanged?: () => void;
+    onResourcesChanged?: () => void;
+    onPromptsChanged?: () => void;
+    onNotification?: (method: string, params?: Record<string, unknown>) => void;
+    onClose?: (reason?: Error) => void;
+
+    private nextId = 1;
+    private readonly pending = new Map<JsonRpcId, PendingRequest>();
+    private initializeResult?: McpInitializeResult;
+    private closed = false;
+
+    constructor(
+        private readonly transport: McpTransport,
+        private readonly options: McpClientOptions
+    ) {
+        transport.onMessage = (message) => this.handleMessage(message);
+        transport.onClose = (reason) => this.handleClose(reason);
+    }
+
+    get capabilities(): McpServerCapabilities {
+        return this.initializeResult?.capabilities ?? {};
+    }
+
+    get serverInfo(): McpImplementation | undefined {
+        return this.initializeResult?.serverInfo;
+    }
+
+    get instructions(): string | undefined {
+        return this.initializeResult?.instructions;
+    }
+
+    async connect(): Promise<McpInitializeResult> {
+        await this.transport.start();
+        const result: McpInitializeResult = await this.request('initialize', {
+            protocolVersion: MCP_PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: this.options.clientInfo
+        });
+        this.initializeResult = result;
+        this.transport.setProtocolVersion?.(result.protocolVersion);
+        await this.notify('notifications/initialized');
+        return result;
+    }
+
+    listTools(): Promise<McpTool[]> {
+        return this.capabilities.tools ? this.listAll('tools/list', 'tools') : Promise.resolve([]);
+    }
+
+    listResources(): Promise<McpResource[]> {
+        return this.capabilities.resources ? this.listAll('resources/list', 'resources') : Promise.resolve([]);
+    }
+
+    listPrompts(): Promise<McpPrompt[]> {
+        return this.capabilities.prompts ? this.listAll('prompts/list', 'prompts') : Promise.resolve([]);
+    }
+
+    async readResource(uri: string): Promise<McpResourceContents[]> {
+        const result = await this.request('resources/read', { uri });
+        return Array.isArray(result?.contents) ? result.contents : [];
+    }
+
+    async getPrompt(name: string, args: Record<string, string>): Promise<McpGetPromptResult> {
+        const result = await this.request('prompts/get', { name, arguments: args });
+        return { description: result?.description, messages: Array.isArray(result?.messages) ? result.messages : [] };
+    }
+
+    callTool(name: string, args: Record<string, unknown>, timeoutMs?: number): Promise<McpToolCallResult> {
+        return this.request('tools/call', { name, arguments: args }, timeoutMs);
+    }
+
+    request(method: string, params: Record<string, unknown> = {}, timeoutMs?: number): Promise<any> {
+        if (this.closed) {
+            return Promise.reject(new Error('MCP connection is closed'));
+        }
+
+        const id = this.nextId++;
+        const message: JsonRpcRequest = { jsonrpc: '2.0', id, method, params };
+
+        return new Promise((resolve, reject) => {
+            const timeout = timeoutMs ?? this.options.timeoutMs ?? 60000;
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                void this.notify('notifications/cancelled', { requestId: id, reason: 'timeout' }).catch(() => undefined);
+                reject(new Error(`MCP request ${method} timed out after ${timeout}ms`));
+            }, timeout);
+
+            this.pending.set(id, { method, resolve, reject, timer });
+            this.transport.send(message).catch((error: Error) => {
+                clearTimeout(timer);
+                this.pending.delete(id);
+                reject(error);
+            });
+        });
+    }
+
+    notify(method: string, params?: Record<string, unknown>): Promise<void> {
+        return this.transport.send(params ? { jsonrpc: '2.0', method, params } : { jsonrpc: '2.0', method });
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.rejectPending(new Error('MCP connection closed'));
+        await this.transport.close();
+    }
+
+    /** Follow `nextCursor` until the server has returned every page of a list method. */
+    private async listAll<T>(method: string, key: string): Promise<T[]> {
+        const items: T[] = [];
+        let cursor: string | undefined;
+        do {
+            const page = await this.request(method, cursor ? { cursor } : {});
+            items.push(...(Array.isArray(page?.[key]) ? page[key] : []));
+            cursor = typeof page?.nextCursor === 'string' && page.nextCursor ? page.nextCursor : undefined;
+        } while (cursor);
+        return items;
+    }
+
+    private handleMessage(message: JsonRpcMessage): void {
+        if (isJsonRpcResponse(message)) {
+            const entry = message.id === null ? undefined : this.pending.get(message.id);
+            if (!entry || message.id === null) {
+                return;
+            }
+            clearTimeout(entry.timer);
+            this.pending.delete(message.id);
+            if (message.error) {
+                entry.reject(new McpRequestError(message.error.message, message.error.code, message.error.data));
+            } else {
+                entry.resolve(message.result);
+            }
+            return;
+        }
+
+        if (isJsonRpcRequest(message)) {
+            this.answerServerRequest(message);
+            return;
+        }
+
+        if (message.method === 'notifications/tools/list_changed') {
+            this.onToolsChanged?.();
+        } else if (message.method === 'notifications/resources/list_changed') {
+            this.onResourcesChanged?.();
+        } else if (message.method === 'notifications/prompts/list_changed') {
+            this.onPromptsChanged?.();
+        }
+        this.onNotification?.(message.method, message.params);
+    }
+
+    /** The client declares no capabilities, so only `ping` has a meaningful answer. */
+    private answerServerRequest(request: JsonRpcRequest): void {
+        const reply =
+            request.method === 'ping'
+                ? { jsonrpc: '2.0' as const, id: request.id, result: {} }
+                : {
+                      jsonrpc: '2.0' as const,
+                      id: request.id,
+                      error: { code: JSON_RPC_ERRORS.methodNotFound, message: `Method not supported: ${request.method}` }
+                  };
+        this.transport.send(reply).catch(() => undefined);
+    }
+
+    private handleClose(reason?: Error): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.rejectPending(reason ?? new Error('MCP connection closed'));
+        this.onClose?.(reason);
+    }
+
+    private rejectPending(error: Error): void {
+        for (const entry of this.pending.values()) {
+            clearTimeout(entry.timer);
+            entry.reject(error);
+        }
+        this.pending.clear();
+    }
+}
@@ -0,0 +1,223 @@
+import * as http from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import type { McpServerSession, McpToolServer } from './McpToolServer';
+import { JSON_RPC_ERRORS, JsonRpcMessage, JsonRpcResponse } from './protocol';
+import type { McpLogger } from './transport';
+
+export const MCP_HTTP_PATH = '/mcp';
+
+const LOOPBACK_HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const isLoopbackOrigin = (origin: string) => {
+    try {
+        const { hostname } = new URL(origin);
+        return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+    } catch {
+        return false;
+    }
+};
+
+const isMessageObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const tokensMatch = (expected: string, provided: string) => {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(provided);
+    return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * Serves an {@link McpToolServer} over Streamable HTTP on the loopback interface. Every request must
+ * carry the bearer token, browser origins other than localhost are refused (DNS-rebinding guard),
+ * and each `initialize` opens a session identified by the `Mcp-Session-Id` header.
+ */
+export class McpHttpServer {
+    private server?: http.Server;
+    private readonly sessions = new Map<string, McpServerSession>();
+
+    constructor(
+        private readonly handler: McpToolServer,
+        private readonly logger: McpLogger
+    ) {}
+
+    get port(): number | undefined {
+        const address = this.server?.address();
+        return address && typeof address === 'object' ? address.port : undefined;
+    }
+
+    get url(): string | undefined {
+        return this.port ? `http://${LOOPBACK_HOST}:${this.port}${MCP_HTTP_PATH}` : undefined;
+    }
+
+    async start(port: number, token: string): Promise<void> {
+        await this.stop();
+        const server = http.createServer((request, response) => {
+            void this.route(request, response, token).catch((error) => {
+                this.logger.error('Embedded MCP server request failed', (error as Error).message);
+                if (!response.headersSent) {
+                    response.writeHead(500).end();
+                }
+            });
+        });
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, LOOPBACK_HOST, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        this.server = server;
+        this.logger.info(`Embedded MCP server listening on ${this.url}`);
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        const sessions = [...this.sessions.values()];
+        this.sessions.clear();
+        sessions.forEach((session) => this.handler.closeSession(session));
+        if (!server) {
+            return;
+        }
+        await new Promise<void>((resolve) => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        });
+    }
+
+    private async route(request: http.IncomingMessage, response: http.ServerResponse, token: string): Promise<void> {
+        const { pathname } = new URL(request.url ?? '/', `http://${LOOPBACK_HOST}`);
+        if (pathname !== MCP_HTTP_PATH) {
+            response.writeHead(404).end();
+            return;
+        }
+
+        const origin = request.headers.origin;
+        if (origin && !isLoopbackOrigin(origin)) {
+            response.writeHead(403).end();
+            return;
+        }
+
+        const authorization = request.headers.authorization ?? '';
+        const provided = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+        if (!tokensMatch(token, provided)) {
+            response.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end();
+            return;
+        }
+
+        const sessionHeader = request.headers['mcp-session-id'];
+        const sessionId = typeof sessionHeader === 'string' ? sessionHeader : undefined;
+
+        if (request.method === 'DELETE') {
+            const session = sessionId ? this.sessions.get(sessionId) : undefined;
+            if (session) {
+                this.sessions.delete(session.id);
+                this.handler.closeSession(session);
+            }
+            response.writeHead(200).end();
+            return;
+        }
+        if (request.method !== 'POST') {
+            // No server-initiated messages, so there is no GET stream to offer.
+            response.writeHead(405, { Allow: 'POST, DELETE' }).end();
+            return;
+        }
+
+        let messages: JsonRpcMessage[];
+        let isBatch = false;
+        try {
+            const body = await this.readBody(request);
+            const parsed = JSON.parse(body);
+            isBatch = Array.isArray(parsed);
+            messages = isBatch ? parsed : [parsed];
+        } catch (error) {
+            this.writeJson(response, 400, {
+                jsonrpc: '2.0',
+                id: null,
+                error: { code: JSON_RPC_ERRORS.parseError, message: (error as Error).message }
+            });
+            return;
+        }
+        if (!messages.length || !messages.every(isMessageObject)) {
+            this.writeJson(response, 400, {
+                jsonrpc: '2.0',
+                id: null,
+                error: { code: JSON_RPC_ERRORS.invalidRequest, message: 'Expected a JSON-RPC message or a non-empty batch of messages' }
+            });
+            return;
+        }
+
+        const isInitialize = messages.some((message) => 'method' in message && message.method === 'initialize');
+        let session: McpServerSession | undefined;
+        if (isInitialize) {
+            session = { id: randomUUID(), initialized: false };
+            this.sessions.set(session.id, session);
+        } else if (!sessionId) {
+            this.writeJson(response, 400, {
+                jsonrpc: '2.0',
+                id: null,
+                error: { code: JSON_RPC_ERRORS.invalidRequest, message: 'Missing Mcp-Session-Id header' }
+            });
+            return;
+        } else {
+            session = this.sessions.get(sessionId);
+            if (!session) {
+                response.writeHead(404).end();
+                return;
+            }
+        }
+
+        // A client that gives up on the request closes the connection before the reply is written.
+        const connection = new AbortController();
+        response.on('close', () => {
+            if (!response.writableFinished) {
+                connection.abort();
+            }
+        });
+        const replies: JsonRpcResponse[] = [];
+        for (const message of messages) {
+            const reply = await this.handler.handle(message, session, connection.signal);
+            if (reply) {
+                replies.push(reply);
+            }
+        }
+        if (connection.signal.aborted) {
+            return;
+        }
+
+        const headers = { 'Mcp-Session-Id': session.id };
+        if (!replies.length) {
+            response.writeHead(202, headers).end();
+            return;
+        }
+        this.writeJson(response, 200, isBatch ? replies : replies[0], headers);
+    }
+
+    private readBody(request: http.IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+            request.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > MAX_BODY_BYTES) {
+                    reject(new Error('Request body too large'));
+                    request.destroy();
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+            request.on('error', reject);
+        });
+    }
+
+    private writeJson(
+        response: http.ServerResponse,
+        status: number,
+        payload: unknown,
+        headers: Record<string, string> = {}
+    ): void {
+        response.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(payload));
+    }
+}
@@ -0,0 +1,434 @@
+import type { ToolRegistry } from '../handlers/ToolCallHandler';
+import type { ToolDefinition } from '../providers/types';
+import { McpClient } from './McpClient';
+import { SseTransport } from './SseTransport';
+import { StdioTransport } from './StdioTransport';
+import { StreamableHttpTransport } from './StreamableHttpTransport';
+import {
+    contentToText,
+    McpGetPromptResult,
+    McpImplementation,
+    McpPrompt,
+    McpResource,
+    McpResourceContents,
+    McpTool
+} from './protocol';
+import type { McpLogger, McpTransport } from './transport';
+
+export type McpTransportType = 'stdio' | 'http' | 'sse';
+
+/** One entry of the `idSiberCoder.mcpServers` setting. */
+export interface McpServerConfig {
+    type: McpTransportType;
+    /** Executable for `stdio` servers. */
+    command?: string;
+    args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+    /** Endpoint for `http` (Streamable HTTP) and `sse` (legacy HTTP+SSE) servers. */
+    url?: string;
+    headers?: Record<string, string>;
+    /** Timeout for a single tool call in milliseconds. */
+    timeoutMs?: number;
+    disabled?: boolean;
+}
+
+const toStringRecord = (value: unknown): Record<string, string> | undefined =>
+    value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, String(entry)]))
+        : undefined;
+
+const toTransportType = (value: any): McpTransportType | undefined => {
+    const declared = typeof value.type === 'string' ? value.type.trim().toLowerCase() : undefined;
+    if (declared === 'stdio' || declared === 'sse') {
+        return declared;
+    }
+    if (declared === 'http' || declared === 'streamable-http' || declared === 'streamablehttp') {
+        return 'http';
+    }
+    if (declared) {
+        return undefined;
+    }
+    // Without an explicit type, a URL means Streamable HTTP and a command means stdio.
+    if (typeof value.url === 'string' && value.url.trim()) {
+        return 'http';
+    }
+    return typeof value.command === 'string' && value.command.trim() ? 'stdio' : undefined;
+};
+
+/**
+ * Validate the raw `idSiberCoder.mcpServers` object, dropping entries without a usable command or URL.
+ */
+export const toMcpServerConfigs = (raw: unknown): Record<string, McpServerConfig> => {
+    const configs: Record<string, McpServerConfig> = {};
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return configs;
+    }
+    for (const [name, value] of Object.entries(raw as Record<string, any>)) {
+        if (!name.trim() || !value || typeof value !== 'object') {
+            continue;
+        }
+        const type = toTransportType(value);
+        if (!type) {
+            continue;
+        }
+        const command = typeof value.command === 'string' ? value.command.trim() : '';
+        const url = typeof value.url === 'string' ? value.url.trim() : '';
+        if ((type === 'stdio' && !command) || (type !== 'stdio' && !url)) {
+            continue;
+        }
+        configs[name.trim()] = {
+            type,
+            command: command || undefined,
+            args: Array.isArray(value.args) ? value.args.map((arg: unknown) => String(arg)) : undefined,
+            env: toStringRecord(value.env),
+            cwd: typeof value.cwd === 'string' && value.cwd.trim() ? value.cwd : undefined,
+            url: url || undefined,
+            headers: toStringRecord(value.headers),
+            timeoutMs: typeof value.timeoutMs === 'number' && value.timeoutMs > 0 ? value.timeoutMs : undefined,
+            disabled: value.disabled === true ? true : undefined
+        };
+    }
+    return configs;
+};
+
+export type McpServerStatus = 'connecting' | 'connected' | 'reconnecting' | 'error' | 'disabled' | 'stopped';
+
+export interface McpServerState {
+    name: string;
+    type: McpTransportType;
+    status: McpServerStatus;
+    error?: string;
+    tools: McpTool[];
+    resources: McpResource[];
+    prompts: McpPrompt[];
+}
+
+const offlineState = (
+    name: string,
+    type: McpTransportType,
+    status: McpServerStatus,
+    error?: string
+): McpServerState => ({ name, type, status, error, tools: [], resources: [], prompts: [] });
+
+interface ManagedServer {
+    config: McpServerConfig;
+    configKey: string;
+    client?: McpClient;
+    state: McpServerState;
+    reconnectAttempts: number;
+    reconnectTimer?: NodeJS.Timeout;
+}
+
+export const MCP_TOOL_PREFIX = 'mcp__';
+
+/** Provider function names are limited to `[a-zA-Z0-9_-]{1,64}`. */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+const sanitizeName = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+export const isMcpToolName = (name: string) => name.startsWith(MCP_TOOL_PREFIX);
+
+/**
+ * Owns the connections to the MCP servers declared in settings and exposes their tools as
+ * `mcp__<server>__<tool>` entries that can be merged into the built-in tool registry.
+ * A server that drops after connecting is restarted with exponential backoff.
+ */
+export class McpServerManager {
+    onDidChange?: () => void;
+
+    private readonly servers = new Map<string, ManagedServer>();
+
+    constructor(
+        private readonly logger: McpLogger,
+        private readonly clientInfo: McpImplementation
+    ) {}
+
+    /**
+     * Start servers that are new or whose configuration changed, and stop those that were removed or disabled.
+     */
+    async applyConfig(configs: Record<string, McpServerConfig>): Promise<void> {
+        const tasks: Promise<void>[] = [];
+
+        for (const [name, server] of Array.from(this.servers.entries())) {
+            if (!configs[name]) {
+                this.servers.delete(name);
+                tasks.push(this.stopClient(server));
+            }
+        }
+
+        for (const [name, config] of Object.entries(configs)) {
+            const configKey = JSON.stringify(config);
+            const existing = this.servers.get(name);
+            if (existing && existing.configKey === configKey) {
+                continue;
+            }
+            if (existing) {
+                tasks.push(this.stopClient(existing));
+            }
+            const server: ManagedServer = {
+                config,
+                configKey,
+                state: offlineState(name, config.type, config.disabled ? 'disabled' : 'connecting'),
+                reconnectAttempts: 0
+            };
+            this.servers.set(name, server);
+            if (!config.disabled) {
+                tasks.push(this.startServer(server));
+            }
+        }
+
+        this.onDidChange?.();
+        await Promise.all(tasks);
+    }
+
+    /** Stop and start one server again, clearing any pending reconnect. */
+    async restart(name: string): Promise<void> {
+        const server = this.servers.get(name);
+        if (!server || server.config.disabled) {
+            return;
+        }
+        await this.stopClient(server);
+        server.reconnectAttempts = 0;
+        server.state = { ...server.state, status: 'connecting', error: undefined };
+        this.onDidChange?.();
+        await this.startServer(server);
+    }
+
+    getStates(): McpServerState[] {
+        return Array.from(this.servers.values(), (server) => ({
+            ...server.state,
+            tools: [...server.state.tools],
+            resources: [...server.state.resources],
+            prompts: [...server.state.prompts]
+        }));
+    }
+
+    async readResource(serverName: string, uri: string): Promise<McpResourceContents[]> {
+        return this.getConnectedClient(serverName).readResource(uri);
+    }
+
+    async getPrompt(serverName: string, promptName: string, args: Record<string, string>): Promise<McpGetPromptResult> {
+        return this.getConnectedClient(serverName).getPrompt(promptName, args);
+    }
+
+    /**
+     * Registry entries and definitions for every tool of every connected server.
+     */
+    getTooling(): { registry: ToolRegistry; definitions: ToolDefinition[] } {
+        const registry: ToolRegistry = {};
+        const definitions: ToolDefinition[] = [];
+
+        for (const server of this.servers.values()) {
+            if (server.state.status !== 'connected') {
+                continue;
+            }
+            for (const tool of server.state.tools) {
+                const toolName = this.buildToolName(server.state.name, tool.name, registry);
+                registry[toolName] = (params) => this.callTool(server, tool.name, params);
+                definitions.push({
+                    type: 'function',
+                    function: {
+                        name: toolName,
+                        description: `[MCP ${server.state.name}] ${tool.description ?? tool.title ?? tool.name}`,
+                        parameters: tool.inputSchema ?? { type: 'object', properties: {} }
+                    }
+                });
+            }
+        }
+
+        return { registry, definitions };
+    }
+
+    async dispose(): Promise<void> {
+        const servers = Array.from(this.servers.values());
+        this.servers.clear();
+        await Promise.all(servers.map((server) => this.stopClient(server)));
+    }
+
+    private createTransport(config: McpServerConfig): McpTransport {
+        switch (config.type) {
+            case 'http':
+                return new StreamableHttpTransport({ url: config.url ?? '', headers: config.headers });
+            case 'sse':
+                return new SseTransport({ url: config.url ?? '', headers: config.headers });
+            default:
+                return new StdioTransport({
+                    command: config.command ?? '',
+                    args: config.args,
+                    env: config.env,
+                    cwd: config.cwd
+                });
+        }
+    }
+
+    private async startServer(server: ManagedServer): Promise<void> {
+        const { name, type } = server.state;
+        const transport = this.createTransport(server.config);
+        transport.onLog = (line) => this.logger.info(`[MCP ${name}] ${line}`);
+
+        const client = new McpClient(transport, { clientInfo: this.clientInfo });
+        server.client = client;
+
+        client.onToolsChanged = () => {
+            void this.reloadCatalog(server, client, 'tools');
+        };
+        client.onResourcesChanged = () => {
+            void this.reloadCatalog(server, client, 'resources');
+        };
+        client.onPromptsChanged = () => {
+            void this.reloadCatalog(server, client, 'prompts');
+        };
+        let ready = false;
+        client.onClose = (reason) => {
+            // Failures during the handshake surface through connect() below.
+            if (!ready || server.client !== client) {
+                return;
+            }
+            server.client = undefined;
+            const message = reason?.message ?? 'Connection closed';
+            this.logger.warn(`MCP server ${name} disconnected`, message);
+            this.scheduleReconnect(server, message);
+        };
+
+        try {
+            const result = await client.connect();
+            const tools = await client.listTools();
+            // Resources and prompts are optional extras; a server that fails to list them still offers its tools.
+            const [resources, prompts] = await Promise.all([
+                client.listResources().catch((error: Error) => this.warnListFailure(name, 'resources', error)),
+                client.listPrompts().catch((error: Error) => this.warnListFailure(name, 'prompts', error))
+            ]);
+            if (server.client !== client) {
+                return;
+            }
+            ready = true;
+            server.reconnectAttempts = 0;
+            server.state = { name, type, status: 'connected', tools, resources, prompts };
+            this.logger.info(`MCP server ${name} connected`, {
+                server: result.serverInfo,
+                protocolVersion: result.protocolVersion,
+                tools: tools.map((tool) => tool.name),
+                resources: resources.length,
+                prompts: prompts.map((prompt) => prompt.name)
+            });
+        } catch (error) {
+            if (server.client !== client) {
+                return;
+            }
+            server.client = undefined;
+            const message = (error as Error).message;
+            this.logger.error(`MCP server ${name} failed to start`, message);
+            await client.close().catch(() => undefined);
+            if (server.reconnectAttempts > 0) {
+                // Still recovering from a crash; keep backing off instead of giving up on the first failure.
+                this.scheduleReconnect(server, message);
+                return;
+            }
+            server.state = offlineState(name, type, 'error', message);
+        }
+        this.onDidChange?.();
+    }
+
+    private scheduleReconnect(server: ManagedServer, reason: string): void {
+        const { name, type } = server.state;
+        if (this.servers.get(name) !== server || server.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+            server.state = offlineState(name, type, 'error', reason);
+            this.onDidChange?.();
+            return;
+        }
+
+        server.reconnectAttempts += 1;
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (server.reconnectAttempts - 1), RECONNECT_MAX_DELAY_MS);
+        server.state = offlineState(name, type, 'reconnecting', reason);
+        this.logger.info(
+            `MCP server ${name} reconnecting in ${delay}ms (attempt ${server.reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS})`
+        );
+        server.reconnectTimer = setTimeout(() => {
+            server.reconnectTimer = undefined;
+            void this.startServer(server);
+        }, delay);
+        this.onDidChange?.();
+    }
+
+    private async reloadCatalog(
+        server: ManagedServer,
+        client: McpClient,
+        kind: 'tools' | 'resources' | 'prompts'
+    ): Promise<void> {
+        try {
+            const entries =
+                kind === 'tools'
+                    ? await client.listTools()
+                    : kind === 'resources'
+                    ? await client.listResources()
+                    : await client.listPrompts();
+            if (server.client === client) {
+                server.state = { ...server.state, [kind]: entries };
+                this.onDidChange?.();
+            }
+        } catch (error) {
+            this.logger.warn(`MCP server ${server.state.name} ${kind} refresh failed`, (error as Error).message);
+        }
+    }
+
+    private warnListFailure(name: string, kind: string, error: Error): [] {
+        this.logger.warn(`MCP server ${name} could not list ${kind}`, error.message);
+        return [];
+    }
+
+    private getConnectedClient(serverName: string): McpClient {
+        const client = this.servers.get(serverName)?.client;
+        if (!client || this.servers.get(serverName)?.state.status !== 'connected') {
+            throw new Error(`MCP server ${serverName} is not connected`);
+        }
+        return client;
+    }
+
+    private async stopClient(server: ManagedServer): Promise<void> {
+        const client = server.client;
+        server.client = undefined;
+        if (server.reconnectTimer) {
+            clearTimeout(server.reconnectTimer);
+            server.reconnectTimer = undefined;
+        }
+        server.state = offlineState(server.state.name, server.state.type, 'stopped');
+        await client?.close().catch(() => undefined);
+    }
+
+    private async callTool(server: ManagedServer, toolName: string, params: Record<string, unknown>) {
+        const client = server.client;
+        if (!client) {
+            return { success: false, error: `MCP server ${server.state.name} is not connected` };
+        }
+        try {
+            const result = await client.callTool(toolName, params, server.config.timeoutMs);
+            const text = contentToText(result.content);
+            const structured =
+                !text && result.structuredContent !== undefined ? JSON.stringify(result.structuredContent, null, 2) : '';
+            const content = text || structured;
+            return result.isError
+                ? { success: false, error: content || 'Tool reported an error' }
+                : { success: true, content: content || '(no content)' };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    }
+
+    private buildToolName(serverName: string, toolName: string, registry: ToolRegistry): string {
+        const base = `${MCP_TOOL_PREFIX}${sanitizeName(serverName)}__${sanitizeName(toolName)}`.slice(
+            0,
+            MAX_TOOL_NAME_LENGTH
+        );
+        let candidate = base;
+        for (let suffix = 2; registry[candidate]; suffix++) {
+            const tail = `_${suffix}`;
+            candidate = `${base.slice(0, MAX_TOOL_NAME_LENGTH - tail.length)}${tail}`;
+        }
+        return candidate;
+    }
+}
@@ -0,0 +1,145 @@
+import {
+    JSON_RPC_ERRORS,
+    JsonRpcMessage,
+    JsonRpcRequest,
+    JsonRpcResponse,
+    MCP_PROTOCOL_VERSION,
+    McpImplementation,
+    McpTool,
+    McpToolCallResult,
+    SUPPORTED_PROTOCOL_VERSIONS,
+    isJsonRpcRequest
+} from './protocol';
+
+/** What the embedded server needs from the extension: the tool list and a way to run a tool. */
+export interface McpToolHost {
+    listTools(): McpTool[];
+    /** `signal` aborts when the client cancels the request, drops the connection or ends the session. */
+    callTool(
+        name: string,
+        args: Record<string, unknown>,
+        session: McpServerSession,
+        signal: AbortSignal
+    ): Promise<McpToolCallResult>;
+    /** Called once a session ends, so per-session state such as permission grants can be dropped. */
+    closeSession?(session: McpServerSession): void;
+}
+
+export interface McpServerSession {
+    id: string;
+    client?: McpImplementation;
+    protocolVersion?: string;
+    initialized: boolean;
+}
+
+const errorResponse = (id: JsonRpcRequest['id'] | null, code: number, message: string): JsonRpcResponse => ({
+    jsonrpc: '2.0',
+    id,
+    error: { code, message }
+});
+
+/**
+ * Transport-agnostic MCP server logic: answers `initialize`, `ping`, `tools/list` and `tools/call`
+ * for one session at a time. Transports feed it parsed messages and write back whatever it returns.
+ */
+export class McpToolServer {
+    /** Requests still running, per session id and then per JSON-encoded request id. */
+    private readonly inFlight = new Map<string, Map<string, AbortController>>();
+
+    constructor(
+        private readonly host: McpToolHost,
+        private readonly serverInfo: McpImplementation,
+        private readonly instructions?: string
+    ) {}
+
+    /**
+     * Returns the response for requests, or undefined for notifications and stray responses. `signal` is the
+     * transport's view of the request (e.g. the HTTP connection closing); `notifications/cancelled` aborts it too.
+     */
+    async handle(
+        message: JsonRpcMessage,
+        session: McpServerSession,
+        signal?: AbortSignal
+    ): Promise<JsonRpcResponse | undefined> {
+        if (!isJsonRpcRequest(message)) {
+            if ('method' in message && message.method === 'notifications/initialized') {
+                session.initialized = true;
+            }
+            if ('method' in message && message.method === 'notifications/cancelled') {
+                this.inFlight.get(session.id)?.get(JSON.stringify(message.params?.requestId))?.abort();
+            }
+            return undefined;
+        }
+
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        signal?.addEventListener('abort', abort, { once: true });
+        if (signal?.aborted) {
+            controller.abort();
+        }
+        const key = JSON.stringify(message.id);
+        const requests = this.inFlight.get(session.id) ?? new Map<string, AbortController>();
+        requests.set(key, controller);
+        this.inFlight.set(session.id, requests);
+        try {
+            const result = await this.dispatch(message, session, controller.signal);
+            return { jsonrpc: '2.0', id: message.id, result };
+        } catch (error) {
+            const code = (error as { code?: number }).code ?? JSON_RPC_ERRORS.internalError;
+            return errorResponse(message.id, code, (error as Error).message);
+        } finally {
+            signal?.removeEventListener('abort', abort);
+            if (requests.get(key) === controller) {
+                requests.delete(key);
+            }
+            if (!requests.size && this.inFlight.get(session.id) === requests) {
+                this.inFlight.delete(session.id);
+            }
+        }
+    }
+
+    /** End a session: abort its running requests and let the host forget it. */
+    closeSession(session: McpServerSession): void {
+        this.inFlight.get(session.id)?.forEach((controller) => controller.abort());
+        this.inFlight.delete(session.id);
+        this.host.closeSession?.(session);
+    }
+
+    private async dispatch(request: JsonRpcRequest, session: McpServerSession, signal: AbortSignal): Promise<unknown> {
+        const params = request.params ?? {};
+        switch (request.method) {
+            case 'initialize': {
+                const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+                session.protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+                    ? requested
+                    : MCP_PROTOCOL_VERSION;
+                session.client = params.clientInfo as McpImplementation | undefined;
+                return {
+                    protocolVersion: session.protocolVersion,
+                    capabilities: { tools: { listChanged: false } },
+                    serverInfo: this.serverInfo,
+                    ...(this.instructions ? { instructions: this.instructions } : {})
+                };
+            }
+            case 'ping':
+                return {};
+            case 'tools/list':
+                return { tools: this.host.listTools() };
+            case 'tools/call': {
+                const name = typeof params.name === 'string' ? params.name : '';
+                if (!this.host.listTools().some((tool) => tool.name === name)) {
+                    throw Object.assign(new Error(`Unknown tool: ${name}`), { code: JSON_RPC_ERRORS.invalidParams });
+                }
+                const args =
+                    params.arguments && typeof params.arguments === 'object'
+                        ? (params.arguments as Record<string, unknown>)
+                        : {};
+                return this.host.callTool(name, args, session, signal);
+            }
+            default:
+                throw Object.assign(new Error(`Method not found: ${request.method}`), {
+                    code: JSON_RPC_ERRORS.methodNotFound
+                });
+        }
+    }
+}
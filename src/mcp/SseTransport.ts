@@ -0,0 +1,123 @@
+import axios from 'axios';
+import { readServerSentEvents } from '../providers/streaming';
+import type { JsonRpcMessage } from './protocol';
+import { McpTransport, describeTransportError, parseJsonRpcPayload, readStreamText } from './transport';
+import type { HttpTransportOptions } from './StreamableHttpTransport';
+
+const ENDPOINT_TIMEOUT_MS = 15000;
+
+/**
+ * Legacy MCP HTTP+SSE transport (protocol 2024-11-05): a long-lived GET stream first announces the
+ * POST endpoint in an `endpoint` event and then carries every server message as a `message` event.
+ */
+export class SseTransport implements McpTransport {
+    onMessage?: (message: JsonRpcMessage) => void;
+    onClose?: (reason?: Error) => void;
+    onLog?: (line: string) => void;
+
+    private endpoint?: string;
+    private readonly controller = new AbortController();
+    private closed = false;
+
+    constructor(private readonly options: HttpTransportOptions) {}
+
+    start(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            let settled = false;
+            const settle = (error?: Error) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                clearTimeout(timer);
+                if (error) {
+                    this.controller.abort();
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            };
+            const timer = setTimeout(
+                () => settle(new Error(`No endpoint event received within ${ENDPOINT_TIMEOUT_MS}ms`)),
+                ENDPOINT_TIMEOUT_MS
+            );
+
+            void (async () => {
+                try {
+                    const response = await axios.get(this.options.url, {
+                        headers: { ...(this.options.headers ?? {}), Accept: 'text/event-stream' },
+                        responseType: 'stream',
+                        signal: this.controller.signal,
+                        validateStatus: () => true
+                    });
+                    if (response.status !== 200) {
+                        const body = await readStreamText(response.data).catch(() => '');
+                        settle(new Error(`HTTP ${response.status}${body ? `: ${body.slice(0, 300)}` : ''}`));
+                        return;
+                    }
+
+                    for await (const event of readServerSentEvents(response.data)) {
+                        if (event.event === 'endpoint') {
+                            this.endpoint = new URL(event.data.trim(), this.options.url).toString();
+                            settle();
+                            continue;
+                        }
+                        if (event.event && event.event !== 'message') {
+                            continue;
+                        }
+                        try {
+                            parseJsonRpcPayload(event.data).forEach((entry) => this.onMessage?.(entry));
+                        } catch {
+                            this.onLog?.(`ignored malformed event: ${event.data.slice(0, 200)}`);
+                        }
+                    }
+                    this.handleStreamEnd(new Error('MCP event stream ended'), settle);
+                } catch (error) {
+                    this.handleStreamEnd(new Error(`MCP event stream lost: ${describeTransportError(error)}`), settle);
+                }
+            })();
+        });
+    }
+
+    async send(message: JsonRpcMessage): Promise<void> {
+        if (this.closed || !this.endpoint) {
+            throw new Error('MCP connection is closed');
+        }
+        let response;
+        try {
+            response = await axios.post(this.endpoint, message, {
+                headers: { ...(this.options.headers ?? {}), 'Content-Type': 'application/json' },
+                signal: this.controller.signal,
+                responseType: 'text',
+                validateStatus: () => true
+            });
+        } catch (error) {
+            throw this.fail(new Error(`MCP server unreachable: ${describeTransportError(error)}`));
+        }
+        if (response.status >= 400) {
+            throw new Error(`HTTP ${response.status}${response.data ? `: ${String(response.data).slice(0, 300)}` : ''}`);
+        }
+    }
+
+    async close(): Promise<void> {
+        this.closed = true;
+        this.controller.abort();
+    }
+
+    private handleStreamEnd(reason: Error, settle: (error?: Error) => void): void {
+        if (!this.endpoint) {
+            settle(reason);
+            return;
+        }
+        this.fail(reason);
+    }
+
+    private fail(reason: Error): Error {
+        if (!this.closed) {
+            this.closed = true;
+            this.controller.abort();
+            this.onClose?.(reason);
+        }
+        return reason;
+    }
+}
@@ -0,0 +1,127 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import type { JsonRpcMessage } from './protocol';
+import type { McpTransport } from './transport';
+
+export interface StdioTransportOptions {
+    command: string;
+    args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+}
+
+/**
+ * Runs an MCP server as a child process and exchanges newline-delimited JSON-RPC over its
+ * stdin/stdout. Anything the server writes to stderr is forwarded to `onLog`.
+ */
+export class StdioTransport implements McpTransport {
+    onMessage?: (message: JsonRpcMessage) => void;
+    onClose?: (reason?: Error) => void;
+    onLog?: (line: string) => void;
+
+    private child?: ChildProcessWithoutNullStreams;
+    private closing = false;
+
+    constructor(private readonly options: StdioTransportOptions) {}
+
+    start(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(this.options.command, this.options.args ?? [], {
+                cwd: this.options.cwd,
+                env: { ...process.env, ...(this.options.env ?? {}) },
+                stdio: 'pipe',
+                // npx/uvx are .cmd shims on Windows and cannot be spawned directly.
+                shell: process.platform === 'win32',
+                windowsHide: true
+            });
+            this.child = child;
+
+            let stdoutBuffer = '';
+            child.stdout.setEncoding('utf8');
+            child.stdout.on('data', (chunk: string) => {
+                stdoutBuffer += chunk;
+                let newlineIndex = stdoutBuffer.indexOf('\n');
+                while (newlineIndex >= 0) {
+                    const line = stdoutBuffer.slice(0, newlineIndex).trim();
+                    stdoutBuffer = stdoutBuffer.slice(newlineIndex + 1);
+                    if (line) {
+                        this.dispatch(line);
+                    }
+                    newlineIndex = stdoutBuffer.indexOf('\n');
+                }
+            });
+
+            let stderrBuffer = '';
+            child.stderr.setEncoding('utf8');
+            child.stderr.on('data', (chunk: string) => {
+                stderrBuffer += chunk;
+                const lines = stderrBuffer.split('\n');
+                stderrBuffer = lines.pop() ?? '';
+                lines.filter((line) => line.trim()).forEach((line) => this.onLog?.(line));
+            });
+
+            // A server that dies mid-write fails the write with EPIPE; treat it as a lost connection so reconnecting takes over.
+            child.stdin.on('error', (error) => {
+                if (this.closing || this.child !== child) {
+                    return;
+                }
+                this.onClose?.(error);
+                child.kill();
+            });
+
+            child.once('spawn', () => resolve());
+            child.once('error', (error) => {
+                if (!this.child?.pid) {
+                    reject(error);
+                    return;
+                }
+                this.onClose?.(error);
+            });
+            child.once('exit', (code, signal) => {
+                this.child = undefined;
+                if (!this.closing) {
+                    this.onClose?.(new Error(`Server process exited (${signal ?? `code ${code}`})`));
+                }
+            });
+        });
+    }
+
+    send(message: JsonRpcMessage): Promise<void> {
+        const child = this.child;
+        if (!child || !child.stdin.writable) {
+            return Promise.reject(new Error('MCP server process is not running'));
+        }
+        return new Promise((resolve, reject) => {
+            child.stdin.write(`${JSON.stringify(message)}\n`, (error) => (error ? reject(error) : resolve()));
+        });
+    }
+
+    async close(): Promise<void> {
+        const child = this.child;
+        this.closing = true;
+        if (!child) {
+            return;
+        }
+        await new Promise<void>((resolve) => {
+            const timer = setTimeout(() => {
+                child.kill('SIGKILL');
+                resolve();
+            }, 2000);
+            child.once('exit', () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            child.stdin.end();
+            child.kill('SIGTERM');
+        });
+        this.child = undefined;
+    }
+
+    private dispatch(line: string): void {
+        try {
+            this.onMessage?.(JSON.parse(line));
+        } catch {
+            // Servers sometimes print banners to stdout; they are not protocol messages.
+            this.onLog?.(line);
+        }
+    }
+}
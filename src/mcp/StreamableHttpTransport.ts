@@ -0,0 +1,159 @@
+import axios, { AxiosResponse } from 'axios';
+import { readServerSentEvents } from '../providers/streaming';
+import type { JsonRpcMessage } from './protocol';
+import { McpTransport, describeTransportError, parseJsonRpcPayload, readStreamText } from './transport';
+
+export interface HttpTransportOptions {
+    url: string;
+    headers?: Record<string, string>;
+}
+
+const SESSION_HEADER = 'mcp-session-id';
+
+/**
+ * MCP Streamable HTTP transport: every client message is POSTed to a single endpoint and the
+ * server answers with either a JSON body or an SSE stream. Server-initiated messages arrive on an
+ * optional GET stream. A failed socket or an expired session is reported through `onClose`.
+ */
+export class StreamableHttpTransport implements McpTransport {
+    onMessage?: (message: JsonRpcMessage) => void;
+    onClose?: (reason?: Error) => void;
+    onLog?: (line: string) => void;
+
+    private sessionId?: string;
+    private protocolVersion?: string;
+    private readonly controller = new AbortController();
+    private closed = false;
+
+    constructor(private readonly options: HttpTransportOptions) {}
+
+    async start(): Promise<void> {
+        // Nothing to open up front; the session starts with the initialize POST.
+    }
+
+    setProtocolVersion(version: string): void {
+        this.protocolVersion = version;
+    }
+
+    async send(message: JsonRpcMessage): Promise<void> {
+        if (this.closed) {
+            throw new Error('MCP connection is closed');
+        }
+
+        let response: AxiosResponse;
+        try {
+            response = await axios.post(this.options.url, message, {
+                headers: this.buildHeaders({
+                    Accept: 'application/json, text/event-stream',
+                    'Content-Type': 'application/json'
+                }),
+                responseType: 'stream',
+                signal: this.controller.signal,
+                validateStatus: () => true
+            });
+        } catch (error) {
+            throw this.fail(new Error(`MCP server unreachable: ${describeTransportError(error)}`));
+        }
+
+        const sessionId = response.headers[SESSION_HEADER];
+        if (typeof sessionId === 'string' && sessionId) {
+            this.sessionId = sessionId;
+        }
+
+        if (response.status === 404 && this.sessionId) {
+            response.data?.destroy?.();
+            throw this.fail(new Error('MCP session expired'));
+        }
+        if (response.status >= 400) {
+            const body = await readStreamText(response.data).catch(() => '');
+            throw new Error(`HTTP ${response.status}${body ? `: ${body.slice(0, 300)}` : ''}`);
+        }
+        if (response.status === 202 || !('id' in message) || 'result' in message || 'error' in message) {
+            response.data?.resume?.();
+            if ('method' in message && message.method === 'notifications/initialized') {
+                void this.openEventStream();
+            }
+            return;
+        }
+
+        const contentType = String(response.headers['content-type'] ?? '');
+        if (contentType.includes('text/event-stream')) {
+            // Responses to this request (and any interleaved server requests) arrive on the stream.
+            void this.consumeEventStream(response.data, false);
+            return;
+        }
+        parseJsonRpcPayload(await readStreamText(response.data)).forEach((entry) => this.onMessage?.(entry));
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.controller.abort();
+        if (this.sessionId) {
+            await axios
+                .delete(this.options.url, { headers: this.buildHeaders({}), timeout: 2000, validateStatus: () => true })
+                .catch(() => undefined);
+        }
+    }
+
+    /** Listen for server-initiated messages; servers without one answer 405. */
+    private async openEventStream(): Promise<void> {
+        try {
+            const response = await axios.get(this.options.url, {
+                headers: this.buildHeaders({ Accept: 'text/event-stream' }),
+                responseType: 'stream',
+                signal: this.controller.signal,
+                validateStatus: () => true
+            });
+            if (response.status !== 200) {
+                response.data?.resume?.();
+                return;
+            }
+            await this.consumeEventStream(response.data, true);
+        } catch (error) {
+            if (!this.closed) {
+                this.onLog?.(`event stream unavailable: ${describeTransportError(error)}`);
+            }
+        }
+    }
+
+    private async consumeEventStream(stream: AsyncIterable<Buffer | string>, standalone: boolean): Promise<void> {
+        try {
+            for await (const event of readServerSentEvents(stream)) {
+                if (event.event && event.event !== 'message') {
+                    continue;
+                }
+                try {
+                    parseJsonRpcPayload(event.data).forEach((entry) => this.onMessage?.(entry));
+                } catch {
+                    this.onLog?.(`ignored malformed event: ${event.data.slice(0, 200)}`);
+                }
+            }
+        } catch (error) {
+            // A broken long-lived stream means the server went away.
+            if (standalone && !this.closed) {
+                this.fail(new Error(`MCP event stream lost: ${describeTransportError(error)}`));
+            }
+        }
+    }
+
+    private buildHeaders(extra: Record<string, string>): Record<string, string> {
+        return {
+            ...(this.options.headers ?? {}),
+            ...extra,
+            ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+            ...(this.protocolVersion ? { 'MCP-Protocol-Version': this.protocolVersion } : {})
+        };
+    }
+
+    private fail(reason: Error): Error {
+        if (!this.closed) {
+            this.closed = true;
+            this.controller.abort();
+            this.onClose?.(reason);
+        }
+        return reason;
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * Minimal Model Context Protocol / JSON-RPC 2.0 shapes used by the client and the embedded server.
+ * Only the fields IdSiberCoder reads or writes are modelled.
+ */
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export type JsonRpcId = number | string;
+
+export interface JsonRpcRequest {
+    jsonrpc: '2.0';
+    id: JsonRpcId;
+    method: string;
+    params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+    jsonrpc: '2.0';
+    method: string;
+    params?: Record<string, unknown>;
+}
+
+export interface JsonRpcError {
+    code: number;
+    message: string;
+    data?: unknown;
+}
+
+export interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: JsonRpcId | null;
+    result?: any;
+    error?: JsonRpcError;
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+export const JSON_RPC_ERRORS = {
+    parseError: -32700,
+    invalidRequest: -32600,
+    methodNotFound: -32601,
+    invalidParams: -32602,
+    internalError: -32603
+} as const;
+
+export const isJsonRpcResponse = (message: JsonRpcMessage): message is JsonRpcResponse =>
+    'id' in message && !('method' in message);
+
+export const isJsonRpcRequest = (message: JsonRpcMessage): message is JsonRpcRequest =>
+    'id' in message && 'method' in message;
+
+export interface McpImplementation {
+    name: string;
+    version: string;
+}
+
+export interface McpServerCapabilities {
+    tools?: { listChanged?: boolean };
+    resources?: { subscribe?: boolean; listChanged?: boolean };
+    prompts?: { listChanged?: boolean };
+    logging?: Record<string, unknown>;
+}
+
+export interface McpInitializeResult {
+    protocolVersion: string;
+    capabilities: McpServerCapabilities;
+    serverInfo?: McpImplementation;
+    instructions?: string;
+}
+
+export interface McpTool {
+    name: string;
+    title?: string;
+    description?: string;
+    inputSchema?: Record<string, unknown>;
+}
+
+export type McpContent =
+    | { type: 'text'; text: string }
+    | { type: 'image'; data: string; mimeType: string }
+    | { type: 'audio'; data: string; mimeType: string }
+    | { type: 'resource'; resource: { uri: string; mimeType?: string; text?: string; blob?: string } }
+    | { type: 'resource_link'; uri: string; name?: string; mimeType?: string };
+
+export interface McpToolCallResult {
+    content?: McpContent[];
+    structuredContent?: unknown;
+    isError?: boolean;
+}
+
+export interface McpResource {
+    uri: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface McpResourceContents {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+}
+
+export interface McpPromptArgument {
+    name: string;
+    description?: string;
+    required?: boolean;
+}
+
+export interface McpPrompt {
+    name: string;
+    title?: string;
+    description?: string;
+    arguments?: McpPromptArgument[];
+}
+
+export interface McpPromptMessage {
+    role: 'user' | 'assistant';
+    content: McpContent;
+}
+
+export interface McpGetPromptResult {
+    description?: string;
+    messages: McpPromptMessage[];
+}
+
+/** Flatten MCP content blocks into plain text for the conversation transcript. */
+export const contentToText = (content: McpContent[] = []): string =>
+    content
+        .map((block) => {
+            switch (block.type) {
+                case 'text':
+                    return block.text;
+                case 'resource':
+                    return block.resource.text ?? `[resource ${block.resource.uri}${block.resource.mimeType ? ` (${block.resource.mimeType})` : ''}]`;
+                case 'resource_link':
+                    return `[resource ${block.uri}]`;
+                case 'image':
+                case 'audio':
+                    return `[${block.type} ${block.mimeType}, ${block.data.length} base64 chars]`;
+                default:
+                    return '';
+            }
+        })
+        .filter((text) => text.length > 0)
+        .join('\n');
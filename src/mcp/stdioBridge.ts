@@ -0,0 +1,95 @@
+/**
+ * Stdio entry point for external MCP clients that can only launch servers as processes.
+ * It relays newline-delimited JSON-RPC from stdin to the extension's embedded HTTP server
+ * (`IDSIBERCODER_MCP_URL`, authenticated with `IDSIBERCODER_MCP_TOKEN`) and writes replies to stdout.
+ * Bundled separately from the extension, so it must not import `vscode`.
+ */
+import * as http from 'http';
+import * as readline from 'readline';
+
+const url = process.env.IDSIBERCODER_MCP_URL;
+const token = process.env.IDSIBERCODER_MCP_TOKEN ?? '';
+
+let sessionId: string | undefined;
+
+const post = (method: 'POST' | 'DELETE', body?: string): Promise<{ status: number; body: string }> =>
+    new Promise((resolve, reject) => {
+        const request = http.request(
+            url as string,
+            {
+                method,
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                    Accept: 'application/json, text/event-stream',
+                    ...(body ? { 'Content-Type': 'application/json' } : {}),
+                    ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {})
+                }
+            },
+            (response) => {
+                const header = response.headers['mcp-session-id'];
+                if (typeof header === 'string' && header) {
+                    sessionId = header;
+                }
+                const chunks: Buffer[] = [];
+                response.on('data', (chunk: Buffer) => chunks.push(chunk));
+                response.on('end', () =>
+                    resolve({ status: response.statusCode ?? 0, body: Buffer.concat(chunks).toString('utf8') })
+                );
+                response.on('error', reject);
+            }
+        );
+        request.on('error', reject);
+        request.end(body);
+    });
+
+const write = (message: unknown) => process.stdout.write(`${JSON.stringify(message)}\n`);
+
+const relay = async (line: string) => {
+    let message: { id?: string | number; method?: string };
+    try {
+        message = JSON.parse(line);
+    } catch {
+        write({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+        return;
+    }
+
+    try {
+        const response = await post('POST', line);
+        if (response.status === 202) {
+            return;
+        }
+        if (response.status >= 400) {
+            throw new Error(
+                response.status === 401
+                    ? 'IdSiberCoder rejected the token; copy a fresh configuration from VS Code.'
+                    : `IdSiberCoder returned HTTP ${response.status}`
+            );
+        }
+        const parsed = JSON.parse(response.body);
+        (Array.isArray(parsed) ? parsed : [parsed]).forEach(write);
+    } catch (error) {
+        if (message.id !== undefined && message.method) {
+            write({ jsonrpc: '2.0', id: message.id, error: { code: -32603, message: (error as Error).message } });
+        }
+        process.stderr.write(`${(error as Error).message}\n`);
+    }
+};
+
+if (!url) {
+    process.stderr.write('IDSIBERCODER_MCP_URL is not set. Enable idSiberCoder.mcpServer.enabled in VS Code.\n');
+    process.exit(1);
+}
+
+// Relay one message at a time so replies keep the order the client sent them in.
+let queue = Promise.resolve();
+const input = readline.createInterface({ input: process.stdin });
+input.on('line', (line) => {
+    if (line.trim()) {
+        queue = queue.then(() => relay(line));
+    }
+});
+input.on('close', () => {
+    void queue
+        .then(() => (sessionId ? post('DELETE').catch(() => undefined) : undefined))
+        .finally(() => process.exit(0));
+});
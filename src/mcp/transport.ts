@@ -0,0 +1,53 @@
+import type { JsonRpcMessage } from './protocol';
+
+/**
+ * A bidirectional JSON-RPC channel to one MCP server. Transports deliver every inbound
+ * message through `onMessage` and report an unexpected end of the connection through `onClose`.
+ */
+export interface McpTransport {
+    onMessage?: (message: JsonRpcMessage) => void;
+    onClose?: (reason?: Error) => void;
+    onLog?: (line: string) => void;
+
+    start(): Promise<void>;
+    send(message: JsonRpcMessage): Promise<void>;
+    close(): Promise<void>;
+    /** Called once the initialize handshake has agreed on a protocol version. */
+    setProtocolVersion?(version: string): void;
+}
+
+export interface McpLogger {
+    info(message: string, data?: unknown): void;
+    warn(message: string, data?: unknown): void;
+    error(message: string, data?: unknown): void;
+}
+
+/** Short reason for a failed HTTP exchange: the status line if the server answered, otherwise the socket error. */
+export const describeTransportError = (error: unknown): string => {
+    const anyError = error as { response?: { status?: number; statusText?: string }; code?: string; message?: string };
+    if (anyError?.response?.status) {
+        return `HTTP ${anyError.response.status}${anyError.response.statusText ? ` ${anyError.response.statusText}` : ''}`;
+    }
+    return anyError?.code ?? anyError?.message ?? String(error);
+};
+
+export const readStreamText = async (stream: AsyncIterable<Buffer | string>): Promise<string> => {
+    const decoder = new TextDecoder();
+    let text = '';
+    for await (const chunk of stream) {
+        text += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    }
+    return text + decoder.decode();
+};
+
+/**
+ * Parse a JSON-RPC payload received over HTTP. Servers may answer with a single message or a batch.
+ */
+export const parseJsonRpcPayload = (payload: string): JsonRpcMessage[] => {
+    const trimmed = payload.trim();
+    if (!trimmed) {
+        return [];
+    }
+    const parsed = JSON.parse(trimmed);
+    return Array.isArray(parsed) ? parsed : [parsed];
+};
@@ -1,6 +1,12 @@
 import * as vscode from 'vscode';
 export interface PromptHandler {
-    (prompt: string): void;
+    (prompt: string, attachments?: PanelAttachmentRef[]): void;
+}
+
+/** An MCP resource the user attached in the composer. */
+export interface PanelAttachmentRef {
+    server: string;
+    uri: string;
 }
 
 export interface FileToolHandler {
@@ -15,6 +21,15 @@ export interface PanelCallbacks {
     onSwitchSession: (sessionId: string) => void;
     onModelSelect: (selectionId: string) => void;
     onSaveApiKey: (providerId: string, apiKey: string | undefined) => void;
+    onRefreshModels: () => void;
+    onCustomModel: () => void;
+    onChoice: (choiceId: string, optionId: string) => void;
+    onToggleMcpServer: (name: string, enabled: boolean) => void;
+    onRestartMcpServer: (name: string) => void;
+    onMcpPrompt: (server: string, name: string, args: Record<string, string>) => void;
+    onRestoreCheckpoint: (checkpointId: string, path?: string) => void;
+    onKillBackgroundProcess: (processId: string) => void;
+    onDismissBackgroundProcess: (processId: string) => void;
     onReady?: () => void;
     onOpenPanel?: () => void;
     onStopProcess?: () => void;
@@ -29,6 +44,29 @@ export interface PanelMessage {
     summary?: string;
     success?: boolean;
     tokens?: number;
+    /** Provider and model that answered, shown on assistant messages. */
+    provider?: string;
+    /** Names of MCP resources attached to a user message. */
+    attachments?: string[];
+}
+
+export interface PanelStreamDelta {
+    reset?: boolean;
+    content?: string;
+    toolName?: string;
+}
+
+export interface PanelRetryNotice {
+    attempt: number;
+    maxAttempts: number;
+    delayMs: number;
+    reason: string;
+}
+
+export interface PanelFailoverNotice {
+    from: string;
+    to: string;
+    reason: string;
 }
 
 export interface PanelState {
@@ -41,6 +79,64 @@ export interface PanelState {
     activeModelOptionId?: string;
     isProcessing?: boolean;
     totalTokens?: number;
+    pendingChoices?: PanelChoice[];
+    mcpServers?: PanelMcpServer[];
+    mcpResources?: PanelMcpResource[];
+    mcpPrompts?: PanelMcpPrompt[];
+    checkpoints?: PanelCheckpoint[];
+    backgroundProcesses?: PanelBackgroundProcess[];
+}
+
+export interface PanelBackgroundProcess {
+    id: string;
+    command: string;
+    status: 'running' | 'exited' | 'killed';
+    startedAt: number;
+    endedAt?: number;
+    exitCode?: number;
+    signal?: string;
+    /** In state: the newest buffered output. In `backgroundProcess` updates: only the new chunk. */
+    output: string;
+}
+
+export interface PanelCheckpoint {
+    id: string;
+    label: string;
+    createdAt: number;
+    restoredAt?: number;
+    files: Array<{ path: string; existed: boolean; restorable: boolean }>;
+}
+
+export interface PanelMcpResource {
+    server: string;
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface PanelMcpPrompt {
+    server: string;
+    name: string;
+    title?: string;
+    description?: string;
+    arguments: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface PanelMcpServer {
+    name: string;
+    type: string;
+    status: string;
+    error?: string;
+    toolCount: number;
+    enabled: boolean;
+}
+
+export interface PanelChoice {
+    id: string;
+    title: string;
+    detail?: string;
+    options: Array<{ id: string; label: string; primary?: boolean }>;
 }
 
 export interface PanelSession {
@@ -106,7 +202,7 @@ export class CodexPanel implements vscode.Disposable {
 
         this.panel.webview.onDidReceiveMessage((message) => {
             if (message?.type === 'prompt') {
-                callbacks.onPrompt(message.prompt);
+                callbacks.onPrompt(message.prompt, Array.isArray(message.attachments) ? message.attachments : undefined);
             }
             if (message?.type === 'fileTool') {
                 callbacks.onFileTool(message.payload);
@@ -123,6 +219,48 @@ export class CodexPanel implements vscode.Disposable {
             if (message?.type === 'model:select' && typeof message.selectionId === 'string') {
                 callbacks.onModelSelect(message.selectionId);
             }
+            if (message?.type === 'models:refresh') {
+                callbacks.onRefreshModels();
+            }
+            if (message?.type === 'model:custom') {
+                callbacks.onCustomModel();
+            }
+            if (
+                message?.type === 'choice:resolve' &&
+                typeof message.choiceId === 'string' &&
+                typeof message.optionId === 'string'
+            ) {
+                callbacks.onChoice(message.choiceId, message.optionId);
+            }
+            if (
+                message?.type === 'mcp:toggle' &&
+                typeof message.name === 'string' &&
+                typeof message.enabled === 'boolean'
+            ) {
+                callbacks.onToggleMcpServer(message.name, message.enabled);
+            }
+            if (message?.type === 'mcp:restart' && typeof message.name === 'string') {
+                callbacks.onRestartMcpServer(message.name);
+            }
+            if (
+                message?.type === 'mcp:prompt' &&
+                typeof message.server === 'string' &&
+                typeof message.name === 'string'
+            ) {
+                callbacks.onMcpPrompt(message.server, message.name, message.arguments ?? {});
+            }
+            if (message?.type === 'backgroundProcess:kill' && typeof message.processId === 'string') {
+                callbacks.onKillBackgroundProcess(message.processId);
+            }
+            if (message?.type === 'backgroundProcess:dismiss' && typeof message.processId === 'string') {
+                callbacks.onDismissBackgroundProcess(message.processId);
+            }
+            if (message?.type === 'checkpoint:restore' && typeof message.checkpointId === 'string') {
+                callbacks.onRestoreCheckpoint(
+                    message.checkpointId,
+                    typeof message.path === 'string' ? message.path : undefined
+                );
+            }
             if (
                 message?.type === 'provider:apikey:set' &&
                 typeof message.providerId === 'string' &&
@@ -176,10 +314,38 @@ export class CodexPanel implements vscode.Disposable {
         this.panel.webview.postMessage({ type: 'fileResult', message });
     }
 
+    postStreamDelta(delta: PanelStreamDelta): void {
+        this.panel.webview.postMessage({ type: 'stream', delta });
+    }
+
+    postRetry(notice: PanelRetryNotice): void {
+        this.panel.webview.postMessage({ type: 'retry', notice });
+    }
+
+    postFailover(notice: PanelFailoverNotice): void {
+        this.panel.webview.postMessage({ type: 'failover', notice });
+    }
+
+    postChoice(choice: PanelChoice): void {
+        this.panel.webview.postMessage({ type: 'choice', choice });
+    }
+
+    postChoiceResolved(choiceId: string): void {
+        this.panel.webview.postMessage({ type: 'choiceResolved', choiceId });
+    }
+
     postProcessStopped(): void {
         this.panel.webview.postMessage({ type: 'processStopped' });
     }
 
+    postComposerText(text: string): void {
+        this.panel.webview.postMessage({ type: 'composer', text });
+    }
+
+    postBackgroundProcess(update: PanelBackgroundProcess): void {
+        this.panel.webview.postMessage({ type: 'backgroundProcess', process: update });
+    }
+
     setLoading(value: boolean): void {
         this.panel.webview.postMessage({ type: 'loading', value });
     }
@@ -209,6 +375,8 @@ export class CodexPanel implements vscode.Disposable {
             <div class="header-actions">
                 <button class="header-icon" id="sessionToggle" title="Sessions" aria-label="Sessions">☰</button>
                 <button class="header-icon" id="apiKeyToggle" title="API Keys" aria-label="API Keys">🔑</button>
+                <button class="header-icon" id="mcpToggle" title="MCP Servers" aria-label="MCP Servers">🔌</button>
+                <button class="header-icon" id="checkpointToggle" title="Checkpoints" aria-label="Checkpoints">🕘</button>
                 <button class="header-icon" id="openPanel" title="Open in Panel" aria-label="Open in Panel">📋</button>
             </div>
         </div>
@@ -234,14 +402,38 @@ export class CodexPanel implements vscode.Disposable {
             <div class="apikey-panel-body" id="apiList"></div>
         </div>
     </div>
+    <div class="mcp-overlay hidden" id="mcpOverlay" role="dialog" aria-modal="true">
+        <div class="mcp-panel">
+            <div class="mcp-panel-header">
+                <div class="mcp-panel-title">MCP Servers</div>
+                <button class="mcp-close" id="mcpClose" aria-label="Close MCP servers">×</button>
+            </div>
+            <div class="mcp-panel-body" id="mcpList"></div>
+        </div>
+    </div>
+    <div class="checkpoint-overlay hidden" id="checkpointOverlay" role="dialog" aria-modal="true">
+        <div class="checkpoint-panel">
+            <div class="checkpoint-panel-header">
+                <div class="checkpoint-panel-title">Checkpoints</div>
+                <button class="checkpoint-close" id="checkpointClose" aria-label="Close checkpoints">×</button>
+            </div>
+            <div class="checkpoint-panel-body" id="checkpointList"></div>
+        </div>
+    </div>
     <section class="history" id="history"></section>
+    <section class="process-list hidden" id="processList" aria-label="Background processes"></section>
     <section class="composer">
+        <div class="composer-picker hidden" id="composerPicker"></div>
+        <div class="attachment-list hidden" id="attachmentList"></div>
         <textarea id="prompt" rows="3" placeholder="Ask IdSiberCoder..."></textarea>
         <div class="composer-bottom">
             <div class="composer-model">
                 <select id="modelSelect" aria-label="Model"></select>
+                <button class="model-refresh" id="refreshModels" title="Refresh models" aria-label="Refresh models">⟳</button>
             </div>
             <div class="actions">
+                <button class="composer-tool hidden" id="attachResource" title="Attach MCP resource" aria-label="Attach MCP resource">📎</button>
+                <button class="composer-tool hidden" id="promptTemplates" title="MCP prompts" aria-label="MCP prompts">✦</button>
                 <button id="send">Send</button>
             </div>
         </div>
@@ -1,5 +1,14 @@
 import * as vscode from 'vscode';
-import { PanelCallbacks, PanelState, PanelMessage } from './CodexPanel';
+import {
+    PanelBackgroundProcess,
+    PanelCallbacks,
+    PanelChoice,
+    PanelFailoverNotice,
+    PanelMessage,
+    PanelRetryNotice,
+    PanelState,
+    PanelStreamDelta
+} from './CodexPanel';
 
 export interface SidebarCallbacks extends PanelCallbacks {
     onReady?: () => void;
@@ -60,7 +69,7 @@ export class SidebarView implements vscode.WebviewViewProvider {
                     this._callbacks.onReady?.();
                     break;
                 case 'prompt':
-                    this._callbacks.onPrompt?.(data.prompt);
+                    this._callbacks.onPrompt?.(data.prompt, Array.isArray(data.attachments) ? data.attachments : undefined);
                     break;
                 case 'fileTool':
                     this._callbacks.onFileTool?.(data.payload);
@@ -77,6 +86,33 @@ export class SidebarView implements vscode.WebviewViewProvider {
                 case 'model:select':
                     this._callbacks.onModelSelect?.(data.selectionId);
                     break;
+                case 'models:refresh':
+                    this._callbacks.onRefreshModels?.();
+                    break;
+                case 'model:custom':
+                    this._callbacks.onCustomModel?.();
+                    break;
+                case 'choice:resolve':
+                    this._callbacks.onChoice?.(data.choiceId, data.optionId);
+                    break;
+                case 'mcp:toggle':
+                    this._callbacks.onToggleMcpServer?.(data.name, data.enabled === true);
+                    break;
+                case 'mcp:restart':
+                    this._callbacks.onRestartMcpServer?.(data.name);
+                    break;
+                case 'mcp:prompt':
+                    this._callbacks.onMcpPrompt?.(data.server, data.name, data.arguments ?? {});
+                    break;
+                case 'backgroundProcess:kill':
+                    this._callbacks.onKillBackgroundProcess?.(data.processId);
+                    break;
+                case 'backgroundProcess:dismiss':
+                    this._callbacks.onDismissBackgroundProcess?.(data.processId);
+                    break;
+                case 'checkpoint:restore':
+                    this._callbacks.onRestoreCheckpoint?.(data.checkpointId, typeof data.path === 'string' ? data.path : undefined);
+                    break;
                 case 'provider:apikey:set':
                     this._callbacks.onSaveApiKey?.(data.providerId, data.apiKey);
                     break;
@@ -115,10 +151,43 @@ export class SidebarView implements vscode.WebviewViewProvider {
         this._view?.webview.postMessage({ type: 'fileResult', message });
     }
 
+    public postStreamDelta(delta: PanelStreamDelta): void {
+        this._view?.webview.postMessage({ type: 'stream', delta });
+    }
+
+    public postRetry(notice: PanelRetryNotice): void {
+        this._view?.webview.postMessage({ type: 'retry', notice });
+    }
+
+    public postFailover(notice: PanelFailoverNotice): void {
+        this._view?.webview.postMessage({ type: 'failover', notice });
+    }
+
+    public postChoice(choice: PanelChoice): void {
+        const pending = this._currentState.pendingChoices ?? [];
+        this._currentState.pendingChoices = [...pending, choice];
+        this._view?.webview.postMessage({ type: 'choice', choice });
+    }
+
+    public postChoiceResolved(choiceId: string): void {
+        this._currentState.pendingChoices = (this._currentState.pendingChoices ?? []).filter(
+            (choice) => choice.id !== choiceId
+        );
+        this._view?.webview.postMessage({ type: 'choiceResolved', choiceId });
+    }
+
     public postProcessStopped(): void {
         this._view?.webview.postMessage({ type: 'processStopped' });
     }
 
+    public postComposerText(text: string): void {
+        this._view?.webview.postMessage({ type: 'composer', text });
+    }
+
+    public postBackgroundProcess(update: PanelBackgroundProcess): void {
+        this._view?.webview.postMessage({ type: 'backgroundProcess', process: update });
+    }
+
     public setLoading(value: boolean): void {
         this._currentState.isProcessing = value;
         this._view?.webview.postMessage({ type: 'loading', value });
@@ -149,6 +218,8 @@ export class SidebarView implements vscode.WebviewViewProvider {
                 <button class="header-icon" id="restartExtension" title="Restart Extension" aria-label="Restart Extension">🔄</button>
                 <button class="header-icon" id="sessionToggle" title="Sessions" aria-label="Sessions">☰</button>
                 <button class="header-icon" id="apiKeyToggle" title="API Keys" aria-label="API Keys">🔑</button>
+                <button class="header-icon" id="mcpToggle" title="MCP Servers" aria-label="MCP Servers">🔌</button>
+                <button class="header-icon" id="checkpointToggle" title="Checkpoints" aria-label="Checkpoints">🕘</button>
                 <button style="display: none;" class="header-icon" id="openPanel" title="Open in Panel" aria-label="Open in Panel">📋</button>
             </div>
         </div>
@@ -174,14 +245,38 @@ export class SidebarView implements vscode.WebviewViewProvider {
             <div class="apikey-panel-body" id="apiList"></div>
         </div>
     </div>
+    <div class="mcp-overlay hidden" id="mcpOverlay" role="dialog" aria-modal="true">
+        <div class="mcp-panel">
+            <div class="mcp-panel-header">
+                <div class="mcp-panel-title">MCP Servers</div>
+                <button class="mcp-close" id="mcpClose" aria-label="Close MCP servers">×</button>
+            </div>
+            <div class="mcp-panel-body" id="mcpList"></div>
+        </div>
+    </div>
+    <div class="checkpoint-overlay hidden" id="checkpointOverlay" role="dialog" aria-modal="true">
+        <div class="checkpoint-panel">
+            <div class="checkpoint-panel-header">
+                <div class="checkpoint-panel-title">Checkpoints</div>
+                <button class="checkpoint-close" id="checkpointClose" aria-label="Close checkpoints">×</button>
+            </div>
+            <div class="checkpoint-panel-body" id="checkpointList"></div>
+        </div>
+    </div>
     <section class="history" id="history"></section>
+    <section class="process-list hidden" id="processList" aria-label="Background processes"></section>
     <section class="composer">
+        <div class="composer-picker hidden" id="composerPicker"></div>
+        <div class="attachment-list hidden" id="attachmentList"></div>
         <textarea id="prompt" rows="3" placeholder="Ask IdSiberCoder..."></textarea>
         <div class="composer-bottom">
             <div class="composer-model">
                 <select id="modelSelect" aria-label="Model"></select>
+                <button class="model-refresh" id="refreshModels" title="Refresh models" aria-label="Refresh models">⟳</button>
             </div>
             <div class="actions">
+                <button class="composer-tool hidden" id="attachResource" title="Attach MCP resource" aria-label="Attach MCP resource">📎</button>
+                <button class="composer-tool hidden" id="promptTemplates" title="MCP prompts" aria-label="MCP prompts">✦</button>
                 <button id="send">Send</button>
             </div>
         </div>
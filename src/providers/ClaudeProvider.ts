@@ -1,7 +1,10 @@
 import axios, { AxiosInstance, isCancel } from 'axios';
 import * as vscode from 'vscode';
 import type { ConversationMessage, MessageUsage } from '../context/ContextManager';
-import type { ChatProvider, ProviderResponse, ToolDefinition } from './types';
+import type { ProviderModel } from '../config/providers';
+import type { ChatProvider, ProviderResponse, StreamHandler, ToolDefinition } from './types';
+import { describeStreamError, linkCancellation, readServerSentEvents } from './streaming';
+import { anthropicStreamError, describeProviderError } from './retry';
 
 export interface ClaudeConfig {
     apiKey: string;
@@ -32,34 +35,7 @@ export class ClaudeProvider implements ChatProvider {
         cancelToken?: vscode.CancellationToken
     ): Promise<ProviderResponse> {
         try {
-            // Separate system message
-            let systemMessage = '';
-            const filteredMessages = messages.filter(msg => {
-                if (msg.role === 'system') {
-                    systemMessage = msg.content || '';
-                    return false;
-                }
-                return true;
-            });
-
-            // Convert messages to Claude format
-            const claudeMessages = this.formatMessages(filteredMessages);
-            const formattedTools = this.formatTools(tools);
-
-            const requestBody: any = {
-                model: this.config.model,
-                messages: claudeMessages,
-                max_tokens: this.config.maxTokens || 8000
-            };
-
-            if (systemMessage) {
-                requestBody.system = systemMessage;
-            }
-
-            if (formattedTools.length > 0) {
-                requestBody.tools = formattedTools;
-                requestBody.tool_choice = { type: 'auto' };
-            }
+            const requestBody = this.buildRequestBody(messages, tools);
 
             const response = await this.client.post('/v1/messages', requestBody, {
                 cancelToken: cancelToken ? new axios.CancelToken(c => {
@@ -87,11 +63,156 @@ export class ClaudeProvider implements ChatProvider {
                     role: 'assistant',
                     content: `❌ Claude error: ${friendly}`
                 },
-                raw: error
+                raw: error,
+                error: describeProviderError(error, friendly)
+            };
+        }
+    }
+
+    async streamChat(
+        messages: ConversationMessage[],
+        tools: ToolDefinition[],
+        onDelta: StreamHandler,
+        cancelToken?: vscode.CancellationToken
+    ): Promise<ProviderResponse> {
+        const requestBody = this.buildRequestBody(messages, tools);
+        requestBody.stream = true;
+
+        const cancellation = linkCancellation(cancelToken);
+        try {
+            const response = await this.client.post('/v1/messages', requestBody, {
+                responseType: 'stream',
+                signal: cancellation.signal
+            });
+
+            // Rebuild the non-streaming payload shape so parseResponse can be reused.
+            const blocks: any[] = [];
+            const partialJson: string[] = [];
+            const usage = { input_tokens: 0, output_tokens: 0 };
+            let toolIndex = 0;
+
+            for await (const event of readServerSentEvents(response.data)) {
+                let data: any;
+                try {
+                    data = JSON.parse(event.data);
+                } catch {
+                    continue;
+                }
+
+                switch (data?.type ?? event.event) {
+                    case 'message_start':
+                        usage.input_tokens = data.message?.usage?.input_tokens ?? 0;
+                        usage.output_tokens = data.message?.usage?.output_tokens ?? 0;
+                        break;
+                    case 'content_block_start': {
+                        const block = { ...data.content_block };
+                        if (block.type === 'text') {
+                            block.text = block.text ?? '';
+                        } else if (block.type === 'tool_use') {
+                            partialJson[data.index] = '';
+                            onDelta({ toolCall: { index: toolIndex++, name: block.name } });
+                        }
+                        blocks[data.index] = block;
+                        break;
+                    }
+                    case 'content_block_delta': {
+                        const block = blocks[data.index];
+                        if (data.delta?.type === 'text_delta' && block) {
+                            block.text += data.delta.text;
+                            onDelta({ content: data.delta.text });
+                        } else if (data.delta?.type === 'input_json_delta') {
+                            partialJson[data.index] = (partialJson[data.index] ?? '') + (data.delta.partial_json ?? '');
+                        }
+                        break;
+                    }
+                    case 'content_block_stop': {
+                        const block = blocks[data.index];
+                        if (block?.type === 'tool_use') {
+                            const json = partialJson[data.index];
+                            try {
+                                block.input = json ? JSON.parse(json) : {};
+                            } catch {
+                                // Usually cut off by max_tokens; the raw text is passed on so the tool loop can report it.
+                                block.input = {};
+                                block.invalidInput = json;
+                            }
+                        }
+                        break;
+                    }
+                    case 'message_delta':
+                        if (typeof data.usage?.output_tokens === 'number') {
+                            usage.output_tokens = data.usage.output_tokens;
+                        }
+                        break;
+                    case 'error':
+                        throw anthropicStreamError(data.error);
+                }
+            }
+
+            return this.parseResponse({ content: blocks.filter(Boolean), usage });
+        } catch (error) {
+            if (isCancel(error) || cancelToken?.isCancellationRequested) {
+                throw new vscode.CancellationError();
+            }
+
+            const friendly = await describeStreamError(error);
+            return {
+                message: {
+                    role: 'assistant',
+                    content: `❌ Claude error: ${friendly}`
+                },
+                raw: error,
+                error: describeProviderError(error, friendly)
             };
+        } finally {
+            cancellation.dispose();
         }
     }
 
+    /**
+     * Models available to this key, read from `GET /v1/models`.
+     */
+    async listModels(): Promise<ProviderModel[]> {
+        const response = await this.client.get('/v1/models', { params: { limit: 1000 }, timeout: 15000 });
+        const entries: any[] = Array.isArray(response.data?.data) ? response.data.data : [];
+        return entries
+            .filter((entry) => typeof entry?.id === 'string' && entry.id)
+            .map((entry) => ({ id: entry.id, label: entry.display_name ?? entry.id }));
+    }
+
+    private buildRequestBody(messages: ConversationMessage[], tools: ToolDefinition[]): any {
+        // Separate system message
+        let systemMessage = '';
+        const filteredMessages = messages.filter(msg => {
+            if (msg.role === 'system') {
+                systemMessage = msg.content || '';
+                return false;
+            }
+            return true;
+        });
+
+        // Convert messages to Claude format
+        const claudeMessages = this.formatMessages(filteredMessages);
+        const formattedTools = this.formatTools(tools);
+
+        const requestBody: any = {
+            model: this.config.model,
+            messages: claudeMessages,
+            max_tokens: this.config.maxTokens || 8000
+        };
+
+        if (systemMessage) {
+            requestBody.system = systemMessage;
+        }
+
+        if (formattedTools.length > 0) {
+            requestBody.tools = formattedTools;
+            requestBody.tool_choice = { type: 'auto' };
+        }
+
+        return requestBody;
+    }
+
     private formatMessages(messages: ConversationMessage[]): any[] {
         const formatted: any[] = [];
         
@@ -123,7 +244,7 @@ export class ClaudeProvider implements ChatProvider {
                         type: 'tool_use',
                         id: toolCall.id || `tool_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
                         name: toolCall.function?.name || 'unknown',
-                        input: JSON.parse(toolCall.function?.arguments || '{}')
+                        input: this.parseToolInput(toolCall.function?.arguments)
                     }))
                 ];
 
@@ -143,6 +264,15 @@ export class ClaudeProvider implements ChatProvider {
         return formatted;
     }
 
+    /** Claude needs an object; arguments that never parsed were answered with an error, so `{}` stands in. */
+    private parseToolInput(rawArguments?: string): unknown {
+        try {
+            return JSON.parse(rawArguments || '{}');
+        } catch {
+            return {};
+        }
+    }
+
     private findToolCallId(messages: ConversationMessage[], toolMessageIndex: number): string {
         // Look backwards to find the assistant message that contains the tool call
         for (let i = toolMessageIndex - 1; i >= 0; i--) {
@@ -177,7 +307,7 @@ export class ClaudeProvider implements ChatProvider {
                     type: 'function',
                     function: {
                         name: block.name,
-                        arguments: JSON.stringify(block.input)
+                        arguments: block.invalidInput ?? JSON.stringify(block.input)
                     }
                 });
             }
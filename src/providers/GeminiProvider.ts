@@ -1,7 +1,10 @@
 import axios, { AxiosInstance } from 'axios';
 import * as vscode from 'vscode';
 import type { ConversationMessage, MessageUsage } from '../context/ContextManager';
-import type { ChatProvider, ProviderResponse, ToolDefinition } from './types';
+import type { ProviderModel } from '../config/providers';
+import type { ChatProvider, ProviderResponse, StreamHandler, ToolDefinition } from './types';
+import { describeStreamError, linkCancellation, readServerSentEvents } from './streaming';
+import { describeProviderError } from './retry';
 
 type ToolCall = {
     id: string;
@@ -56,34 +59,7 @@ export class GeminiProvider implements ChatProvider {
         cancelToken?: vscode.CancellationToken
     ): Promise<ProviderResponse> {
         const url = `/v1beta/models/${this.config.model}:generateContent`;
-
-        let systemInstruction: string | undefined;
-        const regularMessages = messages.filter(msg => {
-            if (msg.role === 'system') {
-                systemInstruction = msg.content;
-                return false;
-            }
-            return true;
-        });
-
-        const payload: Record<string, unknown> = {
-            contents: this.mapMessagesToGemini(regularMessages),
-            generationConfig: {
-                temperature: 0.4
-            }
-        };
-
-        if (systemInstruction) {
-            payload.system_instruction = {
-                parts: [{ text: systemInstruction }]
-            };
-        }
-
-        if (tools.length > 0) {
-            payload.tools = [{
-                function_declarations: tools.map(tool => tool.function)
-            }];
-        }
+        const payload = this.buildPayload(messages, tools);
 
         try {
             const abortController = new AbortController();
@@ -124,9 +100,144 @@ export class GeminiProvider implements ChatProvider {
                     role: 'assistant',
                     content: `❌ Gemini error: ${friendly}`
                 },
-                raw: error
+                raw: error,
+                error: describeProviderError(error, friendly)
+            };
+        }
+    }
+
+    async streamChat(
+        messages: ConversationMessage[],
+        tools: ToolDefinition[],
+        onDelta: StreamHandler,
+        cancelToken?: vscode.CancellationToken
+    ): Promise<ProviderResponse> {
+        const url = `/v1beta/models/${this.config.model}:streamGenerateContent`;
+        const payload = this.buildPayload(messages, tools);
+
+        const cancellation = linkCancellation(cancelToken);
+        try {
+            const response = await this.client.post(url, payload, {
+                headers: { 'Content-Type': 'application/json' },
+                params: { key: this.config.apiKey, alt: 'sse' },
+                responseType: 'stream',
+                signal: cancellation.signal
+            });
+
+            // Each event is a partial GenerateContentResponse; merge their parts into one candidate.
+            const parts: GeminiPart[] = [];
+            let usageMetadata: unknown;
+            let toolIndex = 0;
+
+            for await (const event of readServerSentEvents(response.data)) {
+                let chunk: any;
+                try {
+                    chunk = JSON.parse(event.data);
+                } catch {
+                    continue;
+                }
+
+                if (chunk?.usageMetadata) {
+                    usageMetadata = chunk.usageMetadata;
+                }
+
+                const chunkParts = chunk?.candidates?.[0]?.content?.parts;
+                if (!Array.isArray(chunkParts)) {
+                    continue;
+                }
+
+                for (const part of chunkParts as GeminiPart[]) {
+                    if (part.text) {
+                        const last = parts.at(-1);
+                        if (last && last.text !== undefined && !last.functionCall) {
+                            last.text += part.text;
+                        } else {
+                            parts.push({ text: part.text });
+                        }
+                        onDelta({ content: part.text });
+                    }
+                    if (part.functionCall) {
+                        parts.push({ functionCall: part.functionCall });
+                        onDelta({ toolCall: { index: toolIndex++, name: part.functionCall.name } });
+                    }
+                }
+            }
+
+            return this.parseResponse({
+                candidates: [{ content: { role: 'model', parts } }],
+                usageMetadata
+            });
+        } catch (error: unknown) {
+            if (axios.isCancel(error) || cancelToken?.isCancellationRequested) {
+                throw new Error('Request dibatalkan oleh pengguna');
+            }
+
+            const friendly = await describeStreamError(error);
+            return {
+                message: {
+                    role: 'assistant',
+                    content: `❌ Gemini error: ${friendly}`
+                },
+                raw: error,
+                error: describeProviderError(error, friendly)
+            };
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * Models that support `generateContent`, read from `GET /v1beta/models`.
+     */
+    async listModels(): Promise<ProviderModel[]> {
+        const response = await this.client.get('/v1beta/models', {
+            params: { key: this.config.apiKey, pageSize: 1000 },
+            timeout: 15000
+        });
+        const entries: any[] = Array.isArray(response.data?.models) ? response.data.models : [];
+        return entries
+            .filter((entry) =>
+                Array.isArray(entry?.supportedGenerationMethods)
+                    ? entry.supportedGenerationMethods.includes('generateContent')
+                    : true
+            )
+            .map((entry) => {
+                const id = String(entry?.name ?? '').replace(/^models\//, '');
+                return { id, label: entry?.displayName ?? id };
+            })
+            .filter((model) => model.id.length > 0);
+    }
+
+    private buildPayload(messages: ConversationMessage[], tools: ToolDefinition[] = []): Record<string, unknown> {
+        let systemInstruction: string | undefined;
+        const regularMessages = messages.filter(msg => {
+            if (msg.role === 'system') {
+                systemInstruction = msg.content;
+                return false;
+            }
+            return true;
+        });
+
+        const payload: Record<string, unknown> = {
+            contents: this.mapMessagesToGemini(regularMessages),
+            generationConfig: {
+                temperature: 0.4
+            }
+        };
+
+        if (systemInstruction) {
+            payload.system_instruction = {
+                parts: [{ text: systemInstruction }]
             };
         }
+
+        if (tools.length > 0) {
+            payload.tools = [{
+                function_declarations: tools.map(tool => tool.function)
+            }];
+        }
+
+        return payload;
     }
 
     private mapMessagesToGemini(messages: ConversationMessage[]): GeminiContent[] {
@@ -0,0 +1,244 @@
+import axios, { AxiosInstance } from 'axios';
+import * as vscode from 'vscode';
+import type { ConversationMessage, MessageUsage, ToolFunctionCall } from '../context/ContextManager';
+import type { ProviderModel } from '../config/providers';
+import type { ChatProvider, ProviderResponse, StreamHandler, ToolDefinition } from './types';
+import { describeStreamError, linkCancellation, readJsonLines } from './streaming';
+import { describeProviderError } from './retry';
+
+export interface OllamaConfig {
+    apiKey: string;
+    baseUrl: string;
+    model: string;
+    maxTokens?: number;
+}
+
+/**
+ * Talks to a local Ollama daemon through its native `/api/chat` endpoint.
+ * No API key is required; one is only forwarded when Ollama sits behind an authenticating proxy.
+ */
+export class OllamaProvider implements ChatProvider {
+    private readonly client: AxiosInstance;
+
+    constructor(private readonly config: OllamaConfig) {
+        this.client = axios.create({
+            baseURL: config.baseUrl.replace(/\/$/, ''),
+            timeout: 300000
+        });
+    }
+
+    async sendChat(
+        messages: ConversationMessage[],
+        tools: ToolDefinition[] = [],
+        cancelToken?: vscode.CancellationToken
+    ): Promise<ProviderResponse> {
+        const payload = this.buildPayload(messages, tools);
+
+        const cancellation = linkCancellation(cancelToken);
+        try {
+            const response = await this.client.post('/api/chat', payload, {
+                headers: this.buildHeaders(),
+                signal: cancellation.signal
+            });
+
+            return this.parseResponse(response.data);
+        } catch (error: unknown) {
+            if (axios.isCancel(error) || cancelToken?.isCancellationRequested) {
+                throw new Error('Request cancelled by user');
+            }
+
+            const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+            const friendly = typeof data?.error === 'string' ? data.error : this.describeConnectionError(error);
+            return this.toErrorResponse(friendly, error);
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    async streamChat(
+        messages: ConversationMessage[],
+        tools: ToolDefinition[],
+        onDelta: StreamHandler,
+        cancelToken?: vscode.CancellationToken
+    ): Promise<ProviderResponse> {
+        const payload = this.buildPayload(messages, tools);
+        payload.stream = true;
+
+        const cancellation = linkCancellation(cancelToken);
+        try {
+            const response = await this.client.post('/api/chat', payload, {
+                headers: this.buildHeaders(),
+                responseType: 'stream',
+                signal: cancellation.signal
+            });
+
+            let content = '';
+            let thinking = '';
+            const toolCalls: any[] = [];
+            let final: any = {};
+
+            for await (const chunk of readJsonLines(response.data)) {
+                if (typeof chunk?.error === 'string') {
+                    throw new Error(chunk.error);
+                }
+
+                const message = chunk?.message ?? {};
+                if (typeof message.content === 'string' && message.content) {
+                    content += message.content;
+                    onDelta({ content: message.content });
+                }
+                if (typeof message.thinking === 'string') {
+                    thinking += message.thinking;
+                }
+                if (Array.isArray(message.tool_calls)) {
+                    for (const call of message.tool_calls) {
+                        onDelta({ toolCall: { index: toolCalls.length, name: call?.function?.name } });
+                        toolCalls.push(call);
+                    }
+                }
+                if (chunk?.done) {
+                    final = chunk;
+                }
+            }
+
+            return this.parseResponse({
+                ...final,
+                message: { role: 'assistant', content, thinking, tool_calls: toolCalls }
+            });
+        } catch (error: unknown) {
+            if (axios.isCancel(error) || cancelToken?.isCancellationRequested) {
+                throw new Error('Request cancelled by user');
+            }
+
+            const friendly = axios.isAxiosError(error) && !error.response
+                ? this.describeConnectionError(error)
+                : await describeStreamError(error);
+            return this.toErrorResponse(friendly, error);
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * Models installed on the daemon, read from `/api/tags`.
+     */
+    async listModels(): Promise<ProviderModel[]> {
+        const response = await this.client.get('/api/tags', { headers: this.buildHeaders(), timeout: 10000 });
+        const models = Array.isArray(response.data?.models) ? response.data.models : [];
+        return models
+            .map((entry: any) => {
+                const id = String(entry?.model ?? entry?.name ?? '');
+                const size = entry?.details?.parameter_size;
+                return { id, label: size ? `${entry?.name ?? id} (${size})` : String(entry?.name ?? id) };
+            })
+            .filter((model: ProviderModel) => model.id.length > 0);
+    }
+
+    private buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.config.apiKey) {
+            headers.Authorization = `Bearer ${this.config.apiKey}`;
+        }
+        return headers;
+    }
+
+    private buildPayload(messages: ConversationMessage[], tools: ToolDefinition[] = []): Record<string, unknown> {
+        const options: Record<string, unknown> = { temperature: 0.4 };
+        if (this.config.maxTokens) {
+            options.num_predict = this.config.maxTokens;
+        }
+
+        const payload: Record<string, unknown> = {
+            model: this.config.model,
+            messages: messages.map((message) => this.mapMessage(message)),
+            stream: false,
+            options
+        };
+
+        if (tools.length) {
+            payload.tools = tools;
+        }
+
+        return payload;
+    }
+
+    private mapMessage({ role, content, name, toolCalls }: ConversationMessage): Record<string, unknown> {
+        const mapped: Record<string, unknown> = { role, content: content ?? '' };
+        if (role === 'tool' && name) {
+            mapped.tool_name = name;
+        }
+        if (toolCalls?.length) {
+            // Ollama expects arguments as an object rather than a JSON string.
+            mapped.tool_calls = toolCalls
+                .filter((call) => call.function)
+                .map((call) => {
+                    let args: unknown = {};
+                    try {
+                        args = JSON.parse(call.function?.arguments || '{}');
+                    } catch {
+                        args = {};
+                    }
+                    return { function: { name: call.function?.name, arguments: args } };
+                });
+        }
+        return mapped;
+    }
+
+    private parseResponse(data: any): ProviderResponse {
+        const messagePayload = data?.message ?? {};
+        const content: string = messagePayload?.content ?? '';
+        const thinking: string = messagePayload?.thinking ?? '';
+
+        const rawCalls: any[] = Array.isArray(messagePayload?.tool_calls) ? messagePayload.tool_calls : [];
+        const toolCalls: ToolFunctionCall[] = rawCalls.map((call, index) => ({
+            id: call?.id ?? `ollama_call_${Date.now()}_${index}`,
+            type: 'function',
+            function: {
+                name: call?.function?.name ?? '',
+                arguments:
+                    typeof call?.function?.arguments === 'string'
+                        ? call.function.arguments
+                        : JSON.stringify(call?.function?.arguments ?? {})
+            }
+        }));
+
+        const usage: MessageUsage | undefined =
+            typeof data?.prompt_eval_count === 'number' || typeof data?.eval_count === 'number'
+                ? {
+                      promptTokens: data.prompt_eval_count,
+                      completionTokens: data.eval_count,
+                      totalTokens: (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0)
+                  }
+                : undefined;
+
+        return {
+            message: {
+                role: 'assistant',
+                content,
+                reasoning: thinking || undefined,
+                toolCalls: toolCalls.length ? toolCalls : undefined
+            },
+            raw: data,
+            usage,
+            toolCalls: toolCalls.length ? toolCalls : undefined
+        };
+    }
+
+    private describeConnectionError(error: unknown): string {
+        if (axios.isAxiosError(error) && error.code === 'ECONNREFUSED') {
+            return `Cannot reach Ollama at ${this.config.baseUrl}. Is \`ollama serve\` running?`;
+        }
+        return (error as Error).message;
+    }
+
+    private toErrorResponse(friendly: string, error: unknown): ProviderResponse {
+        return {
+            message: {
+                role: 'assistant',
+                content: `❌ Ollama error: ${friendly}`
+            },
+            raw: error,
+            error: describeProviderError(error, friendly)
+        };
+    }
+}
@@ -0,0 +1,350 @@
+import axios, { AxiosInstance } from 'axios';
+import * as vscode from 'vscode';
+import type { ConversationMessage, MessageUsage, ToolFunctionCall } from '../context/ContextManager';
+import type { ProviderModel } from '../config/providers';
+import type { ChatProvider, ProviderResponse, StreamHandler, ToolDefinition } from './types';
+import { describeStreamError, linkCancellation, readServerSentEvents } from './streaming';
+import { describeProviderError } from './retry';
+
+export interface OpenAICompatibleConfig {
+    apiKey: string;
+    baseUrl: string;
+    model: string;
+    maxTokens?: number;
+}
+
+/**
+ * Per-vendor differences layered on top of the shared chat-completions core.
+ * Everything is optional except the label used in error messages.
+ */
+export interface OpenAICompatibleQuirks {
+    label: string;
+    /** Path of the chat completions endpoint relative to the base URL. */
+    endpoint?: string;
+    temperature?: number;
+    /** Request field carrying the token limit; `null` omits the limit entirely. */
+    maxTokensField?: string | null;
+    /** Response field holding chain-of-thought text (e.g. DeepSeek's `reasoning_content`). */
+    reasoningField?: string;
+    /** Request `stream_options.include_usage` so streamed replies still report token usage. */
+    streamUsage?: boolean;
+    /** Path of the list-models endpoint relative to the base URL. */
+    modelsEndpoint?: string;
+    /** Drop ids returned by the list-models endpoint that cannot be used for chat (embeddings, audio, ...). */
+    filterModel?: (modelId: string) => boolean;
+    buildHeaders?: (config: OpenAICompatibleConfig) => Record<string, string>;
+    mapMessage?: (mapped: Record<string, unknown>, message: ConversationMessage) => Record<string, unknown>;
+    mapTools?: (tools: ToolDefinition[]) => unknown[];
+    extendPayload?: (payload: Record<string, unknown>, config: OpenAICompatibleConfig) => void;
+}
+
+export const normalizeChatCompletionUsage = (usageRaw: any): MessageUsage | undefined =>
+    usageRaw
+        ? {
+              promptTokens: usageRaw.prompt_tokens,
+              completionTokens: usageRaw.completion_tokens,
+              totalTokens:
+                  usageRaw.total_tokens ??
+                  (typeof usageRaw.prompt_tokens === 'number' || typeof usageRaw.completion_tokens === 'number'
+                      ? (usageRaw.prompt_tokens ?? 0) + (usageRaw.completion_tokens ?? 0)
+                      : undefined)
+          }
+        : undefined;
+
+/**
+ * Assembles `chat.completion.chunk` events into a single ProviderResponse.
+ * Tool-call fragments are merged by their `index`, concatenating argument pieces.
+ */
+export class ChatCompletionStreamAccumulator {
+    private content = '';
+    private reasoning = '';
+    private readonly toolCalls: ToolFunctionCall[] = [];
+    private usage?: MessageUsage;
+    private readonly chunks: unknown[] = [];
+
+    constructor(
+        private readonly onDelta: StreamHandler,
+        private readonly reasoningField?: string
+    ) {}
+
+    push(rawData: string): void {
+        let chunk: any;
+        try {
+            chunk = JSON.parse(rawData);
+        } catch {
+            return;
+        }
+        this.chunks.push(chunk);
+
+        if (chunk?.usage) {
+            this.usage = normalizeChatCompletionUsage(chunk.usage);
+        }
+
+        const delta = chunk?.choices?.[0]?.delta;
+        if (!delta) {
+            return;
+        }
+
+        if (typeof delta.content === 'string' && delta.content) {
+            this.content += delta.content;
+            this.onDelta({ content: delta.content });
+        }
+
+        if (this.reasoningField && typeof delta[this.reasoningField] === 'string') {
+            this.reasoning += delta[this.reasoningField];
+        }
+
+        if (Array.isArray(delta.tool_calls)) {
+            for (const part of delta.tool_calls) {
+                this.mergeToolCall(part);
+            }
+        }
+    }
+
+    toResponse(): ProviderResponse {
+        const toolCalls = this.toolCalls.filter(Boolean);
+        return {
+            message: {
+                role: 'assistant',
+                content: this.content,
+                reasoning: this.reasoning || undefined,
+                toolCalls: toolCalls.length ? toolCalls : undefined
+            },
+            raw: this.chunks,
+            usage: this.usage,
+            toolCalls: toolCalls.length ? toolCalls : undefined
+        };
+    }
+
+    private mergeToolCall(part: any): void {
+        // Some vendors omit `index` and send each call whole; match those by id instead.
+        let index: number = typeof part?.index === 'number' ? part.index : -1;
+        if (index < 0) {
+            const existing = part?.id ? this.toolCalls.findIndex((call) => call?.id === part.id) : -1;
+            index = existing >= 0 ? existing : this.toolCalls.length;
+        }
+
+        let call = this.toolCalls[index];
+        if (!call) {
+            call = {
+                id: part?.id,
+                type: part?.type ?? 'function',
+                function: { name: part?.function?.name ?? '', arguments: '' }
+            };
+            this.toolCalls[index] = call;
+            this.onDelta({ toolCall: { index, name: call.function?.name || undefined } });
+        }
+
+        if (part?.id) {
+            call.id = part.id;
+        }
+        if (part?.function?.name && call.function && !call.function.name) {
+            call.function.name = part.function.name;
+            this.onDelta({ toolCall: { index, name: part.function.name } });
+        }
+        if (typeof part?.function?.arguments === 'string' && call.function) {
+            call.function.arguments += part.function.arguments;
+        }
+    }
+}
+
+/**
+ * Shared client for vendors exposing the OpenAI `/chat/completions` contract.
+ * Message mapping, tool-call parsing, usage normalisation, cancellation and error
+ * shaping live here; vendors only describe their differences through quirks.
+ */
+export class OpenAICompatibleProvider implements ChatProvider {
+    protected readonly client: AxiosInstance;
+
+    constructor(
+        protected readonly config: OpenAICompatibleConfig,
+        protected readonly quirks: OpenAICompatibleQuirks
+    ) {
+        this.client = axios.create({
+            baseURL: config.baseUrl.replace(/\/$/, ''),
+            timeout: 300000
+        });
+    }
+
+    async sendChat(
+        messages: ConversationMessage[],
+        tools: ToolDefinition[] = [],
+        cancelToken?: vscode.CancellationToken
+    ): Promise<ProviderResponse> {
+        const payload = this.buildPayload(messages, tools);
+
+        const cancellation = linkCancellation(cancelToken);
+        try {
+            const response = await this.client.post(this.quirks.endpoint ?? '/chat/completions', payload, {
+                headers: this.buildHeaders(),
+                signal: cancellation.signal
+            });
+
+            return this.parseResponse(response.data);
+        } catch (error: unknown) {
+            if (axios.isCancel(error) || cancelToken?.isCancellationRequested) {
+                throw new Error('Request cancelled by user');
+            }
+
+            const friendly = axios.isAxiosError(error)
+                ? error.response?.data?.error?.message ?? error.message
+                : (error as Error).message;
+
+            return this.toErrorResponse(friendly, error);
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    async streamChat(
+        messages: ConversationMessage[],
+        tools: ToolDefinition[],
+        onDelta: StreamHandler,
+        cancelToken?: vscode.CancellationToken
+    ): Promise<ProviderResponse> {
+        const payload = this.buildPayload(messages, tools);
+        payload.stream = true;
+        if (this.quirks.streamUsage ?? true) {
+            payload.stream_options = { include_usage: true };
+        }
+
+        const cancellation = linkCancellation(cancelToken);
+        try {
+            const response = await this.client.post(this.quirks.endpoint ?? '/chat/completions', payload, {
+                headers: this.buildHeaders(),
+                responseType: 'stream',
+                signal: cancellation.signal
+            });
+
+            const accumulator = new ChatCompletionStreamAccumulator(onDelta, this.quirks.reasoningField);
+            for await (const event of readServerSentEvents(response.data)) {
+                if (event.data.trim() === '[DONE]') {
+                    break;
+                }
+                accumulator.push(event.data);
+            }
+            return accumulator.toResponse();
+        } catch (error: unknown) {
+            if (axios.isCancel(error) || cancelToken?.isCancellationRequested) {
+                throw new Error('Request cancelled by user');
+            }
+
+            const friendly = await describeStreamError(error);
+            return this.toErrorResponse(friendly, error);
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * Models advertised by the vendor's OpenAI-style `GET /models` endpoint.
+     */
+    async listModels(): Promise<ProviderModel[]> {
+        const response = await this.client.get(this.quirks.modelsEndpoint ?? '/models', {
+            headers: this.buildHeaders(),
+            timeout: 15000
+        });
+        const entries: any[] = Array.isArray(response.data?.data) ? response.data.data : [];
+        return entries
+            .map((entry) => String(entry?.id ?? ''))
+            .filter((id) => id.length > 0 && (this.quirks.filterModel?.(id) ?? true))
+            .map((id) => ({ id, label: id }));
+    }
+
+    protected buildHeaders(): Record<string, string> {
+        if (this.quirks.buildHeaders) {
+            return this.quirks.buildHeaders(this.config);
+        }
+        return {
+            Authorization: `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json'
+        };
+    }
+
+    protected buildPayload(messages: ConversationMessage[], tools: ToolDefinition[] = []): Record<string, unknown> {
+        const payload: Record<string, unknown> = {
+            model: this.config.model,
+            messages: messages.map((message) => this.mapMessage(message)),
+            stream: false
+        };
+
+        if (this.quirks.temperature !== undefined) {
+            payload.temperature = this.quirks.temperature;
+        }
+
+        if (tools.length) {
+            payload.tools = this.quirks.mapTools ? this.quirks.mapTools(tools) : tools;
+            payload.tool_choice = 'auto';
+        }
+
+        const maxTokensField = this.quirks.maxTokensField === undefined ? 'max_tokens' : this.quirks.maxTokensField;
+        if (maxTokensField && this.config.maxTokens) {
+            payload[maxTokensField] = this.config.maxTokens;
+        }
+
+        this.quirks.extendPayload?.(payload, this.config);
+        return payload;
+    }
+
+    protected mapMessage(message: ConversationMessage): Record<string, unknown> {
+        const { role, content, name, toolCalls, toolCallId } = message;
+        const mapped: Record<string, unknown> = { role };
+        if (content) {
+            mapped.content = content;
+        }
+        if (name) {
+            mapped.name = name;
+        }
+        if (role === 'tool' && toolCallId) {
+            mapped.tool_call_id = toolCallId;
+        }
+        if (toolCalls?.length) {
+            mapped.tool_calls = toolCalls.map((call) => ({
+                id: call.id,
+                type: call.type,
+                function: call.function
+            }));
+        }
+        return this.quirks.mapMessage ? this.quirks.mapMessage(mapped, message) : mapped;
+    }
+
+    protected parseResponse(data: any): ProviderResponse {
+        const choice = data?.choices?.[0];
+        const messagePayload = choice?.message ?? {};
+        const content: string = messagePayload?.content ?? '';
+        const reasoningRaw = this.quirks.reasoningField ? messagePayload?.[this.quirks.reasoningField] : undefined;
+        const toolCalls = Array.isArray(messagePayload?.tool_calls)
+            ? messagePayload.tool_calls.map((call: any) => ({
+                  id: call?.id,
+                  type: call?.type,
+                  function: {
+                      name: call?.function?.name,
+                      arguments: call?.function?.arguments ?? ''
+                  }
+              }))
+            : undefined;
+
+        return {
+            message: {
+                role: 'assistant',
+                content,
+                reasoning: typeof reasoningRaw === 'string' && reasoningRaw ? reasoningRaw : undefined,
+                toolCalls
+            },
+            raw: data,
+            usage: normalizeChatCompletionUsage(data?.usage),
+            toolCalls
+        };
+    }
+
+    protected toErrorResponse(friendly: string, error: unknown): ProviderResponse {
+        return {
+            message: {
+                role: 'assistant',
+                content: `❌ ${this.quirks.label} error: ${friendly}`
+            },
+            raw: error,
+            error: describeProviderError(error, friendly)
+        };
+    }
+}
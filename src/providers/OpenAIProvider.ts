@@ -1,22 +1,21 @@
-import axios, { AxiosInstance, isCancel } from 'axios';
+import axios from 'axios';
 import * as vscode from 'vscode';
 import type { ConversationMessage, MessageUsage } from '../context/ContextManager';
-import type { ChatProvider, ProviderResponse, ToolDefinition } from './types';
+import type { ProviderResponse, StreamHandler, ToolDefinition } from './types';
+import { describeStreamError, linkCancellation, readServerSentEvents } from './streaming';
+import { OpenAICompatibleConfig, OpenAICompatibleProvider } from './OpenAICompatibleProvider';
 
-export interface OpenAIConfig {
-    apiKey: string;
-    baseUrl: string;
-    model: string;
-    maxTokens?: number;
-}
+export type OpenAIConfig = OpenAICompatibleConfig;
 
-export class OpenAIProvider implements ChatProvider {
-    private readonly client: AxiosInstance;
+const NON_CHAT_MODEL_PATTERN = /(embedding|whisper|tts|dall-e|moderation|transcribe|realtime|audio|image|search|davinci|babbage)/i;
 
-    constructor(private readonly config: OpenAIConfig) {
-        this.client = axios.create({
-            baseURL: config.baseUrl.replace(/\/$/, ''),
-            timeout: 300000
+export class OpenAIProvider extends OpenAICompatibleProvider {
+    constructor(config: OpenAIConfig) {
+        super(config, {
+            label: 'OpenAI',
+            temperature: 0.4,
+            maxTokensField: null,
+            filterModel: (modelId) => !NON_CHAT_MODEL_PATTERN.test(modelId)
         });
     }
 
@@ -46,110 +45,131 @@ export class OpenAIProvider implements ChatProvider {
         if (useResponsesAPI) {
             return this.sendResponsesAPI(messages, tools, cancelToken);
         } else {
-            return this.sendChatCompletionsAPI(messages, tools, cancelToken);
+            return super.sendChat(messages, tools, cancelToken);
         }
     }
 
-    /**
-     * Send request using the legacy /v1/chat/completions API
-     */
-    private async sendChatCompletionsAPI(
+    async streamChat(
         messages: ConversationMessage[],
-        tools: ToolDefinition[] = [],
+        tools: ToolDefinition[],
+        onDelta: StreamHandler,
         cancelToken?: vscode.CancellationToken
     ): Promise<ProviderResponse> {
-        const payload: Record<string, unknown> = {
-            model: this.config.model,
-            messages: messages.map(({ role, content, name, toolCalls, toolCallId }) => {
-                const mapped: Record<string, unknown> = { role };
-                if (content) {
-                    mapped.content = content;
-                }
-                if (name) {
-                    mapped.name = name;
-                }
-                if (role === 'tool' && toolCallId) {
-                    mapped.tool_call_id = toolCallId;
-                }
-                if (toolCalls?.length) {
-                    mapped.tool_calls = toolCalls.map((call) => ({
-                        id: call.id,
-                        type: call.type,
-                        function: call.function
-                    }));
-                }
-                return mapped;
-            }),
-            stream: false
-        };
+        const useResponsesAPI = this.isResponsesAPI(this.config.model);
 
-        if (tools.length) {
-            payload.tools = tools;
-            payload.tool_choice = 'auto';
+        if (useResponsesAPI) {
+            return this.streamResponsesAPI(messages, tools, onDelta, cancelToken);
+        } else {
+            return super.streamChat(messages, tools, onDelta, cancelToken);
         }
+    }
 
-        payload.temperature = 0.4;
+    /**
+     * Send request using the new /v1/responses API
+     */
+    private async sendResponsesAPI(
+        messages: ConversationMessage[],
+        tools: ToolDefinition[] = [],
+        cancelToken?: vscode.CancellationToken
+    ): Promise<ProviderResponse> {
+        const payload = this.buildResponsesPayload(messages, tools);
 
+        const cancellation = linkCancellation(cancelToken);
         try {
-            // Create AbortController that can be cancelled by VS Code cancellation token
-            const abortController = new AbortController();
-            
-            // Listen for cancellation from VS Code
-            if (cancelToken) {
-                const cancellationListener = cancelToken.onCancellationRequested(() => {
-                    abortController.abort();
-                });
-                
-                // Clean up listener when request completes
-                const cleanup = () => cancellationListener.dispose();
-                
-                const response = await this.client.post('/chat/completions', payload, {
-                    headers: {
-                        Authorization: `Bearer ${this.config.apiKey}`,
-                        'Content-Type': 'application/json'
-                    },
-                    signal: abortController.signal
-                }).finally(cleanup);
-                
-                return this.parseChatCompletionsResponse(response.data);
-            } else {
-                const response = await this.client.post('/chat/completions', payload, {
-                    headers: {
-                        Authorization: `Bearer ${this.config.apiKey}`,
-                        'Content-Type': 'application/json'
-                    }
-                });
-                
-                return this.parseChatCompletionsResponse(response.data);
-            }
+            const response = await this.client.post('/responses', payload, {
+                headers: this.buildHeaders(),
+                signal: cancellation.signal
+            });
+
+            return this.parseResponsesAPIResponse(response.data);
         } catch (error: unknown) {
-            // Check if the error is due to cancellation
-            if (axios.isCancel(error)) {
+            if (axios.isCancel(error) || cancelToken?.isCancellationRequested) {
                 throw new Error('Request cancelled by user');
             }
-            
+
             const friendly = axios.isAxiosError(error)
                 ? error.response?.data?.error?.message ?? error.message
                 : (error as Error).message;
 
+            return this.toErrorResponse(friendly, error);
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * Stream a /v1/responses request. The final `response.completed` event carries the
+     * full response object, so it is parsed exactly like the non-streaming variant.
+     */
+    private async streamResponsesAPI(
+        messages: ConversationMessage[],
+        tools: ToolDefinition[],
+        onDelta: StreamHandler,
+        cancelToken?: vscode.CancellationToken
+    ): Promise<ProviderResponse> {
+        const payload = this.buildResponsesPayload(messages, tools);
+        payload.stream = true;
+
+        const cancellation = linkCancellation(cancelToken);
+        try {
+            const response = await this.client.post('/responses', payload, {
+                headers: this.buildHeaders(),
+                responseType: 'stream',
+                signal: cancellation.signal
+            });
+
+            let streamedText = '';
+            let completed: unknown;
+            let toolIndex = 0;
+
+            for await (const event of readServerSentEvents(response.data)) {
+                let data: any;
+                try {
+                    data = JSON.parse(event.data);
+                } catch {
+                    continue;
+                }
+
+                const type = data?.type ?? event.event;
+                if (type === 'response.output_text.delta' && typeof data.delta === 'string') {
+                    streamedText += data.delta;
+                    onDelta({ content: data.delta });
+                } else if (type === 'response.output_item.added' && data.item?.type === 'function_call') {
+                    onDelta({ toolCall: { index: toolIndex++, name: data.item.name } });
+                } else if (type === 'response.completed') {
+                    completed = data.response;
+                } else if (type === 'response.failed' || type === 'error') {
+                    throw new Error(data?.response?.error?.message ?? data?.message ?? 'Streaming response failed');
+                }
+            }
+
+            if (completed) {
+                return this.parseResponsesAPIResponse(completed);
+            }
+
             return {
                 message: {
                     role: 'assistant',
-                    content: `❌ OpenAI error: ${friendly}`
+                    content: streamedText
                 },
-                raw: error
+                raw: undefined
             };
+        } catch (error: unknown) {
+            if (axios.isCancel(error) || cancelToken?.isCancellationRequested) {
+                throw new Error('Request cancelled by user');
+            }
+
+            const friendly = await describeStreamError(error);
+            return this.toErrorResponse(friendly, error);
+        } finally {
+            cancellation.dispose();
         }
     }
 
-    /**
-     * Send request using the new /v1/responses API
-     */
-    private async sendResponsesAPI(
+    private buildResponsesPayload(
         messages: ConversationMessage[],
-        tools: ToolDefinition[] = [],
-        cancelToken?: vscode.CancellationToken
-    ): Promise<ProviderResponse> {
+        tools: ToolDefinition[] = []
+    ): Record<string, unknown> {
         // Convert messages to the new format for /v1/responses
         const input = messages.map(({ role, content, name, toolCalls, toolCallId }) => {
             // For /v1/responses, we need to handle tool messages differently
@@ -202,99 +222,7 @@ export class OpenAIProvider implements ChatProvider {
             }));
         }
 
-        try {
-            // Create AbortController that can be cancelled by VS Code cancellation token
-            const abortController = new AbortController();
-            
-            // Listen for cancellation from VS Code
-            if (cancelToken) {
-                const cancellationListener = cancelToken.onCancellationRequested(() => {
-                    abortController.abort();
-                });
-                
-                // Clean up listener when request completes
-                const cleanup = () => cancellationListener.dispose();
-                
-                const response = await this.client.post('/responses', payload, {
-                    headers: {
-                        Authorization: `Bearer ${this.config.apiKey}`,
-                        'Content-Type': 'application/json'
-                    },
-                    signal: abortController.signal
-                }).finally(cleanup);
-                
-                return this.parseResponsesAPIResponse(response.data);
-            } else {
-                const response = await this.client.post('/responses', payload, {
-                    headers: {
-                        Authorization: `Bearer ${this.config.apiKey}`,
-                        'Content-Type': 'application/json'
-                    }
-                });
-                
-                return this.parseResponsesAPIResponse(response.data);
-            }
-        } catch (error: unknown) {
-            // Check if the error is due to cancellation
-            if (axios.isCancel(error)) {
-                throw new Error('Request cancelled by user');
-            }
-            
-            const friendly = axios.isAxiosError(error)
-                ? error.response?.data?.error?.message ?? error.message
-                : (error as Error).message;
-
-            return {
-                message: {
-                    role: 'assistant',
-                    content: `❌ OpenAI error: ${friendly}`
-                },
-                raw: error
-            };
-        }
-    }
-
-    /**
-     * Parse response from /v1/chat/completions API
-     */
-    private parseChatCompletionsResponse(data: any): ProviderResponse {
-        const choice = data?.choices?.[0];
-        const messagePayload = choice?.message ?? {};
-        const content: string = messagePayload?.content ?? '';
-        const toolCalls = Array.isArray(messagePayload?.tool_calls)
-            ? messagePayload.tool_calls.map((call: any) => ({
-                  id: call?.id,
-                  type: call?.type,
-                  function: {
-                      name: call?.function?.name,
-                      arguments: call?.function?.arguments ?? ''
-                  }
-              }))
-            : undefined;
-
-        const usageRaw = data?.usage;
-        const usage: MessageUsage | undefined = usageRaw
-            ? {
-                  promptTokens: usageRaw.prompt_tokens,
-                  completionTokens: usageRaw.completion_tokens,
-                  totalTokens:
-                      usageRaw.total_tokens ??
-                      (typeof usageRaw.prompt_tokens === 'number' || typeof usageRaw.completion_tokens === 'number'
-                          ? (usageRaw.prompt_tokens ?? 0) + (usageRaw.completion_tokens ?? 0)
-                          : undefined)
-              }
-            : undefined;
-
-        return {
-            message: {
-                role: 'assistant',
-                content,
-                toolCalls
-            },
-            raw: data,
-            usage,
-            toolCalls
-        };
+        return payload;
     }
 
     /**
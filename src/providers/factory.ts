@@ -0,0 +1,57 @@
+import type { BuiltInProviderId, CustomProviderAuthHeader, ProviderMetadata } from '../config/providers';
+import { isBuiltInProvider } from '../config/providers';
+import type { ChatProvider } from './types';
+import { DeepSeekProvider } from './DeepSeekProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { ZhiPuAIProvider } from './ZhiPuAIProvider';
+import { GrokProvider } from './GrokProvider';
+import { ClaudeProvider } from './ClaudeProvider';
+import { NovitaAIProvider } from './NovitaAIProvider';
+import { GeminiProvider } from './GeminiProvider';
+import { OllamaProvider } from './OllamaProvider';
+import { OpenAICompatibleConfig, OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+export type ProviderConnection = OpenAICompatibleConfig;
+
+const BUILT_IN_FACTORIES: Record<BuiltInProviderId, (connection: ProviderConnection) => ChatProvider> = {
+    deepseek: (connection) => new DeepSeekProvider(connection),
+    openai: (connection) => new OpenAIProvider(connection),
+    zhipuai: (connection) => new ZhiPuAIProvider(connection),
+    grok: (connection) => new GrokProvider(connection),
+    claude: (connection) => new ClaudeProvider(connection),
+    novita: (connection) => new NovitaAIProvider(connection),
+    gemini: (connection) => new GeminiProvider(connection),
+    ollama: (connection) => new OllamaProvider(connection)
+};
+
+const buildAuthHeaders = (style: CustomProviderAuthHeader, apiKey: string): Record<string, string> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (!apiKey || style === 'none') {
+        return headers;
+    }
+    if (style === 'x-api-key') {
+        headers['x-api-key'] = apiKey;
+    } else if (style === 'api-key') {
+        headers['api-key'] = apiKey;
+    } else {
+        headers.Authorization = `Bearer ${apiKey}`;
+    }
+    return headers;
+};
+
+export const createChatProvider = (metadata: ProviderMetadata, connection: ProviderConnection): ChatProvider => {
+    if (metadata.custom) {
+        const { authHeader } = metadata.custom;
+        return new OpenAICompatibleProvider(connection, {
+            label: metadata.label,
+            temperature: 0.4,
+            buildHeaders: (config) => buildAuthHeaders(authHeader, config.apiKey)
+        });
+    }
+
+    if (isBuiltInProvider(metadata.id)) {
+        return BUILT_IN_FACTORIES[metadata.id](connection);
+    }
+
+    throw new Error(`Unsupported provider: ${metadata.id}`);
+};
@@ -0,0 +1,224 @@
+import axios from 'axios';
+import * as vscode from 'vscode';
+import type { ProviderErrorInfo } from './types';
+
+export interface RetryPolicy {
+    /** Total attempts per request, including the first one. `1` disables retries. */
+    maxAttempts: number;
+    baseDelayMs: number;
+    /** Upper bound for a single wait; a `Retry-After` longer than this is not waited out. */
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000
+};
+
+export interface RetryNotice {
+    /** The attempt that just failed (1-based). */
+    attempt: number;
+    maxAttempts: number;
+    delayMs: number;
+    reason: string;
+}
+
+export type RetryHandler = (notice: RetryNotice) => void;
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+const RETRYABLE_CODES = new Set([
+    'ECONNRESET',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'EAI_AGAIN',
+    'ERR_NETWORK',
+    'ERR_STREAM_PREMATURE_CLOSE'
+]);
+
+/** HTTP status of each Anthropic error type; an `error` event inside an open stream carries only the type. */
+const ANTHROPIC_ERROR_STATUS: Record<string, number> = {
+    invalid_request_error: 400,
+    authentication_error: 401,
+    permission_error: 403,
+    not_found_error: 404,
+    request_too_large: 413,
+    rate_limit_error: 429,
+    api_error: 500,
+    overloaded_error: 529
+};
+
+/** A failure reported inside a stream that already answered 200, with the HTTP status it stands for. */
+export class StreamEventError extends Error {
+    constructor(
+        message: string,
+        readonly status?: number
+    ) {
+        super(message);
+        this.name = 'StreamEventError';
+    }
+}
+
+/** Turn the payload of an Anthropic `error` stream event into an error the retry policy understands. */
+export const anthropicStreamError = (error: { type?: string; message?: string } | undefined): StreamEventError =>
+    new StreamEventError(error?.message ?? 'Streaming response failed', error?.type ? ANTHROPIC_ERROR_STATUS[error.type] : undefined);
+
+/** Remaining/reset header pairs; a reset is only relevant when its bucket is exhausted. */
+const RATE_LIMIT_HEADERS: Array<[remaining: string, reset: string]> = [
+    ['x-ratelimit-remaining-requests', 'x-ratelimit-reset-requests'],
+    ['x-ratelimit-remaining-tokens', 'x-ratelimit-reset-tokens'],
+    ['anthropic-ratelimit-requests-remaining', 'anthropic-ratelimit-requests-reset'],
+    ['anthropic-ratelimit-tokens-remaining', 'anthropic-ratelimit-tokens-reset'],
+    ['anthropic-ratelimit-input-tokens-remaining', 'anthropic-ratelimit-input-tokens-reset'],
+    ['anthropic-ratelimit-output-tokens-remaining', 'anthropic-ratelimit-output-tokens-reset']
+];
+
+const readHeader = (headers: unknown, name: string): string | undefined => {
+    if (!headers || typeof headers !== 'object') {
+        return undefined;
+    }
+    const value = (headers as Record<string, unknown>)[name];
+    if (Array.isArray(value)) {
+        return value.length ? String(value[0]) : undefined;
+    }
+    return value === undefined || value === null ? undefined : String(value);
+};
+
+/**
+ * Parse a reset value: delta seconds (`Retry-After: 12`), an HTTP or RFC 3339 date
+ * (Anthropic), or a Go-style duration such as `6m0s` / `250ms` (OpenAI).
+ */
+const parseResetValue = (value: string): number | undefined => {
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.round(Number(trimmed) * 1000);
+    }
+
+    const duration = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+)ms)?$/);
+    if (duration && duration.slice(1).some(Boolean)) {
+        const [, hours, minutes, seconds, millis] = duration;
+        return Math.round(
+            Number(hours ?? 0) * 3600000 +
+                Number(minutes ?? 0) * 60000 +
+                Number(seconds ?? 0) * 1000 +
+                Number(millis ?? 0)
+        );
+    }
+
+    const date = Date.parse(trimmed);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+    return undefined;
+};
+
+const parseRetryAfter = (headers: unknown, status?: number): number | undefined => {
+    const retryAfterMs = readHeader(headers, 'retry-after-ms');
+    if (retryAfterMs && /^\d+(\.\d+)?$/.test(retryAfterMs.trim())) {
+        return Math.round(Number(retryAfterMs));
+    }
+
+    const retryAfter = readHeader(headers, 'retry-after');
+    if (retryAfter) {
+        const parsed = parseResetValue(retryAfter);
+        if (parsed !== undefined) {
+            return parsed;
+        }
+    }
+
+    if (status !== 429) {
+        return undefined;
+    }
+
+    let longest: number | undefined;
+    for (const [remainingHeader, resetHeader] of RATE_LIMIT_HEADERS) {
+        const remaining = readHeader(headers, remainingHeader);
+        const reset = readHeader(headers, resetHeader);
+        if (remaining === undefined || Number(remaining) > 0 || !reset) {
+            continue;
+        }
+        const parsed = parseResetValue(reset);
+        if (parsed !== undefined) {
+            longest = Math.max(longest ?? 0, parsed);
+        }
+    }
+    return longest;
+};
+
+/**
+ * Capture the transport details of a failed provider call so the retry policy can
+ * decide whether another attempt is worthwhile.
+ */
+export const describeProviderError = (error: unknown, friendly?: string): ProviderErrorInfo => {
+    const message = friendly ?? (error as Error)?.message ?? String(error);
+    if (error instanceof StreamEventError) {
+        return { status: error.status, message };
+    }
+    if (!axios.isAxiosError(error)) {
+        const code = (error as NodeJS.ErrnoException)?.code;
+        return { code: typeof code === 'string' ? code : undefined, message };
+    }
+
+    const status = error.response?.status;
+    return {
+        status,
+        code: error.code,
+        retryAfterMs: parseRetryAfter(error.response?.headers, status),
+        message
+    };
+};
+
+export const isRetryableError = (info: ProviderErrorInfo): boolean => {
+    if (info.status !== undefined) {
+        return RETRYABLE_STATUS.has(info.status) || info.status >= 500;
+    }
+    if (info.code && RETRYABLE_CODES.has(info.code)) {
+        return true;
+    }
+    return /socket hang up|network error|stream (has been )?aborted|premature close/i.test(info.message);
+};
+
+/**
+ * Delay before the next attempt, or `undefined` when the failure should be surfaced as-is.
+ * Server hints win over the exponential schedule; otherwise the delay is jittered between
+ * half and all of `baseDelayMs * 2^(attempt - 1)`.
+ */
+export const computeRetryDelay = (
+    attempt: number,
+    policy: RetryPolicy,
+    info: ProviderErrorInfo
+): number | undefined => {
+    if (attempt >= policy.maxAttempts || !isRetryableError(info)) {
+        return undefined;
+    }
+
+    if (info.retryAfterMs !== undefined) {
+        return info.retryAfterMs <= policy.maxDelayMs ? info.retryAfterMs : undefined;
+    }
+
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+/**
+ * Sleep between attempts, rejecting as soon as the user cancels so a stopped request
+ * never fires again.
+ */
+export const waitForRetry = (delayMs: number, cancelToken?: vscode.CancellationToken): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (cancelToken?.isCancellationRequested) {
+            reject(new Error('Request cancelled by user'));
+            return;
+        }
+        const timer = setTimeout(() => {
+            listener?.dispose();
+            resolve();
+        }, delayMs);
+        const listener = cancelToken?.onCancellationRequested(() => {
+            clearTimeout(timer);
+            listener?.dispose();
+            reject(new Error('Request cancelled by user'));
+        });
+    });
@@ -0,0 +1,150 @@
+import axios from 'axios';
+import * as vscode from 'vscode';
+
+export interface ServerSentEvent {
+    event?: string;
+    data: string;
+}
+
+/**
+ * Parse a `text/event-stream` body into discrete events. Events may be split
+ * across network chunks and carry multi-line `data:` fields.
+ */
+export async function* readServerSentEvents(
+    stream: AsyncIterable<Buffer | string>
+): AsyncGenerator<ServerSentEvent> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let eventName: string | undefined;
+    let dataLines: string[] = [];
+
+    const processLine = (rawLine: string): ServerSentEvent | undefined => {
+        const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+        if (!line) {
+            const event = dataLines.length ? { event: eventName, data: dataLines.join('\n') } : undefined;
+            eventName = undefined;
+            dataLines = [];
+            return event;
+        }
+        if (line.startsWith(':')) {
+            return undefined;
+        }
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        let value = separator === -1 ? '' : line.slice(separator + 1);
+        if (value.startsWith(' ')) {
+            value = value.slice(1);
+        }
+        if (field === 'data') {
+            dataLines.push(value);
+        } else if (field === 'event') {
+            eventName = value;
+        }
+        return undefined;
+    };
+
+    for await (const chunk of stream) {
+        buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+        let newlineIndex = buffer.indexOf('\n');
+        while (newlineIndex >= 0) {
+            const event = processLine(buffer.slice(0, newlineIndex));
+            buffer = buffer.slice(newlineIndex + 1);
+            if (event) {
+                yield event;
+            }
+            newlineIndex = buffer.indexOf('\n');
+        }
+    }
+
+    buffer += decoder.decode();
+    const trailing = processLine(buffer) ?? processLine('');
+    if (trailing) {
+        yield trailing;
+    }
+}
+
+/**
+ * Parse a newline-delimited JSON body (as used by Ollama) into objects, skipping malformed lines.
+ */
+export async function* readJsonLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<any> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const parse = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            return undefined;
+        }
+    };
+
+    for await (const chunk of stream) {
+        buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+        let newlineIndex = buffer.indexOf('\n');
+        while (newlineIndex >= 0) {
+            const value = parse(buffer.slice(0, newlineIndex));
+            buffer = buffer.slice(newlineIndex + 1);
+            if (value !== undefined) {
+                yield value;
+            }
+            newlineIndex = buffer.indexOf('\n');
+        }
+    }
+
+    const trailing = parse(buffer + decoder.decode());
+    if (trailing !== undefined) {
+        yield trailing;
+    }
+}
+
+/**
+ * Bridge a VS Code cancellation token to an AbortSignal usable by axios.
+ */
+export const linkCancellation = (cancelToken?: vscode.CancellationToken) => {
+    const controller = new AbortController();
+    const listener = cancelToken?.onCancellationRequested(() => controller.abort());
+    if (cancelToken?.isCancellationRequested) {
+        controller.abort();
+    }
+    return {
+        signal: controller.signal,
+        dispose: () => listener?.dispose()
+    };
+};
+
+/**
+ * Extract a readable message from a failed streaming request. With
+ * `responseType: 'stream'` the error body is still a stream, so it has to be drained first.
+ */
+export const describeStreamError = async (error: unknown): Promise<string> => {
+    if (!axios.isAxiosError(error)) {
+        return (error as Error).message;
+    }
+
+    const data: any = error.response?.data;
+    if (!data || typeof data[Symbol.asyncIterator] !== 'function') {
+        return data?.error?.message ?? error.message;
+    }
+
+    let body = '';
+    try {
+        for await (const chunk of data as AsyncIterable<Buffer | string>) {
+            body += chunk.toString();
+        }
+    } catch {
+        // Fall back to whatever was read before the stream broke.
+    }
+
+    try {
+        const parsed = JSON.parse(body);
+        const payload = Array.isArray(parsed) ? parsed[0] : parsed;
+        const message = payload?.error?.message ?? (typeof payload?.error === 'string' ? payload.error : undefined);
+        return message ?? (body.trim() || error.message);
+    } catch {
+        return body.trim() || error.message;
+    }
+};
@@ -1,4 +1,5 @@
 import type { ConversationMessage, MessageUsage } from '../context/ContextManager';
+import type { ProviderModel } from '../config/providers';
 import * as vscode from 'vscode';
 
 export interface ToolDefinition {
@@ -10,17 +11,53 @@ export interface ToolDefinition {
     };
 }
 
+/** Transport details of a failed call, attached to `❌` error responses for the retry policy. */
+export interface ProviderErrorInfo {
+    status?: number;
+    code?: string;
+    /** Wait requested by the server through `Retry-After` or rate-limit reset headers. */
+    retryAfterMs?: number;
+    message: string;
+}
+
 export interface ProviderResponse {
     message: ConversationMessage;
     raw: unknown;
     usage?: MessageUsage;
     toolCalls?: ConversationMessage['toolCalls'];
+    error?: ProviderErrorInfo;
+}
+
+export interface ProviderStreamDelta {
+    /** Drop everything streamed so far for this response; the request is being sent again. */
+    reset?: boolean;
+    content?: string;
+    toolCall?: {
+        index: number;
+        name?: string;
+    };
 }
 
+export type StreamHandler = (delta: ProviderStreamDelta) => void;
+
 export interface ChatProvider {
     sendChat(
         messages: ConversationMessage[],
         tools?: ToolDefinition[],
         cancelToken?: vscode.CancellationToken
     ): Promise<ProviderResponse>;
+
+    /**
+     * Streaming variant of sendChat. Text and tool-call deltas are reported through
+     * onDelta as they arrive; the resolved response carries the fully assembled message.
+     */
+    streamChat?(
+        messages: ConversationMessage[],
+        tools: ToolDefinition[],
+        onDelta: StreamHandler,
+        cancelToken?: vscode.CancellationToken
+    ): Promise<ProviderResponse>;
+
+    /** Discover the models currently offered by the endpoint. */
+    listModels?(): Promise<ProviderModel[]>;
 }
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Checkpoint, evictOldestCheckpoints } from '../handlers/CheckpointManager';
+
+const checkpoint = (id: string, createdAt: number, bytes: number): Checkpoint => ({
+    id,
+    label: id,
+    createdAt,
+    files: [{ path: `${id}.txt`, existed: true, encoding: 'utf8', content: 'x'.repeat(bytes) }]
+});
+
+test('the oldest checkpoints of any session are dropped until the total fits', () => {
+    const sessions = [
+        { id: 'a', checkpoints: [checkpoint('a1', 1, 40), checkpoint('a2', 4, 40)] },
+        { id: 'b', checkpoints: [checkpoint('b1', 2, 40), checkpoint('b2', 3, 40)] },
+        { id: 'c' }
+    ];
+    const changed = evictOldestCheckpoints(sessions, 100, 'a2');
+    assert.deepEqual([...changed.keys()], ['a', 'b']);
+    assert.deepEqual(changed.get('a')!.map((entry) => entry.id), ['a2']);
+    assert.deepEqual(changed.get('b')!.map((entry) => entry.id), ['b2']);
+    assert.equal(evictOldestCheckpoints(sessions, 160).size, 0);
+});
+
+test('the checkpoint just written is kept even when it alone is over budget', () => {
+    const sessions = [{ id: 'a', checkpoints: [checkpoint('a1', 1, 10), checkpoint('a2', 2, 500)] }];
+    assert.deepEqual(evictOldestCheckpoints(sessions, 100, 'a2').get('a')!.map((entry) => entry.id), ['a2']);
+});
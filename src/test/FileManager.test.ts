@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { FileManager } from '../tools/FileManager';
+
+/** A parent folder holding the workspace `ws` and a sibling `ws2` whose name shares its prefix. */
+const withSiblings = async (run: (parent: string, manager: FileManager) => Promise<void>) => {
+    const parent = await fs.mkdtemp(path.join(os.tmpdir(), 'idsibercoder-files-'));
+    try {
+        await fs.mkdir(path.join(parent, 'ws', 'src'), { recursive: true });
+        await fs.mkdir(path.join(parent, 'ws2'));
+        await fs.writeFile(path.join(parent, 'ws', 'src', 'a.txt'), 'inside\n', 'utf8');
+        await fs.writeFile(path.join(parent, 'ws2', 'secret'), 'outside\n', 'utf8');
+        await run(parent, new FileManager(path.join(parent, 'ws')));
+    } finally {
+        await fs.rm(parent, { recursive: true, force: true });
+    }
+};
+
+test('paths inside the workspace resolve', async () => {
+    await withSiblings(async (_parent, manager) => {
+        assert.equal((await manager.readFile('src/a.txt')).success, true);
+        assert.equal((await manager.readFile('src/../src/a.txt')).success, true);
+        assert.equal((await manager.listDirectory('.')).success, true);
+    });
+});
+
+test('a sibling folder sharing the workspace name prefix is outside the workspace', async () => {
+    await withSiblings(async (parent, manager) => {
+        const read = await manager.readFile('../ws2/secret');
+        assert.equal(read.success, false);
+        assert.match(read.error ?? '', /outside workspace/);
+
+        const written = await manager.writeFile(path.join(parent, 'ws2', 'new.txt'), 'x');
+        assert.equal(written.success, false);
+        await assert.rejects(fs.stat(path.join(parent, 'ws2', 'new.txt')));
+
+        assert.equal((await manager.readFile('../ws/src/a.txt')).success, true);
+    });
+});
+
+test('a workspace root with a trailing separator still resolves its own files', async () => {
+    await withSiblings(async (parent) => {
+        const manager = new FileManager(path.join(parent, 'ws') + path.sep);
+        assert.equal((await manager.readFile('src/a.txt')).success, true);
+        assert.equal((await manager.readFile('../ws2/secret')).success, false);
+    });
+});
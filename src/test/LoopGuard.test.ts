@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { ToolFunctionCall } from '../context/ContextManager';
+import { LoopGuard } from '../handlers/LoopGuard';
+
+const call = (name: string, args: Record<string, unknown> | string = {}): ToolFunctionCall => ({
+    function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) }
+});
+
+test('the iteration budget trips after maxIterations rounds and reset grants a new one', () => {
+    const guard = new LoopGuard({ maxIterations: 2, repeatLimit: 0 });
+    assert.equal(guard.recordRound([call('read_file', { file_path: 'a' })]), undefined);
+    assert.equal(guard.recordRound([call('read_file', { file_path: 'b' })]), undefined);
+    assert.deepEqual(guard.recordRound([call('read_file', { file_path: 'c' })]), { kind: 'iterations', iterations: 2 });
+
+    guard.reset();
+    assert.equal(guard.recordRound([call('read_file', { file_path: 'd' })]), undefined);
+    assert.deepEqual(guard.recordRound([call('read_file', { file_path: 'e' })]), { kind: 'iterations', iterations: 2 });
+});
+
+test('identical consecutive calls trip, with arguments compared as JSON', () => {
+    const guard = new LoopGuard({ maxIterations: 0, repeatLimit: 3 });
+    assert.equal(guard.recordRound([call('list_directory', '{"dir_path": "src"}')]), undefined);
+    assert.equal(guard.recordRound([call('list_directory', { dir_path: 'src' })]), undefined);
+    assert.deepEqual(guard.recordRound([call('list_directory', '{ "dir_path":"src" }')]), {
+        kind: 'repetition',
+        toolName: 'list_directory',
+        repeats: 3
+    });
+});
+
+test('a different call in between restarts the count', () => {
+    const guard = new LoopGuard({ maxIterations: 0, repeatLimit: 2 });
+    assert.equal(guard.recordRound([call('read_file', { file_path: 'a' })]), undefined);
+    assert.equal(guard.recordRound([call('read_file', { file_path: 'b' }), call('read_file', { file_path: 'a' })]), undefined);
+    assert.equal(guard.recordRound([call('read_file', { file_path: 'a' })])?.kind, 'repetition');
+});
+
+test('repeatLimit 1 trips on the first call and 0 disables the check', () => {
+    assert.equal(new LoopGuard({ maxIterations: 0, repeatLimit: 1 }).recordRound([call('read_file')])?.kind, 'repetition');
+
+    const off = new LoopGuard({ maxIterations: 0, repeatLimit: 0 });
+    for (let round = 0; round < 20; round += 1) {
+        assert.equal(off.recordRound([call('read_file')]), undefined);
+    }
+});
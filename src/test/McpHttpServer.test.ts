@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { McpHttpServer } from '../mcp/McpHttpServer';
+import { McpToolServer } from '../mcp/McpToolServer';
+import { JSON_RPC_ERRORS } from '../mcp/protocol';
+
+const silent = { info: () => undefined, warn: () => undefined, error: () => undefined };
+
+test('bodies that are not JSON-RPC messages are rejected as invalid requests', async () => {
+    const tools = new McpToolServer(
+        { listTools: () => [], callTool: async () => ({ content: [] }), closeSession: () => undefined },
+        { name: 'test', version: '0' }
+    );
+    const server = new McpHttpServer(tools, silent);
+    await server.start(0, 'secret');
+    try {
+        for (const body of ['null', '42', '"text"', '[]', '[null]', '[1, {"jsonrpc": "2.0", "method": "ping"}]']) {
+            const response = await fetch(server.url!, {
+                method: 'POST',
+                headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+                body
+            });
+            assert.equal(response.status, 400, body);
+            assert.equal((await response.json()).error.code, JSON_RPC_ERRORS.invalidRequest, body);
+        }
+    } finally {
+        await server.stop();
+    }
+});
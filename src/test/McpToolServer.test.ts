@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { McpServerSession, McpToolHost, McpToolServer } from '../mcp/McpToolServer';
+
+/** A host whose only tool waits until its request is aborted. */
+const waitingHost = (closed: string[]): McpToolHost => ({
+    listTools: () => [{ name: 'wait', inputSchema: { type: 'object' } }],
+    callTool: (_name, _args, _session, signal) =>
+        new Promise((resolve) =>
+            signal.addEventListener('abort', () => resolve({ content: [{ type: 'text', text: 'aborted' }], isError: true }))
+        ),
+    closeSession: (session) => closed.push(session.id)
+});
+
+const call = (id: number) => ({ jsonrpc: '2.0' as const, id, method: 'tools/call', params: { name: 'wait' } });
+
+test('notifications/cancelled aborts the matching request of that session only', async () => {
+    const server = new McpToolServer(waitingHost([]), { name: 'test', version: '0' });
+    const session: McpServerSession = { id: 'a', initialized: true };
+    const other: McpServerSession = { id: 'b', initialized: true };
+    const pending = server.handle(call(1), session);
+    const untouched = server.handle(call(1), other);
+
+    await server.handle({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 2 } }, session);
+    await server.handle({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } }, session);
+    assert.equal((await pending)?.result.content[0].text, 'aborted');
+
+    server.closeSession(other);
+    assert.equal((await untouched)?.result.isError, true);
+});
+
+test('the transport signal and closeSession abort running calls', async () => {
+    const closed: string[] = [];
+    const server = new McpToolServer(waitingHost(closed), { name: 'test', version: '0' });
+    const session: McpServerSession = { id: 'a', initialized: true };
+
+    const connection = new AbortController();
+    const dropped = server.handle(call(1), session, connection.signal);
+    connection.abort();
+    assert.equal((await dropped)?.result.content[0].text, 'aborted');
+
+    const running = server.handle(call(2), session);
+    server.closeSession(session);
+    assert.equal((await running)?.result.content[0].text, 'aborted');
+    assert.deepEqual(closed, ['a']);
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { describeSessionGrant, PermissionPolicy, toToolPermissionRules } from '../handlers/PermissionPolicy';
+
+test('first matching rule wins and unmatched calls are allowed', () => {
+    const policy = new PermissionPolicy([
+        { tool: 'write_file', path: 'src/**', level: 'allow' },
+        { tool: 'write_file', level: 'ask' },
+        { tool: 'mcp__github__*', level: 'deny' }
+    ]);
+    assert.equal(policy.evaluate('write_file', { paths: ['src/a.ts'] }).level, 'allow');
+    assert.equal(policy.evaluate('write_file', { paths: ['src/a.ts', 'package.json'] }).level, 'ask');
+    assert.equal(policy.evaluate('mcp__github__create_issue', { paths: [] }).level, 'deny');
+    assert.equal(policy.evaluate('read_file', { paths: ['.env'] }).level, 'allow');
+});
+
+test('command rules match normalised commands', () => {
+    const policy = new PermissionPolicy([
+        { tool: 'execute_cli', command: 'git push*', level: 'ask' },
+        { tool: 'execute_cli', command: '/^npm (test|run lint)$/', level: 'allow' }
+    ]);
+    assert.equal(policy.evaluate('execute_cli', { paths: [], command: '  git   push origin' }).level, 'ask');
+    assert.equal(policy.evaluate('execute_cli', { paths: [], command: 'npm test' }).level, 'allow');
+    assert.equal(policy.evaluate('execute_cli', { paths: [] }).level, 'allow');
+});
+
+test('a deny rule on a path covers copying it and searching it', () => {
+    const policy = new PermissionPolicy([
+        { tool: '*', path: '.env', level: 'deny' },
+        { tool: '*', level: 'allow' }
+    ]);
+    // toolSubject() puts the copy_file source next to its destination.
+    assert.equal(policy.evaluate('copy_file', { paths: ['.env', 'leak.txt'] }).level, 'deny');
+    assert.equal(policy.evaluate('copy_file', { paths: ['a.txt', 'b.txt'] }).level, 'allow');
+    assert.equal(policy.evaluate('search_workspace', { paths: ['**/.env'] }).level, 'deny');
+    assert.deepEqual(policy.deniedPaths('search_workspace'), ['.env']);
+    assert.deepEqual(new PermissionPolicy([{ tool: 'read_file', path: '.env', level: 'deny' }]).deniedPaths('find_files'), []);
+});
+
+test('send_process_input input is matched by command rules', () => {
+    const policy = new PermissionPolicy([
+        { tool: 'send_process_input', command: 'y', level: 'allow' },
+        { tool: 'send_process_input', level: 'ask' }
+    ]);
+    assert.equal(policy.evaluate('send_process_input', { paths: [], command: 'y' }).level, 'allow');
+    assert.equal(policy.evaluate('send_process_input', { paths: [], command: 'sudo rm -rf /' }).level, 'ask');
+});
+
+test('session grants cover only the rule that asked, in their own scope', () => {
+    const rules = toToolPermissionRules([
+        { tool: 'execute_cli', command: 'git push*', level: 'ask' },
+        { tool: 'execute_cli', level: 'ask' }
+    ]);
+    const policy = new PermissionPolicy(rules);
+    const harmless = { paths: [], command: 'ls' };
+    const push = { paths: [], command: 'git push origin main' };
+
+    policy.grantForSession('chat-1', 'execute_cli', policy.evaluate('execute_cli', harmless).rule!);
+    assert.deepEqual(policy.evaluate('execute_cli', harmless, 'chat-1'), {
+        level: 'allow',
+        rule: rules[1],
+        grantedForSession: true
+    });
+    assert.equal(policy.evaluate('execute_cli', push, 'chat-1').level, 'ask');
+    assert.equal(policy.evaluate('execute_cli', harmless, 'mcp:1').level, 'ask');
+
+    policy.grantForSession('chat-1', 'execute_cli', rules[0]);
+    assert.equal(policy.evaluate('execute_cli', push, 'chat-1').level, 'allow');
+
+    policy.clearSession('chat-1');
+    assert.equal(policy.evaluate('execute_cli', harmless, 'chat-1').level, 'ask');
+});
+
+test('grants survive a settings reload that keeps the rule', () => {
+    const rule = { tool: 'write_file', path: 'docs/**', level: 'ask' as const };
+    const policy = new PermissionPolicy([rule]);
+    policy.grantForSession('chat-1', 'write_file', rule);
+    policy.setRules(toToolPermissionRules([{ ...rule }]));
+    assert.equal(policy.evaluate('write_file', { paths: ['docs/a.md'] }, 'chat-1').level, 'allow');
+});
+
+test('the card describes what a grant covers', () => {
+    assert.match(describeSessionGrant('execute_cli', { tool: 'execute_cli', command: 'git push*', level: 'ask' }), /commands matching git push\*/);
+    assert.match(describeSessionGrant('write_file', { tool: '*', level: 'ask' }), /write_file calls under this rule/);
+});
+
+test('invalid rule entries are dropped', () => {
+    assert.deepEqual(toToolPermissionRules([{ tool: ' read_file ', level: 'deny', path: ' ' }, { tool: 'x' }, null, 'y']), [
+        { tool: 'read_file', path: undefined, command: undefined, level: 'deny' }
+    ]);
+});
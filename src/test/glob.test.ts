@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { compileGlobs, GitignoreRules, globToRegExp, walkWorkspace } from '../tools/glob';
+
+const matches = (glob: string, relativePath: string) => globToRegExp(glob).test(relativePath);
+
+test('globToRegExp handles stars, globstars, braces and classes', () => {
+    assert.equal(matches('src/*.ts', 'src/a.ts'), true);
+    assert.equal(matches('src/*.ts', 'src/sub/a.ts'), false);
+    assert.equal(matches('src/**/*.ts', 'src/a.ts'), true);
+    assert.equal(matches('src/**/*.ts', 'src/sub/deep/a.ts'), true);
+    assert.equal(matches('src/**', 'src/sub/a.ts'), true);
+    assert.equal(matches('docs/', 'docs/guide/intro.md'), true);
+    assert.equal(matches('*.{ts,js}', 'a.js'), true);
+    assert.equal(matches('*.{ts,js}', 'a.json'), false);
+    assert.equal(matches('file?.txt', 'file1.txt'), true);
+    assert.equal(matches('[!a]*.md', 'a.md'), false);
+    assert.equal(matches('[!a]*.md', 'b.md'), true);
+    assert.equal(matches('./a.(1).txt', 'a.(1).txt'), true);
+});
+
+test('compileGlobs matches bare names at any depth', () => {
+    const isMatch = compileGlobs(['*.log', ' ', 'build/**']);
+    assert.equal(isMatch('debug.log'), true);
+    assert.equal(isMatch('logs/deep/debug.log'), true);
+    assert.equal(isMatch('build/out/a.js'), true);
+    assert.equal(isMatch('src/build/a.js'), false);
+    assert.equal(compileGlobs([])('anything'), false);
+});
+
+test('gitignore rules honour negation, directory-only and anchored patterns', () => {
+    const rules = new GitignoreRules('pkg', 'dist/\n*.log\n!keep.log\n/local.txt\n# comment\n');
+    assert.equal(rules.decide('pkg/dist', true), true);
+    assert.equal(rules.decide('pkg/dist', false), undefined);
+    assert.equal(rules.decide('pkg/a/b.log', false), true);
+    assert.equal(rules.decide('pkg/keep.log', false), false);
+    assert.equal(rules.decide('pkg/local.txt', false), true);
+    assert.equal(rules.decide('pkg/sub/local.txt', false), undefined);
+});
+
+test('walkWorkspace skips .git, excluded globs and ignored paths', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'idsibercoder-glob-'));
+    try {
+        const files: Record<string, string> = {
+            '.gitignore': 'out/\n',
+            '.git/HEAD': 'ref\n',
+            'out/a.js': '',
+            'src/a.ts': '',
+            'src/b.ts': '',
+            'src/sub/.gitignore': '*.tmp\n',
+            'src/sub/c.tmp': '',
+            'src/sub/d.ts': '',
+            'node_modules/x/index.js': ''
+        };
+        for (const [name, content] of Object.entries(files)) {
+            await fs.mkdir(path.dirname(path.join(root, name)), { recursive: true });
+            await fs.writeFile(path.join(root, name), content, 'utf8');
+        }
+
+        const walked: string[] = [];
+        for await (const entry of walkWorkspace(root, '', { exclude: ['node_modules'] })) {
+            walked.push(entry.relativePath);
+        }
+        assert.deepEqual(walked, ['.gitignore', 'src/a.ts', 'src/b.ts', 'src/sub/.gitignore', 'src/sub/d.ts']);
+
+        const shallow: string[] = [];
+        for await (const entry of walkWorkspace(root, 'src', { maxDepth: 0, includeDirectories: true })) {
+            shallow.push(entry.relativePath);
+        }
+        assert.deepEqual(shallow, ['src/a.ts', 'src/b.ts', 'src/sub']);
+    } finally {
+        await fs.rm(root, { recursive: true, force: true });
+    }
+});
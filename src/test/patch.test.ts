@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { applyHunks, parseUnifiedDiff } from '../tools/patch';
+import { FileManager } from '../tools/FileManager';
+
+const NEW_FILE_DIFF = [
+    'diff --git a/new.txt b/new.txt',
+    'new file mode 100644',
+    'index 0000000..3b18e51',
+    '--- /dev/null',
+    '+++ b/new.txt',
+    '@@ -0,0 +1,2 @@',
+    '+hello',
+    '+world',
+    ''
+].join('\n');
+
+const DELETED_FILE_DIFF = [
+    'diff --git a/old.txt b/old.txt',
+    'deleted file mode 100644',
+    'index 3b18e51..0000000',
+    '--- a/old.txt',
+    '+++ /dev/null',
+    '@@ -1,2 +0,0 @@',
+    '-hello',
+    '-world',
+    ''
+].join('\n');
+
+const withWorkspace = async (files: Record<string, string>, run: (root: string, manager: FileManager) => Promise<void>) => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'idsibercoder-patch-'));
+    try {
+        for (const [name, content] of Object.entries(files)) {
+            await fs.writeFile(path.join(root, name), content, 'utf8');
+        }
+        await run(root, new FileManager(root));
+    } finally {
+        await fs.rm(root, { recursive: true, force: true });
+    }
+};
+
+test('a git new-file diff is one section without an old path', () => {
+    const files = parseUnifiedDiff(NEW_FILE_DIFF);
+    assert.equal(files.length, 1);
+    assert.equal(files[0].oldPath, undefined);
+    assert.equal(files[0].newPath, 'new.txt');
+    assert.equal(files[0].hunks.length, 1);
+});
+
+test('a git deleted-file diff is one section without a new path', () => {
+    const files = parseUnifiedDiff(DELETED_FILE_DIFF);
+    assert.equal(files.length, 1);
+    assert.equal(files[0].oldPath, 'old.txt');
+    assert.equal(files[0].newPath, undefined);
+    assert.deepEqual(files[0].hunks[0].lines, ['-hello', '-world']);
+});
+
+test('plain diffs open one section per ---/+++ pair', () => {
+    const files = parseUnifiedDiff(
+        ['--- a/a.txt', '+++ b/a.txt', '@@ -1 +1 @@', '-a', '+A', '--- a/b.txt', '+++ b/b.txt', '@@ -1 +1 @@', '-b', '+B'].join('\n')
+    );
+    assert.deepEqual(
+        files.map((file) => [file.oldPath, file.newPath]),
+        [
+            ['a.txt', 'a.txt'],
+            ['b.txt', 'b.txt']
+        ]
+    );
+});
+
+test('a path in two sections is rejected', () => {
+    assert.throws(
+        () => parseUnifiedDiff(`${DELETED_FILE_DIFF}${DELETED_FILE_DIFF}`),
+        /old\.txt appears in more than one file section/
+    );
+});
+
+test('hunks apply with an offset and with trimmed context', () => {
+    const original = ['one', 'two', 'three', 'four'];
+    const [file] = parseUnifiedDiff(['--- a/x', '+++ b/x', '@@ -1,2 +1,2 @@', ' three  ', '-four', '+FOUR'].join('\n'));
+    const result = applyHunks(original, file.hunks, 2);
+    assert.deepEqual(result.lines, ['one', 'two', 'three', 'FOUR']);
+    assert.equal(result.results[0].match, 'whitespace');
+    assert.equal(result.results[0].offset, 2);
+});
+
+test('applyPatch deletes a file from a git deletion diff once', async () => {
+    await withWorkspace({ 'old.txt': 'hello\nworld\n' }, async (root, manager) => {
+        const result = await manager.applyPatch(DELETED_FILE_DIFF);
+        assert.equal(result.success, true, result.error);
+        assert.equal(result.message, 'Patch applied to 1 file(s).');
+        await assert.rejects(fs.stat(path.join(root, 'old.txt')));
+    });
+});
+
+test('applyPatch creates a file from a git new-file diff', async () => {
+    await withWorkspace({}, async (root, manager) => {
+        const result = await manager.applyPatch(NEW_FILE_DIFF);
+        assert.equal(result.success, true, result.error);
+        assert.equal(result.message, 'Patch applied to 1 file(s).');
+        assert.equal(await fs.readFile(path.join(root, 'new.txt'), 'utf8'), 'hello\nworld\n');
+    });
+});
+
+test('applyPatch changes nothing when a write target cannot be created', async () => {
+    await withWorkspace({ 'a.txt': 'a\n', blocker: 'not a directory\n' }, async (root, manager) => {
+        const patch = [
+            '--- a/a.txt',
+            '+++ b/a.txt',
+            '@@ -1 +1 @@',
+            '-a',
+            '+A',
+            '--- /dev/null',
+            '+++ b/blocker/new.txt',
+            '@@ -0,0 +1 @@',
+            '+new'
+        ].join('\n');
+        const result = await manager.applyPatch(patch);
+        assert.equal(result.success, false);
+        assert.match(result.content ?? '', /blocker is not a directory/);
+        assert.equal(await fs.readFile(path.join(root, 'a.txt'), 'utf8'), 'a\n');
+    });
+});
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { anthropicStreamError, computeRetryDelay, describeProviderError } from '../providers/retry';
+
+const policy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+test('Anthropic stream error events keep the status of their type', () => {
+    const overloaded = describeProviderError(anthropicStreamError({ type: 'overloaded_error', message: 'Overloaded' }));
+    assert.deepEqual(overloaded, { status: 529, message: 'Overloaded' });
+    assert.notEqual(computeRetryDelay(1, policy, overloaded), undefined);
+
+    const apiError = describeProviderError(anthropicStreamError({ type: 'api_error', message: 'Internal' }));
+    assert.equal(apiError.status, 500);
+    assert.notEqual(computeRetryDelay(1, policy, apiError), undefined);
+    assert.equal(computeRetryDelay(3, policy, apiError), undefined);
+});
+
+test('stream errors that a retry cannot fix are surfaced as-is', () => {
+    const invalid = describeProviderError(anthropicStreamError({ type: 'invalid_request_error', message: 'Bad' }));
+    assert.equal(invalid.status, 400);
+    assert.equal(computeRetryDelay(1, policy, invalid), undefined);
+
+    const unknown = describeProviderError(anthropicStreamError(undefined));
+    assert.deepEqual(unknown, { status: undefined, message: 'Streaming response failed' });
+    assert.equal(computeRetryDelay(1, policy, unknown), undefined);
+});
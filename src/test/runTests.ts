@@ -0,0 +1,15 @@
+import * as path from 'path';
+import { readdirSync } from 'fs';
+import { spawnSync } from 'child_process';
+
+/**
+ * Runs the unit tests compiled next to this file (`*.test.js`, built by `npm run compile`) with
+ * Node's built-in test runner. Only modules that do not import `vscode` can be loaded this way.
+ */
+const files = readdirSync(__dirname)
+    .filter((name) => name.endsWith('.test.js'))
+    .sort()
+    .map((name) => path.join(__dirname, name));
+
+const result = spawnSync(process.execPath, ['--test', ...files], { stdio: 'inherit' });
+process.exit(result.status ?? 1);
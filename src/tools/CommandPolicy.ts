@@ -0,0 +1,527 @@
+import * as path from 'path';
+import type { PermissionLevel } from '../handlers/PermissionPolicy';
+
+/** One simple command of a command line: `git push --force` in `npm test && git push --force`. */
+export interface CommandSegment {
+    /** Program name without its directory (and without `.exe`), e.g. `git` for `/usr/bin/git`. */
+    program: string;
+    /** First positional argument, e.g. `push` in `git push --force origin`. */
+    subcommand?: string;
+    /** Positional arguments, including the subcommand. */
+    args: string[];
+    /** Flags with combined short flags expanded (`-rf` also yields `-r` and `-f`) and `=values` dropped. */
+    flags: string[];
+    /** Files the segment redirects to or from (`> out.log`, `< input.txt`). */
+    redirects: string[];
+    /** True when the segment reads the previous segment's output through `|`, or is a shell running `<(…)`. */
+    piped: boolean;
+    /**
+     * True when the segment runs a program it did not get from a file: a shell fed through a pipe or
+     * `<(…)`, a shell whose `-c` script is built from a substitution, or an interpreter such as
+     * `python3` reading its script from a pipe.
+     */
+    runsInput: boolean;
+    /** The segment's words, for messages. */
+    text: string;
+}
+
+export interface CommandRule {
+    /** Program names (`*` wildcards); omitted means any program. */
+    program?: string[];
+    /** First positional arguments, e.g. `push`. */
+    subcommand?: string[];
+    /** The rule applies when the segment has any of these flags. */
+    flags?: string[];
+    /** The rule applies when any positional argument matches one of these patterns. */
+    args?: string[];
+    /** The rule applies when any redirect target matches one of these patterns. */
+    redirects?: string[];
+    /** `true`: only segments fed through a pipe; `false`: only segments that are not. */
+    piped?: boolean;
+    /** `true`: only segments that run a piped or substituted script (`curl … | python3`); `false`: only segments that do not. */
+    runsInput?: boolean;
+    level: PermissionLevel;
+    /** Told to the user and the model when the rule blocks or asks. */
+    reason?: string;
+}
+
+export interface CommandVerdict {
+    /** The strictest level over all segments. */
+    level: PermissionLevel;
+    /** One line per segment that got `level` (empty for `allow`). */
+    reasons: string[];
+}
+
+const SHELLS = ['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish'];
+// Interpreters that read their program from stdin when given no script (or `-`).
+const INTERPRETERS = ['python', 'python2', 'python3', 'python3.*', 'node', 'nodejs', 'deno', 'bun', 'perl', 'ruby', 'php', 'lua', 'Rscript', 'pwsh', 'powershell'];
+
+/**
+ * Evaluated after the user's `idSiberCoder.commandPolicy.rules`, so an explicit user rule can
+ * override any of them.
+ */
+export const BUILTIN_COMMAND_RULES: CommandRule[] = [
+    { program: ['sudo', 'su', 'doas'], level: 'deny', reason: 'Runs with elevated privileges.' },
+    { program: ['mkfs', 'mkfs.*', 'fdisk', 'sfdisk', 'parted', 'wipefs'], level: 'deny', reason: 'Formats or partitions disks.' },
+    { program: ['dd'], args: ['of=/dev/*'], level: 'deny', reason: 'Writes to a raw device.' },
+    { redirects: ['/dev/sd*', '/dev/nvme*', '/dev/disk*', '/dev/hd*'], level: 'deny', reason: 'Writes to a raw device.' },
+    { program: ['shutdown', 'reboot', 'poweroff', 'halt'], level: 'deny', reason: 'Shuts down or restarts the machine.' },
+    {
+        program: ['rm'],
+        flags: ['-r', '-R', '--recursive'],
+        args: ['/', '/\\*', '~', '~/', '~/\\*', '$HOME', '$HOME/', '$HOME/\\*'],
+        level: 'deny',
+        reason: 'Recursively deletes the filesystem root or the home directory.'
+    },
+    {
+        program: ['rm'],
+        flags: ['-r', '-R', '--recursive'],
+        args: ['/*', '~*', '$HOME*', '..', '../*', '.', './', '\\*', './\\*'],
+        level: 'ask',
+        reason: 'Recursively deletes files outside the workspace or the whole current directory.'
+    },
+    { runsInput: true, level: 'deny', reason: 'Runs a script received through a pipe or a substitution, such as a downloaded installer.' },
+    {
+        program: ['git'],
+        subcommand: ['push'],
+        flags: ['-f', '--force', '--force-with-lease', '--mirror', '-d', '--delete'],
+        level: 'ask',
+        reason: 'Rewrites or deletes history on the remote.'
+    },
+    { program: ['git'], subcommand: ['push'], args: ['+*', ':*'], level: 'ask', reason: 'Rewrites or deletes history on the remote.' },
+    { program: ['git'], subcommand: ['reset'], flags: ['--hard'], level: 'ask', reason: 'Discards uncommitted changes.' },
+    { program: ['git'], subcommand: ['clean'], flags: ['-f', '--force'], level: 'ask', reason: 'Deletes untracked files.' }
+];
+
+const LEVELS: PermissionLevel[] = ['allow', 'ask', 'deny'];
+
+const toPatterns = (value: unknown): string[] | undefined => {
+    const list = (Array.isArray(value) ? value : [value]).filter(
+        (entry): entry is string => typeof entry === 'string' && entry.trim().length > 0
+    );
+    return list.length ? list.map((entry) => entry.trim()) : undefined;
+};
+
+export const toCommandRules = (raw: unknown): CommandRule[] => {
+    if (!Array.isArray(raw)) {
+        return [];
+    }
+    return raw.flatMap((value): CommandRule[] => {
+        if (!value || typeof value !== 'object') {
+            return [];
+        }
+        const entry = value as Record<string, unknown>;
+        const level = LEVELS.find((candidate) => candidate === entry.level);
+        if (!level) {
+            return [];
+        }
+        return [
+            {
+                program: toPatterns(entry.program),
+                subcommand: toPatterns(entry.subcommand),
+                flags: toPatterns(entry.flags),
+                args: toPatterns(entry.args),
+                redirects: toPatterns(entry.redirects),
+                piped: typeof entry.piped === 'boolean' ? entry.piped : undefined,
+                runsInput: typeof entry.runsInput === 'boolean' ? entry.runsInput : undefined,
+                level,
+                reason: typeof entry.reason === 'string' && entry.reason.trim() ? entry.reason.trim() : undefined
+            }
+        ];
+    });
+};
+
+type Token = { kind: 'word' | 'operator' | 'redirect'; value: string };
+type Redirect = { operator: string; target: string };
+
+const OPERATORS = ['&&', '||', '|&', ';;', '|', ';', '&', '\n', '(', ')'];
+const REDIRECT = /^(?:&>>|&>|>>|>&|>\||<<<|<<-|<<|<>|<&|>|<)/;
+// Stripped from the front of a segment so `if grep …; then rm …; fi` still sees `grep` and `rm`.
+const KEYWORDS = new Set(['!', '{', '}', 'if', 'then', 'else', 'elif', 'while', 'until', 'do', 'time']);
+// Segments that are not commands at all.
+const SKIPPED = new Set(['fi', 'done', 'esac', 'for', 'case', 'select', 'function', 'in']);
+// Programs that run the rest of their arguments as another command.
+const WRAPPERS = new Set(['sudo', 'doas', 'env', 'nohup', 'nice', 'timeout', 'xargs', 'exec', 'command', 'builtin', 'stdbuf', 'time', 'watch']);
+// Options placed before the subcommand that take the next word as their value (`git -C dir push`).
+const GLOBAL_VALUE_OPTIONS: Record<string, Set<string>> = {
+    git: new Set(['-C', '-c', '--git-dir', '--work-tree', '--namespace', '--exec-path', '--config-env'])
+};
+// `find` options whose following words, up to `;` or `+`, are a command it runs.
+const FIND_EXEC = new Set(['-exec', '-execdir', '-ok', '-okdir']);
+const MAX_DEPTH = 4;
+
+/** Index just past the `$(…)`, `<(…)`, `>(…)` or backtick substitution starting at `start`; its body goes to `nested`. */
+const readSubstitution = (source: string, start: number, nested: string[]): number => {
+    if (source[start] === '`') {
+        const end = source.indexOf('`', start + 1);
+        const stop = end === -1 ? source.length : end;
+        nested.push(source.slice(start + 1, stop));
+        return stop + 1;
+    }
+    let depth = 1;
+    let index = start + 2;
+    let quote: string | undefined;
+    for (; index < source.length && depth > 0; index++) {
+        const char = source[index];
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            } else if (char === '\\' && quote === '"') {
+                index++;
+            }
+        } else if (char === "'" || char === '"') {
+            quote = char;
+        } else if (char === '\\') {
+            index++;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        }
+    }
+    nested.push(source.slice(start + 2, depth === 0 ? index - 1 : index));
+    return index;
+};
+
+/** Split a command line into words, operators and redirects, roughly the way a POSIX shell would. */
+const tokenize = (source: string, nested: string[]): Token[] => {
+    const tokens: Token[] = [];
+    let word = '';
+    let inWord = false;
+    const endWord = () => {
+        if (inWord) {
+            tokens.push({ kind: 'word', value: word });
+        }
+        word = '';
+        inWord = false;
+    };
+
+    let index = 0;
+    while (index < source.length) {
+        const char = source[index];
+        const rest = source.slice(index);
+        if (char === '\\') {
+            if (source[index + 1] !== '\n') {
+                word += source[index + 1] ?? '';
+                inWord = true;
+            }
+            index += 2;
+        } else if (char === "'") {
+            const end = source.indexOf("'", index + 1);
+            const stop = end === -1 ? source.length : end;
+            word += source.slice(index + 1, stop);
+            inWord = true;
+            index = stop + 1;
+        } else if (char === '"') {
+            inWord = true;
+            index++;
+            while (index < source.length && source[index] !== '"') {
+                if (source[index] === '\\' && index + 1 < source.length) {
+                    word += source[index + 1];
+                    index += 2;
+                } else if (source.startsWith('$(', index) || source[index] === '`') {
+                    const end = readSubstitution(source, index, nested);
+                    word += source.slice(index, end);
+                    index = end;
+                } else {
+                    word += source[index++];
+                }
+            }
+            index++;
+        } else if (rest.startsWith('$(') || rest.startsWith('<(') || rest.startsWith('>(') || char === '`') {
+            // Process substitutions stay in the word, so `bash <(curl …)` can tell it runs their output.
+            const end = readSubstitution(source, index, nested);
+            word += source.slice(index, end);
+            inWord = true;
+            index = end;
+        } else if (char === '#' && !inWord) {
+            while (index < source.length && source[index] !== '\n') {
+                index++;
+            }
+        } else if (char === '<' || char === '>' || rest.startsWith('&>')) {
+            // A word made only of digits right before the operator is a file descriptor (`2>`).
+            if (inWord && /^\d+$/.test(word)) {
+                word = '';
+                inWord = false;
+            } else {
+                endWord();
+            }
+            const operator = REDIRECT.exec(rest)?.[0] ?? char;
+            tokens.push({ kind: 'redirect', value: operator });
+            index += operator.length;
+        } else {
+            const operator = OPERATORS.find((candidate) => rest.startsWith(candidate));
+            if (operator) {
+                endWord();
+                tokens.push({ kind: 'operator', value: operator });
+                index += operator.length;
+            } else if (/\s/.test(char)) {
+                endWord();
+                index++;
+            } else {
+                word += char;
+                inWord = true;
+                index++;
+            }
+        }
+    }
+    endWord();
+    return tokens;
+};
+
+const isAssignment = (word: string) => /^[A-Za-z_][A-Za-z0-9_]*=/.test(word);
+
+/** `${HOME}` → `$HOME`, so rules only need to spell a variable one way. */
+const normalizeVariables = (word: string) => word.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, '$$$1');
+
+const isProcessSubstitution = (word: string) => word.startsWith('<(');
+
+const hasSubstitution = (word: string) => word.includes('$(') || word.includes('`');
+
+/**
+ * Collapse `//` and resolve `.`/`..` in absolute, home-relative and `./` paths, so `rm -rf //` or
+ * `rm -rf /tmp/..` meet the same rules as `rm -rf /`. Other words (URLs, refspecs) are left alone.
+ */
+const normalizePath = (word: string) => {
+    const home = /^(?:~|\$HOME)(?=\/)/.exec(word)?.[0];
+    if (home) {
+        return home + path.posix.normalize(word.slice(home.length));
+    }
+    return /^\.{0,2}\//.test(word) ? path.posix.normalize(word) : word;
+};
+
+const isProgram = (program: string, names: string[]) =>
+    names.some((name) => (name.endsWith('*') ? program.startsWith(name.slice(0, -1)) : program === name));
+
+const toSegments = (rawWords: string[], redirectList: Redirect[], fedByPipe: boolean, depth: number): CommandSegment[] => {
+    const input = rawWords.map(normalizeVariables);
+    const redirects = redirectList.map((redirect) => normalizePath(normalizeVariables(redirect.target)));
+    const redirectText = redirectList.map((redirect) => `${redirect.operator} ${redirect.target}`);
+    let start = 0;
+    while (start < input.length && (isAssignment(input[start]) || KEYWORDS.has(input[start]))) {
+        start++;
+    }
+    const words = input.slice(start);
+    if (!words.length) {
+        // A bare redirect such as `> /dev/sda` still writes somewhere.
+        return redirects.length
+            ? [{ program: '', args: [], flags: [], redirects, piped: fedByPipe, runsInput: false, text: redirectText.join(' ') }]
+            : [];
+    }
+    if (SKIPPED.has(words[0])) {
+        return [];
+    }
+
+    const program = words[0].replace(/^.*[\\/]/, '').replace(/\.exe$/i, '');
+    const args: string[] = [];
+    const flags: string[] = [];
+    const globalValueOptions = GLOBAL_VALUE_OPTIONS[program];
+    let endOfFlags = false;
+    for (let index = 1; index < words.length; index++) {
+        const word = words[index];
+        if (endOfFlags || !word.startsWith('-') || word === '-') {
+            args.push(normalizePath(word));
+        } else if (globalValueOptions?.has(word) && !args.length) {
+            // The value is not the subcommand.
+            flags.push(word);
+            index++;
+        } else if (word === '--') {
+            endOfFlags = true;
+        } else if (word.startsWith('--')) {
+            flags.push(word.split('=')[0]);
+        } else {
+            flags.push(word);
+            if (/^-[A-Za-z]{2,}$/.test(word)) {
+                flags.push(...[...word.slice(1)].map((letter) => `-${letter}`));
+            }
+        }
+    }
+    // A shell reading `<(…)`, as an argument or through `<`, runs another command's output like `curl … | sh`.
+    const runsSubstitution =
+        (SHELLS.includes(program) || program === 'source' || program === '.') &&
+        [...args, ...redirects].some(isProcessSubstitution);
+    const piped = fedByPipe || runsSubstitution;
+    const scriptFlag = words.findIndex((word) => /^-[a-z]*c[a-z]*$/.test(word));
+    const script = SHELLS.includes(program) && scriptFlag > 0 ? words[scriptFlag + 1] : undefined;
+    // `sh -c "$(curl …)"` runs a download just like `curl … | sh`.
+    const runsInput =
+        ((SHELLS.includes(program) || program === 'source' || program === '.') &&
+            (piped || (script !== undefined && hasSubstitution(script)))) ||
+        (isProgram(program, INTERPRETERS) && fedByPipe && (!args.length || args[0] === '-'));
+    const segments: CommandSegment[] = [
+        { program, subcommand: args[0], args, flags, redirects, piped, runsInput, text: [...words, ...redirectText].join(' ') }
+    ];
+    if (depth >= MAX_DEPTH) {
+        return segments;
+    }
+
+    if (WRAPPERS.has(program)) {
+        // Skip the wrapper's own flags, assignments and numbers (`timeout 10`, `nice -n 5`).
+        let next = 1;
+        while (next < words.length && (words[next].startsWith('-') || isAssignment(words[next]) || /^[\d.]+[smhd]?$/.test(words[next]))) {
+            next++;
+        }
+        if (next < words.length) {
+            segments.push(...toSegments(words.slice(next), [], fedByPipe, depth + 1));
+        }
+    }
+    if (script !== undefined) {
+        segments.push(...parseSegments(script, depth + 1));
+    }
+    if (program === 'eval' && args.length) {
+        segments.push(...parseSegments(args.join(' '), depth + 1));
+    }
+    if (program === 'find') {
+        for (let index = 1; index < words.length; index++) {
+            if (!FIND_EXEC.has(words[index])) {
+                continue;
+            }
+            let end = index + 1;
+            while (end < words.length && words[end] !== ';' && words[end] !== '+') {
+                end++;
+            }
+            if (end > index + 1) {
+                segments.push(...toSegments(words.slice(index + 1, end), [], false, depth + 1));
+            }
+            index = end;
+        }
+    }
+    return segments;
+};
+
+const parseSegments = (source: string, depth: number): CommandSegment[] => {
+    const nested: string[] = [];
+    const tokens = tokenize(source, nested);
+    const segments: CommandSegment[] = [];
+
+    let words: string[] = [];
+    let redirects: Redirect[] = [];
+    let pendingRedirect: string | undefined;
+    let piped = false;
+    const flush = () => {
+        segments.push(...toSegments(words, redirects, piped, depth));
+        words = [];
+        redirects = [];
+        pendingRedirect = undefined;
+    };
+    for (const token of tokens) {
+        if (token.kind === 'redirect') {
+            pendingRedirect = token.value;
+        } else if (token.kind === 'operator') {
+            flush();
+            piped = token.value === '|' || token.value === '|&';
+        } else if (pendingRedirect !== undefined) {
+            // `2>&1` duplicates a descriptor and a here-document's word is only a delimiter.
+            const duplicate = pendingRedirect.endsWith('&') && /^(\d+|-)$/.test(token.value);
+            if (!duplicate && !pendingRedirect.startsWith('<<')) {
+                redirects.push({ operator: pendingRedirect, target: token.value });
+            }
+            pendingRedirect = undefined;
+        } else {
+            words.push(token.value);
+        }
+    }
+    flush();
+
+    if (depth < MAX_DEPTH) {
+        for (const inner of nested) {
+            segments.push(...parseSegments(inner, depth + 1));
+        }
+    }
+    return segments;
+};
+
+/**
+ * Split a command line into its simple commands: `&&`, `||`, `;`, `|` and `&` separate segments,
+ * and `$(…)` / backtick substitutions, `sh -c '…'`, `eval …` and the command behind wrappers such
+ * as `env`, `xargs` or `timeout` are parsed into segments of their own. This is a best-effort
+ * reading for policy checks, not a full shell grammar.
+ */
+export const parseCommand = (command: string): CommandSegment[] => parseSegments(command, 0);
+
+/** `*` matches anything; `\\*` is a literal star (as in `rm -rf *`). */
+const wildcard = (pattern: string) =>
+    new RegExp(
+        `^${pattern
+            .split(/(?<!\\)\*/)
+            .map((part) => part.replace(/\\\*/g, '*').replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*')}$`
+    );
+
+interface CompiledCommandRule {
+    rule: CommandRule;
+    program?: RegExp[];
+    subcommand?: RegExp[];
+    flags?: RegExp[];
+    args?: RegExp[];
+    redirects?: RegExp[];
+}
+
+const anyMatch = (patterns: RegExp[] | undefined, values: string[]) =>
+    !patterns || values.some((value) => patterns.some((pattern) => pattern.test(value)));
+
+const describeRule = (rule: CommandRule) =>
+    [rule.program?.join('|'), rule.subcommand?.join('|'), rule.flags?.join('|'), rule.args?.join('|'), rule.redirects && `> ${rule.redirects.join('|')}`]
+        .filter(Boolean)
+        .join(' ');
+
+const SEVERITY: Record<PermissionLevel, number> = { allow: 0, ask: 1, deny: 2 };
+
+/**
+ * Decides whether an `execute_cli` command may run from its parsed structure. Every segment is
+ * checked against the user's `idSiberCoder.commandPolicy.rules` and then `BUILTIN_COMMAND_RULES`
+ * (first match wins, no match gives `defaultLevel`), and the strictest segment decides for the
+ * whole command line. A `deny` default turns the rules into an allowlist.
+ */
+export class CommandPolicy {
+    private rules: CompiledCommandRule[] = [];
+    private defaultLevel: PermissionLevel = 'allow';
+
+    constructor(rules: CommandRule[] = [], defaultLevel: PermissionLevel = 'allow') {
+        this.setRules(rules, defaultLevel);
+    }
+
+    setRules(rules: CommandRule[], defaultLevel: PermissionLevel = 'allow'): void {
+        const compile = (patterns?: string[]) => patterns?.map(wildcard);
+        this.rules = [...rules, ...BUILTIN_COMMAND_RULES].map((rule) => ({
+            rule,
+            program: compile(rule.program),
+            subcommand: compile(rule.subcommand),
+            flags: compile(rule.flags),
+            args: compile(rule.args),
+            redirects: compile(rule.redirects)
+        }));
+        this.defaultLevel = defaultLevel;
+    }
+
+    evaluate(command: string): CommandVerdict {
+        const decisions = parseCommand(command).map((segment) => {
+            const match = this.rules.find(
+                (compiled) =>
+                    anyMatch(compiled.program, [segment.program]) &&
+                    anyMatch(compiled.subcommand, segment.subcommand === undefined ? [] : [segment.subcommand]) &&
+                    anyMatch(compiled.flags, segment.flags) &&
+                    anyMatch(compiled.args, segment.args) &&
+                    anyMatch(compiled.redirects, segment.redirects) &&
+                    (compiled.rule.piped === undefined || compiled.rule.piped === segment.piped) &&
+                    (compiled.rule.runsInput === undefined || compiled.rule.runsInput === segment.runsInput)
+            );
+            const reason = match
+                ? match.rule.reason ?? `Matches the rule "${describeRule(match.rule)}".`
+                : `\`${segment.program}\` is not covered by any rule, and idSiberCoder.commandPolicy.defaultLevel is ${this.defaultLevel}.`;
+            return { segment, level: match?.rule.level ?? this.defaultLevel, reason };
+        });
+
+        const level = decisions.reduce<PermissionLevel>(
+            (strictest, decision) => (SEVERITY[decision.level] > SEVERITY[strictest] ? decision.level : strictest),
+            decisions.length ? 'allow' : this.defaultLevel
+        );
+        if (level === 'allow') {
+            return { level, reasons: [] };
+        }
+        const reasons = decisions
+            .filter((decision) => decision.level === level)
+            .map((decision) => `\`${decision.segment.text}\`: ${decision.reason}`);
+        return { level, reasons: [...new Set(reasons)] };
+    }
+}
@@ -1,5 +1,7 @@
 import * as path from 'path';
 import { promises as fs } from 'fs';
+import { compileGlobs, walkWorkspace, WalkOptions } from './glob';
+import { applyHunks, createUnifiedDiff, HunkResult, parseUnifiedDiff } from './patch';
 
 export interface FileOperationResult {
     success: boolean;
@@ -8,24 +10,297 @@ export interface FileOperationResult {
     content?: string;
     path?: string;
     size?: number;
+    totalLines?: number;
+    startLine?: number;
+    endLine?: number;
+    /** Compact unified diff of what a successful edit changed. */
+    diff?: string;
 }
 
+export interface FileEdit {
+    find: string;
+    replace?: string;
+    /** Treat `find` as a JavaScript regular expression; `replace` may use `$1`-style groups. */
+    regex?: boolean;
+    /** How many matches the edit must find; anything else fails the edit. Defaults to 1. */
+    occurrences?: number;
+    /** Only look for matches within these lines (1-based, inclusive) of the file as edited so far. */
+    startLine?: number;
+    endLine?: number;
+}
+
+/** A pending write-type tool call, described so it can be previewed before anything is written. */
+export type FileChange =
+    | { kind: 'write' | 'append'; path: string; content: string }
+    | { kind: 'edit'; path: string; edits: FileEdit[] }
+    | { kind: 'delete'; path: string }
+    | { kind: 'move'; path: string; destination: string };
+
+export interface FileChangePreview {
+    path: string;
+    /** Where a moved file ends up. */
+    destination?: string;
+    /** Current text; undefined when the file does not exist yet. Binary files and folders get a placeholder. */
+    before?: string;
+    /** Text after the change; undefined when the file would be removed. */
+    after?: string;
+}
+
+export interface LineRange {
+    /** 1-based, inclusive. */
+    startLine?: number;
+    /** 1-based, inclusive. */
+    endLine?: number;
+}
+
+/** Files larger than this are never loaded; the model should search or read a smaller file instead. */
+const MAX_READ_BYTES = 10 * 1024 * 1024;
+/** Lines returned when no explicit range is given (or an open-ended range starts mid-file). */
+const DEFAULT_READ_LINES = 400;
+/** Hard cap on characters per chunk so minified or single-line files cannot flood the context. */
+const MAX_READ_CHARS = 40000;
+const BINARY_SNIFF_BYTES = 8000;
+/** Dependency and build folders hidden from recursive listings even without a `.gitignore`. */
+const DEFAULT_IGNORED_FOLDERS = ['node_modules', 'bower_components', 'dist', 'out', 'build', 'coverage', '.next', '.nuxt', '__pycache__', '.venv', 'venv', 'target'];
+const MAX_LIST_ENTRIES = 1000;
+const DEFAULT_FIND_RESULTS = 200;
+
+export interface ListOptions {
+    recursive?: boolean;
+    /** Folder levels below the listed folder to descend into when recursive. */
+    maxDepth?: number;
+    /** Also show `.gitignore`d and dependency/build folders. */
+    includeIgnored?: boolean;
+}
+
+export interface FindOptions {
+    maxResults?: number;
+    includeIgnored?: boolean;
+}
+
+const formatSize = (bytes: number) => {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit += 1;
+    }
+    return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+const lineAt = (text: string, offset: number) => text.slice(0, offset).split('\n').length;
+
+const describeLines = (text: string, offsets: number[]) => {
+    const lines = offsets.slice(0, 10).map((offset) => lineAt(text, offset));
+    return `line${lines.length > 1 ? 's' : ''} ${lines.join(', ')}${offsets.length > 10 ? ', …' : ''}`;
+};
+
+/** Apply one {@link FileEdit} to `content`, or explain why it cannot be applied unambiguously. */
+const applyEdit = (content: string, edit: FileEdit): { content: string; count: number } | { error: string } => {
+    if (!edit.find) {
+        return { error: 'find is empty.' };
+    }
+    const expected = Math.max(1, Math.floor(edit.occurrences ?? 1));
+
+    // Restrict the search to the requested line range by working on that slice of the text.
+    let from = 0;
+    let to = content.length;
+    if (edit.startLine !== undefined || edit.endLine !== undefined) {
+        const lineStarts = [0];
+        for (let offset = content.indexOf('\n'); offset !== -1; offset = content.indexOf('\n', offset + 1)) {
+            lineStarts.push(offset + 1);
+        }
+        const first = Math.max(1, Math.floor(edit.startLine ?? 1));
+        const last = Math.min(lineStarts.length, Math.floor(edit.endLine ?? lineStarts.length));
+        if (first > last) {
+            return { error: `line range ${first}-${last} is empty (file has ${lineStarts.length} lines).` };
+        }
+        from = lineStarts[first - 1];
+        to = last < lineStarts.length ? lineStarts[last] : content.length;
+    }
+    const region = content.slice(from, to);
+    const where = from > 0 || to < content.length ? ` within lines ${lineAt(content, from)}-${lineAt(content, Math.max(from, to - 1))}` : '';
+
+    let pattern: RegExp;
+    try {
+        pattern = edit.regex
+            ? new RegExp(edit.find, 'gm')
+            : new RegExp(edit.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
+    } catch (error) {
+        return { error: `invalid regular expression: ${(error as Error).message}.` };
+    }
+
+    const matches = [...region.matchAll(pattern)];
+    if (matches.some((match) => match[0].length === 0)) {
+        return { error: 'the regular expression matches empty text; make it more specific.' };
+    }
+    const offsets = matches.map((match) => from + (match.index ?? 0));
+    if (matches.length !== expected) {
+        if (!matches.length) {
+            const loose = edit.regex ? -1 : content.replace(/[ \t]+/g, ' ').indexOf(edit.find.replace(/[ \t]+/g, ' '));
+            const hint = loose >= 0 ? ' It only matches when spaces and tabs are ignored; copy the exact text from read_file.' : ' Re-read the file and copy the exact text.';
+            return { error: `find text not found${where}.${hint}` };
+        }
+        return {
+            error: `find text matched ${matches.length} times${where} (${describeLines(content, offsets)}) but occurrences is ${expected}. Add surrounding lines to make it unique, narrow start_line/end_line, or set occurrences to ${matches.length}.`
+        };
+    }
+
+    const replaceWith = edit.replace ?? '';
+    const updated = edit.regex
+        ? region.replace(pattern, replaceWith)
+        : region.replace(pattern, () => replaceWith);
+    return { content: `${content.slice(0, from)}${updated}${content.slice(to)}`, count: matches.length };
+};
+
+/** Apply edits in order; the first one that fails stops the whole batch. */
+const applyEdits = (content: string, edits: FileEdit[]): { content: string; count: number } | { error: string } => {
+    let updated = content;
+    let count = 0;
+    for (const [index, edit] of edits.entries()) {
+        const outcome = applyEdit(updated, edit);
+        if ('error' in outcome) {
+            return { error: `Edit ${index + 1} of ${edits.length} failed: ${outcome.error}` };
+        }
+        updated = outcome.content;
+        count += outcome.count;
+    }
+    return { content: updated, count };
+};
+
+const DEFAULT_PATCH_FUZZ = 2;
+const MAX_PATCH_FUZZ = 3;
+
+const describeHunk = (hunk: HunkResult) => {
+    if (!hunk.applied) {
+        return `  hunk ${hunk.index} ${hunk.header}: FAILED - ${hunk.error}`;
+    }
+    const notes = [
+        hunk.offset ? `offset ${hunk.offset > 0 ? '+' : ''}${hunk.offset}` : '',
+        hunk.match === 'whitespace' ? 'whitespace-insensitive' : '',
+        hunk.match === 'fuzz' ? `fuzz ${hunk.fuzz}` : ''
+    ].filter(Boolean);
+    return `  hunk ${hunk.index} ${hunk.header}: applied at line ${hunk.line}${notes.length ? ` (${notes.join(', ')})` : ''}`;
+};
+
+const formatModified = (date: Date) => date.toISOString().slice(0, 16).replace('T', ' ');
+
+/** NUL bytes or a high share of control characters in the first few KB mean the file is not text. */
+export const looksBinary = (buffer: Buffer): boolean => {
+    const sample = buffer.subarray(0, BINARY_SNIFF_BYTES);
+    if (!sample.length) {
+        return false;
+    }
+    let suspicious = 0;
+    for (const byte of sample) {
+        if (byte === 0) {
+            return true;
+        }
+        if (byte < 7 || (byte > 13 && byte < 32 && byte !== 27)) {
+            suspicious += 1;
+        }
+    }
+    return suspicious / sample.length > 0.1;
+};
+
 export class FileManager {
-    constructor(private workspaceRoot: string) {}
+    constructor(
+        private workspaceRoot: string,
+        /** Globs hidden from recursive listings and `find_files`, typically `files.exclude`. */
+        private readonly getExcludes: () => string[] = () => []
+    ) {}
 
     setWorkspaceRoot(folder: string | undefined): void {
         this.workspaceRoot = folder ?? '';
     }
 
-    async readFile(target: string): Promise<FileOperationResult> {
+    /**
+     * Read a text file as line-numbered output. Without a range only the first chunk is returned;
+     * the message reports the range and total line count so the caller can ask for the next one.
+     */
+    async readFile(target: string, range: LineRange = {}): Promise<FileOperationResult> {
         try {
             const full = this.resolve(target);
-            const buffer = await fs.readFile(full, 'utf8');
+            const stats = await fs.stat(full);
+            if (stats.isDirectory()) {
+                return { success: false, error: `${target} is a directory. Use list_directory instead.` };
+            }
+            if (stats.size > MAX_READ_BYTES) {
+                return {
+                    success: false,
+                    error: `${target} is too large to read (${stats.size.toLocaleString('en-US')} bytes, limit ${MAX_READ_BYTES.toLocaleString('en-US')}).`,
+                    path: target,
+                    size: stats.size
+                };
+            }
+
+            const buffer = await fs.readFile(full);
+            if (looksBinary(buffer)) {
+                return {
+                    success: false,
+                    error: `${target} looks like a binary file (${stats.size.toLocaleString('en-US')} bytes); only text files can be read.`,
+                    path: target,
+                    size: stats.size
+                };
+            }
+
+            const lines = buffer.toString('utf8').split(/\r?\n/);
+            if (lines.length > 1 && lines[lines.length - 1] === '') {
+                lines.pop();
+            }
+            const totalLines = lines.length;
+            if (!totalLines || (totalLines === 1 && !lines[0])) {
+                return { success: true, message: `${target} is empty.`, content: '', path: target, size: stats.size, totalLines: 0 };
+            }
+
+            const startLine = Math.max(1, Math.floor(range.startLine ?? 1));
+            if (startLine > totalLines) {
+                return {
+                    success: false,
+                    error: `start_line ${startLine} is past the end of ${target} (${totalLines} lines).`,
+                    path: target,
+                    totalLines
+                };
+            }
+            const requestedEnd = range.endLine !== undefined
+                ? Math.floor(range.endLine)
+                : startLine + DEFAULT_READ_LINES - 1;
+            if (requestedEnd < startLine) {
+                return { success: false, error: `end_line ${requestedEnd} is before start_line ${startLine}.`, path: target };
+            }
+
+            const width = String(Math.min(requestedEnd, totalLines)).length;
+            const output: string[] = [];
+            let chars = 0;
+            let endLine = startLine - 1;
+            for (let index = startLine - 1; index < Math.min(requestedEnd, totalLines); index += 1) {
+                const line = `${String(index + 1).padStart(width)}\t${lines[index]}`;
+                if (output.length && chars + line.length > MAX_READ_CHARS) {
+                    break;
+                }
+                output.push(line.length > MAX_READ_CHARS ? `${line.slice(0, MAX_READ_CHARS)} [line truncated]` : line);
+                chars += line.length + 1;
+                endLine = index + 1;
+            }
+
+            const header = `${target}: lines ${startLine}-${endLine} of ${totalLines}`;
+            const message = endLine < totalLines
+                ? `${header}. More lines remain; call read_file with start_line=${endLine + 1} to continue.`
+                : `${header}.`;
+
             return {
                 success: true,
-                content: buffer,
+                message,
+                content: output.join('\n'),
                 path: target,
-                size: Buffer.byteLength(buffer, 'utf8')
+                size: stats.size,
+                totalLines,
+                startLine,
+                endLine
             };
         } catch (error: unknown) {
             return this.fail(error);
@@ -64,10 +339,12 @@ export class FileManager {
         }
     }
 
-    async editFile(
-        target: string,
-        edits: Array<{ find: string; replace?: string }>
-    ): Promise<FileOperationResult> {
+    /**
+     * Apply find/replace edits in order. Each edit must match exactly `occurrences` times (default 1)
+     * inside its optional line range; if any edit fails, nothing is written. On success the result
+     * carries a compact diff of the change.
+     */
+    async editFile(target: string, edits: FileEdit[]): Promise<FileOperationResult> {
         if (!Array.isArray(edits) || edits.length === 0) {
             return {
                 success: false,
@@ -77,27 +354,23 @@ export class FileManager {
 
         try {
             const full = this.resolve(target);
-            let content = await fs.readFile(full, 'utf8');
-            let replacements = 0;
-
-            const applyReplacement = (source: string, find: string, replaceWith: string) => {
-                if (!find) {
-                    return { updated: source, count: 0 };
-                }
-                const segments = source.split(find);
-                if (segments.length === 1) {
-                    return { updated: source, count: 0 };
-                }
-                const updated = segments.join(replaceWith);
-                return { updated, count: segments.length - 1 };
-            };
+            const original = await fs.readFile(full, 'utf8');
+            const outcome = applyEdits(original, edits);
+            if ('error' in outcome) {
+                return {
+                    success: false,
+                    error: `${outcome.error} No changes were written to ${target}.`,
+                    path: target
+                };
+            }
+            const { content, count: replacements } = outcome;
 
-            for (const edit of edits) {
-                const find = typeof edit.find === 'string' ? edit.find : '';
-                const replaceWith = typeof edit.replace === 'string' ? edit.replace : '';
-                const result = applyReplacement(content, find, replaceWith);
-                content = result.updated;
-                replacements += result.count;
+            if (content === original) {
+                return {
+                    success: false,
+                    error: `Edits matched but left ${target} unchanged (replacement equals the original text).`,
+                    path: target
+                };
             }
 
             await fs.writeFile(full, content, 'utf8');
@@ -105,11 +378,167 @@ export class FileManager {
             return {
                 success: true,
                 message: `Applied ${replacements} replacement(s) in ${target}.`,
-                path: target
+                path: target,
+                diff: createUnifiedDiff(target, original, content)
+            };
+        } catch (error: unknown) {
+            return this.fail(error);
+        }
+    }
+
+    /**
+     * Apply a unified diff (one or more files; adds, deletes and renames included). Every hunk is
+     * applied in memory first and nothing is written unless all of them fit, so a failed patch can
+     * simply be corrected and retried. The per-hunk report is returned either way.
+     */
+    async applyPatch(patch: string, fuzz = DEFAULT_PATCH_FUZZ): Promise<FileOperationResult> {
+        let files;
+        try {
+            files = parseUnifiedDiff(patch);
+        } catch (error: unknown) {
+            return this.fail(error);
+        }
+
+        const allowedFuzz = Math.min(MAX_PATCH_FUZZ, Math.max(0, Math.floor(fuzz)));
+        const report: string[] = [];
+        const writes: Array<{ full: string; content: string }> = [];
+        const removals: string[] = [];
+        let failed = false;
+
+        for (const file of files) {
+            const label = file.oldPath && file.newPath && file.oldPath !== file.newPath
+                ? `${file.oldPath} → ${file.newPath}`
+                : (file.newPath ?? file.oldPath) as string;
+            try {
+                const oldFull = file.oldPath ? this.resolve(file.oldPath) : undefined;
+                const newFull = file.newPath ? this.resolve(file.newPath) : undefined;
+
+                let original = '';
+                if (oldFull) {
+                    original = await fs.readFile(oldFull, 'utf8');
+                } else if (newFull && (await this.exists(newFull))) {
+                    throw new Error('file already exists; patch it instead of creating it');
+                }
+                if (newFull && oldFull && newFull !== oldFull && (await this.exists(newFull))) {
+                    throw new Error(`rename target ${file.newPath} already exists`);
+                }
+
+                const eol = original.includes('\r\n') ? '\r\n' : '\n';
+                const lines = original ? original.split(/\r?\n/) : [];
+                const hadFinalNewline = lines.length > 0 && lines[lines.length - 1] === '';
+                if (hadFinalNewline) {
+                    lines.pop();
+                }
+
+                const applied = applyHunks(lines, file.hunks, allowedFuzz);
+                const hunkFailures = applied.results.filter((hunk) => !hunk.applied).length;
+                const action = !file.oldPath ? 'create' : !file.newPath ? 'delete' : file.oldPath !== file.newPath ? 'rename' : 'update';
+                report.push(
+                    hunkFailures
+                        ? `${label}: ${hunkFailures} of ${file.hunks.length} hunk(s) failed`
+                        : `${label}: ${action}${file.hunks.length ? `, ${file.hunks.length} hunk(s) applied` : ''}`
+                );
+                report.push(...applied.results.map(describeHunk));
+                if (hunkFailures) {
+                    failed = true;
+                    continue;
+                }
+
+                if (newFull) {
+                    const finalNewline = applied.noNewlineAtEnd ? false : file.oldPath ? hadFinalNewline || !original : true;
+                    const text = applied.lines.join(eol);
+                    writes.push({ full: newFull, content: text && finalNewline ? `${text}${eol}` : text });
+                }
+                if (oldFull && oldFull !== newFull) {
+                    removals.push(oldFull);
+                }
+            } catch (error: unknown) {
+                failed = true;
+                report.push(`${label}: FAILED - ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        if (failed) {
+            return {
+                success: false,
+                error: 'Patch not applied; no files were changed. Fix the failed hunks (re-read the file for current context) and retry.',
+                content: report.join('\n')
             };
+        }
+
+        // Check every target before touching anything, so a bad one cannot leave the patch half applied.
+        const problems: string[] = [];
+        for (const write of writes) {
+            const problem = await this.checkWritable(write.full);
+            if (problem) {
+                problems.push(`${this.relative(write.full)}: ${problem}`);
+            }
+        }
+        for (const full of removals) {
+            const stats = await fs.stat(full).catch(() => undefined);
+            if (!stats?.isFile()) {
+                problems.push(`${this.relative(full)}: ${stats ? 'is not a file' : 'no longer exists'}`);
+            }
+        }
+        if (problems.length) {
+            return {
+                success: false,
+                error: 'Patch not applied; no files were changed.',
+                content: [...report, ...problems].join('\n')
+            };
+        }
+
+        try {
+            for (const write of writes) {
+                await fs.mkdir(path.dirname(write.full), { recursive: true });
+                await fs.writeFile(write.full, write.content, 'utf8');
+            }
+            for (const full of removals) {
+                await fs.unlink(full);
+            }
         } catch (error: unknown) {
             return this.fail(error);
         }
+
+        return {
+            success: true,
+            message: `Patch applied to ${files.length} file(s).`,
+            content: report.join('\n')
+        };
+    }
+
+    /**
+     * Work out the file contents a change would produce without writing anything. Throws when the
+     * change cannot be computed (missing file, failing edit); running the tool reports the same error.
+     */
+    async previewChange(change: FileChange): Promise<FileChangePreview> {
+        const before = await this.readForPreview(change.path);
+        switch (change.kind) {
+            case 'write':
+                return { path: change.path, before, after: change.content };
+            case 'append':
+                return { path: change.path, before, after: `${before ?? ''}${change.content}` };
+            case 'delete':
+                if (before === undefined) {
+                    throw new Error(`File not found: ${change.path}`);
+                }
+                return { path: change.path, before };
+            case 'move':
+                if (before === undefined) {
+                    throw new Error(`File not found: ${change.path}`);
+                }
+                return { path: change.path, destination: change.destination, before, after: before };
+            case 'edit': {
+                if (before === undefined) {
+                    throw new Error(`File not found: ${change.path}`);
+                }
+                const outcome = applyEdits(before, change.edits);
+                if ('error' in outcome) {
+                    throw new Error(outcome.error);
+                }
+                return { path: change.path, before, after: outcome.content };
+            }
+        }
     }
 
     async deleteFile(target: string): Promise<FileOperationResult> {
@@ -158,7 +587,10 @@ export class FileManager {
         }
     }
 
-    async listDirectory(target = '.'): Promise<FileOperationResult> {
+    async listDirectory(target = '.', options: ListOptions = {}): Promise<FileOperationResult> {
+        if (options.recursive) {
+            return this.listTree(target, options);
+        }
         try {
             const full = this.resolve(target);
             const entries = await fs.readdir(full, { withFileTypes: true });
@@ -178,12 +610,136 @@ export class FileManager {
         }
     }
 
+    /** Find files whose workspace-relative path matches any of the globs. */
+    async findFiles(patterns: string[], options: FindOptions = {}): Promise<FileOperationResult> {
+        if (!patterns.length) {
+            return { success: false, error: 'At least one glob pattern is required.' };
+        }
+        try {
+            this.resolve('.');
+            const matches = compileGlobs(patterns);
+            const maxResults = Math.max(1, Math.floor(options.maxResults ?? DEFAULT_FIND_RESULTS));
+            const found: string[] = [];
+            let capped = false;
+            for await (const entry of walkWorkspace(this.workspaceRoot, '', this.walkOptions(options.includeIgnored))) {
+                if (!matches(entry.relativePath)) {
+                    continue;
+                }
+                if (found.length >= maxResults) {
+                    capped = true;
+                    break;
+                }
+                found.push(entry.relativePath);
+            }
+            const summary = found.length
+                ? `Found ${found.length} file(s) matching ${patterns.join(', ')}.`
+                : `No files match ${patterns.join(', ')}.`;
+            return {
+                success: true,
+                message: capped ? `${summary} Stopped at max_results=${maxResults}; use a narrower pattern.` : summary,
+                content: found.join('\n')
+            };
+        } catch (error: unknown) {
+            return this.fail(error);
+        }
+    }
+
+    /** Indented tree with sizes and modification times (UTC), capped at {@link MAX_LIST_ENTRIES} entries. */
+    private async listTree(target: string, options: ListOptions): Promise<FileOperationResult> {
+        try {
+            const full = this.resolve(target);
+            const start = path.relative(this.workspaceRoot, full).split(path.sep).join('/');
+            const maxDepth = Math.max(0, Math.floor(options.maxDepth ?? 3));
+            const walkOptions = { ...this.walkOptions(options.includeIgnored), includeDirectories: true, maxDepth };
+
+            const lines: string[] = [];
+            let files = 0;
+            let folders = 0;
+            let capped = false;
+            for await (const entry of walkWorkspace(this.workspaceRoot, start, walkOptions)) {
+                if (lines.length >= MAX_LIST_ENTRIES) {
+                    capped = true;
+                    break;
+                }
+                const indent = '  '.repeat(entry.depth);
+                const name = path.posix.basename(entry.relativePath);
+                if (entry.isDirectory) {
+                    folders += 1;
+                    lines.push(`${indent}${name}/`);
+                    continue;
+                }
+                files += 1;
+                const stats = await fs.stat(entry.fullPath).catch(() => undefined);
+                lines.push(stats ? `${indent}${name}  ${formatSize(stats.size)}  ${formatModified(stats.mtime)}` : `${indent}${name}`);
+            }
+
+            const summary = `${target}: ${folders} folder(s), ${files} file(s), depth ${maxDepth}.`;
+            return {
+                success: true,
+                message: capped ? `${summary} Stopped after ${MAX_LIST_ENTRIES} entries; list a sub-folder or lower max_depth.` : summary,
+                content: lines.join('\n'),
+                path: target
+            };
+        } catch (error: unknown) {
+            return this.fail(error);
+        }
+    }
+
+    private walkOptions(includeIgnored = false): WalkOptions {
+        return includeIgnored
+            ? { exclude: this.getExcludes(), respectGitignore: false }
+            : { exclude: [...this.getExcludes(), ...DEFAULT_IGNORED_FOLDERS.map((folder) => `**/${folder}`)] };
+    }
+
+    private async readForPreview(target: string): Promise<string | undefined> {
+        const full = this.resolve(target);
+        let stats;
+        try {
+            stats = await fs.stat(full);
+        } catch {
+            return undefined;
+        }
+        if (stats.isDirectory()) {
+            return `[folder ${target}]\n`;
+        }
+        const buffer = await fs.readFile(full);
+        return looksBinary(buffer) ? `[binary file, ${formatSize(stats.size)}]\n` : buffer.toString('utf8');
+    }
+
+    private async exists(full: string): Promise<boolean> {
+        return fs.access(full).then(() => true, () => false);
+    }
+
+    /** Why `full` cannot be written as a file, or undefined when it can. */
+    private async checkWritable(full: string): Promise<string | undefined> {
+        const stats = await fs.stat(full).catch(() => undefined);
+        if (stats) {
+            return stats.isFile() ? undefined : 'is not a file';
+        }
+        // The nearest existing ancestor has to be a directory for mkdir to succeed.
+        let parent = path.dirname(full);
+        while (parent !== path.dirname(parent)) {
+            const parentStats = await fs.stat(parent).catch(() => undefined);
+            if (parentStats) {
+                return parentStats.isDirectory() ? undefined : `${this.relative(parent)} is not a directory`;
+            }
+            parent = path.dirname(parent);
+        }
+        return undefined;
+    }
+
+    private relative(full: string): string {
+        return this.workspaceRoot ? path.relative(this.workspaceRoot, full) || '.' : full;
+    }
+
     private resolve(target: string): string {
         if (!this.workspaceRoot) {
             throw new Error('Workspace folder not set. Open a folder in VS Code to use IdSiberCoder file tools.');
         }
-        const candidate = path.resolve(this.workspaceRoot, target);
-        if (!candidate.startsWith(this.workspaceRoot)) {
+        const root = path.resolve(this.workspaceRoot);
+        const candidate = path.resolve(root, target);
+        // A bare prefix check would let `../ws2` through for a root of `/ws`.
+        if (candidate !== root && !candidate.startsWith(root + path.sep)) {
             throw new Error(`Path outside workspace is not allowed: ${target}`);
         }
         return candidate;
@@ -0,0 +1,158 @@
+import { promises as fs } from 'fs';
+import { FileOperationResult, looksBinary } from './FileManager';
+import { compileGlobs, walkWorkspace } from './glob';
+
+export interface SearchOptions {
+    query: string;
+    isRegex?: boolean;
+    caseSensitive?: boolean;
+    /** Only search files matching one of these globs. */
+    include?: string[];
+    /** Skip files matching these globs, on top of `files.exclude` and `.gitignore`. */
+    exclude?: string[];
+    contextLines?: number;
+    maxResults?: number;
+}
+
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_RESULTS_LIMIT = 500;
+const MAX_CONTEXT_LINES = 5;
+/** Larger files are almost always generated or data; skipping them keeps searches fast. */
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+const MAX_LINE_LENGTH = 300;
+
+const clamp = (value: number | undefined, fallback: number, min: number, max: number) =>
+    Math.min(max, Math.max(min, Math.floor(value ?? fallback)));
+
+const clipLine = (line: string) =>
+    line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}…` : line;
+
+/**
+ * Text search across the workspace for the `search_workspace` tool. Walks the tree with the same
+ * ignore rules as the file explorer (`.gitignore` plus the globs returned by `getExcludes`) and
+ * reports grep-style `path:line: text` matches, with `path-line- text` for context lines.
+ */
+export class SearchManager {
+    constructor(
+        private workspaceRoot: string,
+        private readonly getExcludes: () => string[] = () => []
+    ) {}
+
+    setWorkspaceRoot(folder: string | undefined): void {
+        this.workspaceRoot = folder ?? '';
+    }
+
+    async search(options: SearchOptions): Promise<FileOperationResult> {
+        if (!this.workspaceRoot) {
+            return {
+                success: false,
+                error: 'Workspace folder not set. Open a folder in VS Code to use IdSiberCoder file tools.'
+            };
+        }
+        if (!options.query) {
+            return { success: false, error: 'query is required' };
+        }
+
+        let matcher: RegExp;
+        try {
+            const source = options.isRegex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            matcher = new RegExp(source, options.caseSensitive ? '' : 'i');
+        } catch (error) {
+            return { success: false, error: `Invalid regular expression: ${(error as Error).message}` };
+        }
+
+        const maxResults = clamp(options.maxResults, DEFAULT_MAX_RESULTS, 1, MAX_RESULTS_LIMIT);
+        const contextLines = clamp(options.contextLines, 0, 0, MAX_CONTEXT_LINES);
+        const isIncluded = options.include?.length ? compileGlobs(options.include) : () => true;
+
+        const blocks: string[] = [];
+        let matchCount = 0;
+        let fileCount = 0;
+        let searchedFiles = 0;
+        let skippedFiles = 0;
+        let capped = false;
+
+        const walker = walkWorkspace(this.workspaceRoot, '', {
+            exclude: [...this.getExcludes(), ...(options.exclude ?? [])]
+        });
+        for await (const entry of walker) {
+            if (!isIncluded(entry.relativePath)) {
+                continue;
+            }
+
+            let buffer: Buffer;
+            try {
+                const stats = await fs.stat(entry.fullPath);
+                if (stats.size > MAX_SEARCH_FILE_BYTES) {
+                    skippedFiles += 1;
+                    continue;
+                }
+                buffer = await fs.readFile(entry.fullPath);
+            } catch {
+                continue;
+            }
+            if (looksBinary(buffer)) {
+                continue;
+            }
+            searchedFiles += 1;
+
+            const lines = buffer.toString('utf8').split(/\r?\n/);
+            const matchedLines: number[] = [];
+            for (let index = 0; index < lines.length; index += 1) {
+                if (matcher.test(lines[index])) {
+                    if (matchCount >= maxResults) {
+                        capped = true;
+                        break;
+                    }
+                    matchedLines.push(index);
+                    matchCount += 1;
+                }
+            }
+            if (matchedLines.length) {
+                fileCount += 1;
+                blocks.push(this.formatMatches(entry.relativePath, lines, matchedLines, contextLines));
+            }
+            if (capped) {
+                break;
+            }
+        }
+
+        const notes = [
+            matchCount
+                ? `Found ${matchCount} match(es) in ${fileCount} file(s); searched ${searchedFiles} file(s).`
+                : `No matches for ${options.isRegex ? `/${options.query}/` : `"${options.query}"`} in ${searchedFiles} file(s).`
+        ];
+        if (capped) {
+            notes.push(`Stopped at max_results=${maxResults}; narrow the query or the include globs to see the rest.`);
+        }
+        if (skippedFiles) {
+            notes.push(`Skipped ${skippedFiles} file(s) larger than ${MAX_SEARCH_FILE_BYTES / 1024} KB.`);
+        }
+
+        return {
+            success: true,
+            message: notes.join(' '),
+            content: blocks.join('\n--\n')
+        };
+    }
+
+    /** Print each match with its context, merging overlapping windows and separating gaps with `--`. */
+    private formatMatches(relativePath: string, lines: string[], matchedLines: number[], contextLines: number): string {
+        const matched = new Set(matchedLines);
+        const output: string[] = [];
+        let lastPrinted = -1;
+        for (const index of matchedLines) {
+            const from = Math.max(0, index - contextLines, lastPrinted + 1);
+            const to = Math.min(lines.length - 1, index + contextLines);
+            if (lastPrinted >= 0 && from > lastPrinted + 1) {
+                output.push('--');
+            }
+            for (let line = from; line <= to; line += 1) {
+                const separator = matched.has(line) ? ':' : '-';
+                output.push(`${relativePath}${separator}${line + 1}${separator} ${clipLine(lines[line])}`);
+            }
+            lastPrinted = Math.max(lastPrinted, to);
+        }
+        return output.join('\n');
+    }
+}
@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
-import { exec, ExecException } from 'child_process';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { ChildProcess, exec, ExecException, spawn } from 'child_process';
 import { promisify } from 'util';
+import { CommandPolicy } from './CommandPolicy';
 
 const execAsync = promisify(exec);
 
@@ -8,61 +11,213 @@ export interface TerminalOperationResult {
     success: boolean;
     message?: string;
     error?: string;
+    /** Interleaved output of a background process. */
     output?: string;
+    /** Handle of a background process, for `read_process_output`, `send_process_input` and `kill_process`. */
+    processId?: string;
+    command?: string;
+    /** Undefined while a process runs or when it was ended by a signal. */
+    exitCode?: number;
+    signal?: string;
+    durationMs?: number;
+    /** Set when the command was stopped for exceeding its time limit. */
+    timedOut?: boolean;
+    /** Captured stdout and stderr of a finished command, each truncated head+tail to the output budget. */
+    stdout?: string;
+    stderr?: string;
+    /** Name of the integrated terminal the command ran in; its stdout and stderr arrive interleaved in `stdout`. */
+    terminal?: string;
 }
 
-export class TerminalManager {
-    private outputChannel: vscode.OutputChannel;
-    private readonly MAX_OUTPUT_LENGTH = 1000;
-    constructor() {
-        this.outputChannel = vscode.window.createOutputChannel('IdSiberCoder CLI');
+/** Settings-backed defaults, read again for every command. */
+export interface TerminalOptions {
+    /** Characters of command output returned to the model (`idSiberCoder.terminalOutputLimit`). */
+    outputLimit: number;
+    /** Run foreground commands in a visible integrated terminal (`idSiberCoder.useIntegratedTerminal`). */
+    useIntegratedTerminal: boolean;
+    /** Added to the extension host's environment for every command (`idSiberCoder.terminalEnv`). */
+    env: Record<string, string>;
+    defaultTimeoutMs: number;
+    /** Upper bound for a command's own `timeoutMs`. */
+    maxTimeoutMs: number;
+}
+
+/** Per-call settings from `execute_cli`. */
+export interface CommandOptions {
+    /** Working directory relative to the workspace root; must stay inside it. */
+    cwd?: string;
+    /** Added on top of `TerminalOptions.env`. */
+    env?: Record<string, string>;
+    /** Foreground time limit, clamped to `TerminalOptions.maxTimeoutMs`. */
+    timeoutMs?: number;
+}
+
+interface ResolvedCommandOptions {
+    cwd?: string;
+    /** `TerminalOptions.env` merged with the call's own variables (not the whole process environment). */
+    env: Record<string, string>;
+    timeoutMs: number;
+}
+
+export type BackgroundProcessStatus = 'running' | 'exited' | 'killed';
+
+export interface BackgroundProcessInfo {
+    id: string;
+    command: string;
+    status: BackgroundProcessStatus;
+    startedAt: number;
+    endedAt?: number;
+    exitCode?: number;
+    signal?: string;
+}
+
+/** Sent for every chunk of output and every status change of a background process. */
+export interface BackgroundProcessEvent extends BackgroundProcessInfo {
+    /** New output since the previous event (stdout and stderr interleaved). */
+    chunk: string;
+}
+
+interface BackgroundProcess extends BackgroundProcessInfo {
+    child: ChildProcess;
+    /** Buffered output; older text is dropped once it exceeds MAX_BUFFERED_OUTPUT. */
+    buffer: string;
+    /** Total characters ever received; `buffer` ends at this offset. */
+    received: number;
+    /** Offset up to which `read_process_output` has returned output. */
+    readOffset: number;
+}
+
+/** Output kept per background process; the model reads it incrementally, the webview shows the tail. */
+const MAX_BUFFERED_OUTPUT = 200_000;
+/** Characters returned by one `read_process_output` call. */
+const MAX_READ_OUTPUT = 8000;
+/** How long a new background process is watched before `execute_cli` returns, to catch immediate failures. */
+const STARTUP_WAIT_MS = 1500;
+const MAX_WAIT_MS = 30000;
+/** How long a new integrated terminal may take to activate shell integration before commands fall back to a hidden process. */
+const SHELL_INTEGRATION_WAIT_MS = 5000;
+/** After Ctrl+C on a timed-out terminal command, how long to wait for the shell to report that it ended. */
+const INTERRUPT_GRACE_MS = 2000;
+const TERMINAL_NAME = 'IdSiberCoder';
+export const DEFAULT_TERMINAL_OPTIONS: TerminalOptions = {
+    outputLimit: 8000,
+    useIntegratedTerminal: false,
+    env: {},
+    defaultTimeoutMs: 30_000,
+    maxTimeoutMs: 600_000
+};
+/** Share of a truncated stream kept from the start; the rest comes from the end, where failures are usually reported. */
+const HEAD_SHARE = 0.3;
+
+/** Keep the start and the end of `text` within `budget` characters, cutting at line breaks where possible. */
+export const truncateMiddle = (text: string, budget: number): string => {
+    if (text.length <= budget) {
+        return text;
     }
+    let head = text.slice(0, Math.floor(budget * HEAD_SHARE));
+    let tail = text.slice(text.length - (budget - head.length));
+    const headBreak = head.lastIndexOf('\n');
+    if (headBreak > head.length / 2) {
+        head = head.slice(0, headBreak + 1);
+    }
+    const tailBreak = tail.indexOf('\n');
+    if (tailBreak >= 0 && tailBreak < tail.length / 2) {
+        tail = tail.slice(tailBreak + 1);
+    }
+    const omitted = text.length - head.length - tail.length;
+    const omittedLines = text.slice(head.length, text.length - tail.length).split('\n').length - 1;
+    return `${head}\n[... ${omitted} characters (${omittedLines} lines) omitted ...]\n${tail}`;
+};
 
-    private isSafeCommand(command: string): boolean {
-        const dangerousPatterns = [
-            /sudo\s+/i,
-            /dd\s+/i,
-            /mkfs\s+/i,
-            /fdisk\s+/i,
-            /format\s+/i,
-            /shutdown\s+/i,
-            /reboot\s+/i,
-            /poweroff\s+/i,
-            /^>\s*\/dev\/null/i,
-            /\|\s*tee\s+/i
-        ];
+/** Strip escape sequences and carriage-return redraws (progress bars) from raw terminal output. */
+const cleanTerminalOutput = (text: string): string =>
+    text
+        .replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, '')
+        .replace(/\x1b\[[0-?]*[ -/]*[@-~]/g, '')
+        .replace(/\x1b[@-Z\\-_]/g, '')
+        .split('\n')
+        .map((line) => {
+            const trimmed = line.replace(/\r+$/, '');
+            return trimmed.slice(trimmed.lastIndexOf('\r') + 1);
+        })
+        .join('\n');
 
-        // Check for dangerous patterns first
-        for (const pattern of dangerousPatterns) {
-            if (pattern.test(command)) {
-                return false;
-            }
-        }
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
 
-        return true;
+/** Split the output budget between stdout and stderr; a short stream leaves its unused share to the other. */
+const splitBudget = (stdout: string, stderr: string, budget: number): [number, number] => {
+    const half = Math.floor(budget / 2);
+    if (stdout.length <= half) {
+        return [stdout.length, budget - stdout.length];
     }
+    if (stderr.length <= half) {
+        return [budget - stderr.length, stderr.length];
+    }
+    return [half, budget - half];
+};
 
-    private truncateOutput(output: string): string {
-        if (output.length <= this.MAX_OUTPUT_LENGTH) {
-            return output;
-        }
-        
-        const truncated = output.substring(0, this.MAX_OUTPUT_LENGTH);
-        return `${truncated}\n\n[Output truncated - ${output.length} characters total, showing first ${this.MAX_OUTPUT_LENGTH} characters]`;
+export class TerminalManager {
+    private outputChannel: vscode.OutputChannel;
+    private readonly processes = new Map<string, BackgroundProcess>();
+    private nextProcessId = 1;
+    private terminal?: vscode.Terminal;
+    /** A terminal whose shell did not activate integration in time; later calls do not wait for it again. */
+    private terminalWithoutIntegration?: vscode.Terminal;
+    /** `TerminalOptions.env` the terminal was created with; a change recreates it. */
+    private terminalEnv?: string;
+    /** Commands sent to the integrated terminal run one after another. */
+    private terminalQueue: Promise<unknown> = Promise.resolve();
+    /** Set by the extension to stream background output into the webviews. */
+    onProcessEvent?: (event: BackgroundProcessEvent) => void;
+
+    constructor(
+        private readonly getOptions: () => TerminalOptions = () => DEFAULT_TERMINAL_OPTIONS,
+        /** Commands it denies never run; `ask` verdicts are left to the caller to confirm. */
+        private readonly commandPolicy = new CommandPolicy()
+    ) {
+        this.outputChannel = vscode.window.createOutputChannel('IdSiberCoder CLI');
     }
 
-    async executeCommand(command: string, captureOutput: boolean = false): Promise<TerminalOperationResult> {
+    async executeCommand(
+        command: string,
+        captureOutput: boolean = false,
+        background = false,
+        commandOptions: CommandOptions = {}
+    ): Promise<TerminalOperationResult> {
         try {
             const trimmedCommand = command.trim();
             
-            if (!this.isSafeCommand(trimmedCommand)) {
+            const verdict = this.commandPolicy.evaluate(trimmedCommand);
+            if (verdict.level === 'deny') {
                 return {
                     success: false,
-                    error: `Command blocked for security: ${trimmedCommand}. Only safe development commands are allowed.`
+                    error: `Command blocked by the command policy:\n${verdict.reasons.join('\n')}`
                 };
             }
 
-            return await this.executeWithChildProcess(trimmedCommand);
+            const options = this.getOptions();
+            const resolved = await this.resolveCommandOptions(commandOptions, options);
+            if (background) {
+                return await this.startBackgroundProcess(trimmedCommand, resolved);
+            }
+            if (options.useIntegratedTerminal) {
+                // The shell-integration API runs a command line as typed; it has no per-command cwd or env.
+                if (commandOptions.cwd || commandOptions.env) {
+                    return {
+                        ...(await this.executeWithChildProcess(trimmedCommand, resolved)),
+                        message: 'The integrated terminal cannot take a per-command cwd or env, so the command ran as a hidden process.'
+                    };
+                }
+                const result = await this.executeInTerminal(trimmedCommand, resolved);
+                if (result) {
+                    return result;
+                }
+                return {
+                    ...(await this.executeWithChildProcess(trimmedCommand, resolved)),
+                    message: 'Shell integration is not available in the IdSiberCoder terminal, so the command ran as a hidden process.'
+                };
+            }
+            return await this.executeWithChildProcess(trimmedCommand, resolved);
 
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -73,55 +228,475 @@ export class TerminalManager {
         }
     }
 
-    private async executeWithChildProcess(command: string): Promise<TerminalOperationResult> {
+    /** Check the call's cwd, env and timeout and merge them with the configured defaults. */
+    private async resolveCommandOptions(commandOptions: CommandOptions, options: TerminalOptions): Promise<ResolvedCommandOptions> {
+        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        let cwd = workspacePath;
+        if (commandOptions.cwd) {
+            if (!workspacePath) {
+                throw new Error('Workspace folder not set. Open a folder in VS Code to run commands in a subdirectory.');
+            }
+            cwd = path.resolve(workspacePath, commandOptions.cwd);
+            if (cwd !== workspacePath && !cwd.startsWith(workspacePath + path.sep)) {
+                throw new Error(`Working directory outside workspace is not allowed: ${commandOptions.cwd}`);
+            }
+            const stats = await fs.stat(cwd).catch(() => undefined);
+            if (!stats?.isDirectory()) {
+                throw new Error(`Working directory not found: ${commandOptions.cwd}`);
+            }
+        }
+
+        const env = { ...options.env, ...commandOptions.env };
+        const invalid = Object.keys(env).filter((name) => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name));
+        if (invalid.length) {
+            throw new Error(`Invalid environment variable name: ${invalid.join(', ')}`);
+        }
+
+        const requested = commandOptions.timeoutMs ?? options.defaultTimeoutMs;
+        return { cwd, env, timeoutMs: Math.max(1000, Math.min(requested, options.maxTimeoutMs)) };
+    }
+
+    private async executeWithChildProcess(command: string, options: ResolvedCommandOptions): Promise<TerminalOperationResult> {
+        this.outputChannel.appendLine(`Executing: ${command}${options.cwd ? ` (in ${options.cwd})` : ''}`);
+        const startedAt = Date.now();
+
+        let stdout = '';
+        let stderr = '';
+        let exitCode: number | undefined = 0;
+        let signal: string | undefined;
+        let timedOut = false;
         try {
-            const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            
-            this.outputChannel.appendLine(`Executing: ${command}`);
-            
-            const { stdout, stderr } = await execAsync(command, { 
-                cwd: workspacePath,
+            ({ stdout, stderr } = await execAsync(command, {
+                cwd: options.cwd,
+                env: { ...process.env, ...options.env },
                 encoding: 'utf8',
-                timeout: 30000 
-            });
+                timeout: options.timeoutMs,
+                maxBuffer: 10 * 1024 * 1024
+            }));
+        } catch (error) {
+            const execError = error as ExecException & { stdout?: string; stderr?: string };
+            stdout = execError.stdout ?? '';
+            stderr = execError.stderr ?? '';
+            exitCode = typeof execError.code === 'number' ? execError.code : undefined;
+            signal = execError.signal ?? undefined;
+            timedOut = execError.killed === true && Date.now() - startedAt >= options.timeoutMs;
+            if (exitCode === undefined && !signal) {
+                // Spawning failed (e.g. cwd missing) or the output exceeded maxBuffer.
+                stderr = `${stderr}${stderr ? '\n' : ''}${execError.message}`;
+            }
+        }
+        const durationMs = Date.now() - startedAt;
 
-            // Clean up the output
-            const cleanOutput = (stdout || stderr || '').trim();
-            const truncatedOutput = this.truncateOutput(cleanOutput);
-            
-            if (stderr && !stdout) {
-                this.outputChannel.appendLine(`Stderr: ${stderr}`);
-            } else if (stdout) {
-                this.outputChannel.appendLine(`Output: ${stdout.substring(0, 500)}...`);
+        const status = timedOut
+            ? `timed out after ${options.timeoutMs / 1000}s`
+            : signal
+                ? `killed by ${signal}`
+                : `exited with code ${exitCode ?? 'unknown'}`;
+        this.outputChannel.appendLine(`${status} in ${durationMs} ms`);
+        if (stdout) {
+            this.outputChannel.appendLine(`Output: ${stdout.substring(0, 500)}...`);
+        }
+        if (stderr) {
+            this.outputChannel.appendLine(`Stderr: ${stderr.substring(0, 500)}...`);
+        }
+
+        const trimmedStdout = stdout.trimEnd();
+        const trimmedStderr = stderr.trimEnd();
+        const [stdoutBudget, stderrBudget] = splitBudget(
+            trimmedStdout,
+            trimmedStderr,
+            Math.max(1000, this.getOptions().outputLimit)
+        );
+        const success = exitCode === 0 && !signal;
+        return {
+            success,
+            command,
+            exitCode,
+            signal,
+            durationMs,
+            timedOut: timedOut || undefined,
+            stdout: truncateMiddle(trimmedStdout, stdoutBudget),
+            stderr: truncateMiddle(trimmedStderr, stderrBudget),
+            error: success ? undefined : `Command ${status}.`
+        };
+    }
+
+    /**
+     * Run a command in the dedicated integrated terminal, where the user can watch and interrupt it and
+     * the shell's own environment (nvm, venv, direnv) applies. Output and exit code come from the
+     * shell-integration API; undefined when it is unavailable, so the caller can fall back.
+     */
+    private executeInTerminal(command: string, options: ResolvedCommandOptions): Promise<TerminalOperationResult | undefined> {
+        const run = this.terminalQueue.then(() => this.runInTerminal(command, options));
+        this.terminalQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async runInTerminal(command: string, options: ResolvedCommandOptions): Promise<TerminalOperationResult | undefined> {
+        const terminal = this.getTerminal(options.env);
+        const shellIntegration = terminal && (await this.waitForShellIntegration(terminal));
+        if (!terminal || !shellIntegration) {
+            return undefined;
+        }
+        terminal.show(true);
+        this.outputChannel.appendLine(`Executing in terminal: ${command}`);
+        const startedAt = Date.now();
+
+        let execution: vscode.TerminalShellExecution | undefined;
+        let exitCode: number | undefined;
+        let closed = false;
+        let timedOut = false;
+        let output = '';
+        let markFinished = () => {};
+        const finished = new Promise<void>((resolve) => {
+            markFinished = resolve;
+        });
+        // Disposed on every exit path: a shell may never report the end of an interrupted command.
+        const subscriptions = [
+            vscode.window.onDidEndTerminalShellExecution((event) => {
+                if (event.execution === execution) {
+                    exitCode = event.exitCode;
+                    markFinished();
+                }
+            }),
+            vscode.window.onDidCloseTerminal((closedTerminal) => {
+                if (closedTerminal === terminal) {
+                    closed = true;
+                    markFinished();
+                }
+            })
+        ];
+
+        try {
+            execution = shellIntegration.executeCommand(command);
+            const stream = execution.read();
+            const reading = (async () => {
+                for await (const data of stream) {
+                    output += data;
+                    if (output.length > MAX_BUFFERED_OUTPUT) {
+                        output = output.slice(0, MAX_BUFFERED_OUTPUT / 2) + output.slice(-MAX_BUFFERED_OUTPUT / 2);
+                    }
+                }
+            })().catch(() => undefined);
+
+            let timer: NodeJS.Timeout | undefined;
+            timedOut = await Promise.race([
+                finished.then(() => false),
+                new Promise<boolean>((resolve) => {
+                    timer = setTimeout(() => resolve(true), options.timeoutMs);
+                })
+            ]);
+            clearTimeout(timer);
+            if (timedOut) {
+                terminal.sendText('\x03', false);
+                await Promise.race([finished, delay(INTERRUPT_GRACE_MS)]);
             }
+            // The stream closes with the execution; do not hang on a shell that never reports the end.
+            await Promise.race([reading, delay(500)]);
+        } finally {
+            subscriptions.forEach((subscription) => subscription.dispose());
+        }
+        const durationMs = Date.now() - startedAt;
 
-            const result: TerminalOperationResult = {
-                success: true,
-                output: truncatedOutput || 'Command executed with no output'
-            };
-            
+        const status = closed
+            ? 'stopped because the terminal was closed'
+            : timedOut
+                ? `timed out after ${options.timeoutMs / 1000}s and was interrupted`
+                : `exited with code ${exitCode ?? 'unknown'}`;
+        this.outputChannel.appendLine(`${status} in ${durationMs} ms`);
+        // The shell cannot always tell the exit code; only a known non-zero code counts as failure.
+        const success = !closed && !timedOut && (exitCode === undefined || exitCode === 0);
+        return {
+            success,
+            command,
+            exitCode,
+            durationMs,
+            timedOut: timedOut || undefined,
+            stdout: truncateMiddle(cleanTerminalOutput(output).trim(), Math.max(1000, this.getOptions().outputLimit)),
+            stderr: '',
+            terminal: terminal.name,
+            error: success ? undefined : `Command ${status}.`
+        };
+    }
+
+    /** The dedicated terminal, created on first use; undefined on hosts without the shell-integration API. */
+    private getTerminal(env: Record<string, string>): vscode.Terminal | undefined {
+        // Shell integration arrived in VS Code 1.93; older hosts run commands as hidden processes.
+        if (typeof vscode.window.onDidChangeTerminalShellIntegration !== 'function') {
+            return undefined;
+        }
+        const envKey = JSON.stringify(env);
+        if (this.terminal && this.terminal.exitStatus === undefined && this.terminalEnv !== envKey) {
+            // The environment is fixed when the shell starts; new defaults need a new shell.
+            this.terminal.dispose();
+            this.terminal = undefined;
+        }
+        if (!this.terminal || this.terminal.exitStatus !== undefined) {
+            this.terminal = vscode.window.createTerminal({
+                name: TERMINAL_NAME,
+                cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+                env,
+                iconPath: new vscode.ThemeIcon('terminal')
+            });
+            this.terminalEnv = envKey;
+        }
+        return this.terminal;
+    }
+
+    private waitForShellIntegration(terminal: vscode.Terminal): Promise<vscode.TerminalShellIntegration | undefined> {
+        if (terminal.shellIntegration || terminal === this.terminalWithoutIntegration) {
+            return Promise.resolve(terminal.shellIntegration);
+        }
+        return new Promise((resolve) => {
+            const subscription = vscode.window.onDidChangeTerminalShellIntegration((event) => {
+                if (event.terminal === terminal) {
+                    clearTimeout(timer);
+                    subscription.dispose();
+                    resolve(event.shellIntegration);
+                }
+            });
+            const timer = setTimeout(() => {
+                subscription.dispose();
+                if (!terminal.shellIntegration) {
+                    this.terminalWithoutIntegration = terminal;
+                    this.outputChannel.appendLine('Shell integration did not activate in the IdSiberCoder terminal.');
+                }
+                resolve(terminal.shellIntegration);
+            }, SHELL_INTEGRATION_WAIT_MS);
+        });
+    }
+
+    /**
+     * Start a long-running command (dev server, watcher, build) without waiting for it to finish.
+     * Output is buffered for `readProcessOutput` and streamed through `onProcessEvent`.
+     */
+    private async startBackgroundProcess(command: string, options: ResolvedCommandOptions): Promise<TerminalOperationResult> {
+        const id = `proc-${this.nextProcessId++}`;
+        this.outputChannel.appendLine(`Starting in background (${id}): ${command}`);
+
+        const child = spawn(command, {
+            cwd: options.cwd,
+            shell: true,
+            // Own process group on POSIX so kill_process also stops the shell's children.
+            detached: process.platform !== 'win32',
+            env: { ...process.env, FORCE_COLOR: '0', ...options.env }
+        });
+        const entry: BackgroundProcess = {
+            id,
+            command,
+            status: 'running',
+            startedAt: Date.now(),
+            child,
+            buffer: '',
+            received: 0,
+            readOffset: 0
+        };
+        this.processes.set(id, entry);
+
+        const append = (data: Buffer | string) => this.appendOutput(entry, data.toString());
+        child.stdout?.on('data', append);
+        child.stderr?.on('data', append);
+        // EPIPE from a process that closed its stdin is reported by writeProcessInput; unhandled it would crash the host.
+        child.stdin?.on('error', () => undefined);
+        child.on('error', (error) => {
+            this.appendOutput(entry, `\n[failed to start: ${error.message}]\n`);
+            this.finish(entry, undefined, undefined);
+        });
+        child.on('close', (code, signal) => this.finish(entry, code ?? undefined, signal ?? undefined));
+        this.emit(entry, '');
+
+        const result = await this.readProcessOutput(id, STARTUP_WAIT_MS);
+        if (entry.status !== 'running') {
             return result;
+        }
+        return {
+            ...result,
+            message: `Started ${id} in the background: ${command}. Use read_process_output with process_id="${id}" to follow its output, send_process_input to type into it and kill_process to stop it.`
+        };
+    }
 
-        } catch (error) {
-            const execError = error as ExecException;
-            const errorMessage = execError.message || 'Unknown error';
-            const errorOutput = (execError.stderr || execError.stdout || '').trim();
-            const truncatedError = this.truncateOutput(errorOutput);
-            
-            this.outputChannel.appendLine(`Error: ${errorMessage}`);
-            if (errorOutput) {
-                this.outputChannel.appendLine(`Error output: ${errorOutput.substring(0, 500)}...`);
-            }
-            
+    /** Output received since the previous read, optionally waiting up to `waitMs` for the process to exit first. */
+    async readProcessOutput(id: string, waitMs = 0): Promise<TerminalOperationResult> {
+        const entry = this.processes.get(id);
+        if (!entry) {
+            return { success: false, error: this.unknownProcess(id) };
+        }
+        if (waitMs > 0) {
+            await this.waitForExit(entry, Math.min(waitMs, MAX_WAIT_MS));
+        }
+
+        const bufferStart = entry.received - entry.buffer.length;
+        const notes: string[] = [];
+        if (entry.readOffset < bufferStart) {
+            notes.push(`[${bufferStart - entry.readOffset} earlier characters were dropped from the buffer]`);
+            entry.readOffset = bufferStart;
+        }
+        let output = entry.buffer.slice(entry.readOffset - bufferStart);
+        if (output.length > MAX_READ_OUTPUT) {
+            output = output.slice(0, MAX_READ_OUTPUT);
+            notes.push(`[more output pending; call read_process_output again]`);
+        }
+        entry.readOffset += output.length;
+
+        const failed = entry.status === 'exited' && entry.exitCode !== 0;
+        return {
+            success: !failed,
+            message: `${entry.id} (${entry.command}): ${this.describeStatus(entry)}.`,
+            error: failed ? `${entry.id} ${this.describeStatus(entry)}` : undefined,
+            output: [output.trimEnd() || '(no new output)', ...notes].join('\n'),
+            processId: entry.id,
+            exitCode: entry.exitCode,
+            signal: entry.signal,
+            durationMs: entry.endedAt !== undefined ? entry.endedAt - entry.startedAt : undefined
+        };
+    }
+
+    async writeProcessInput(id: string, input: string, appendNewline = true): Promise<TerminalOperationResult> {
+        const entry = this.processes.get(id);
+        if (!entry) {
+            return { success: false, error: this.unknownProcess(id) };
+        }
+        if (entry.status !== 'running' || !entry.child.stdin?.writable) {
+            return { success: false, error: `${id} is not accepting input (${this.describeStatus(entry)}).`, processId: id };
+        }
+        // The process may be a shell or REPL, so its input gets the same check as a command line.
+        const verdict = this.commandPolicy.evaluate(input);
+        if (verdict.level === 'deny') {
             return {
                 success: false,
-                error: `Command failed: ${errorMessage}`,
-                output: truncatedError || 'No error details available'
+                error: `Input blocked by the command policy:\n${verdict.reasons.join('\n')}`,
+                processId: id
             };
         }
+        const stdin = entry.child.stdin;
+        const failure = await new Promise<Error | null | undefined>((resolve) =>
+            stdin.write(appendNewline ? `${input}\n` : input, resolve)
+        );
+        if (failure) {
+            return { success: false, error: `Could not write to ${id}: ${failure.message}`, processId: id };
+        }
+        return { success: true, message: `Sent ${input.length} character(s) to ${id}.`, processId: id };
+    }
+
+    async killProcess(id: string, signal: NodeJS.Signals = 'SIGTERM'): Promise<TerminalOperationResult> {
+        const entry = this.processes.get(id);
+        if (!entry) {
+            return { success: false, error: this.unknownProcess(id) };
+        }
+        if (entry.status !== 'running') {
+            return { success: true, message: `${id} already ${this.describeStatus(entry)}.`, processId: id };
+        }
+
+        entry.status = 'killed';
+        this.signalProcess(entry, signal);
+        await this.waitForExit(entry, 3000);
+        if (entry.endedAt === undefined) {
+            this.signalProcess(entry, 'SIGKILL');
+        }
+        return this.readProcessOutput(id);
+    }
+
+    listProcesses(): BackgroundProcessInfo[] {
+        return Array.from(this.processes.values(), ({ id, command, status, startedAt, endedAt, exitCode, signal }) => ({
+            id,
+            command,
+            status,
+            startedAt,
+            endedAt,
+            exitCode,
+            signal
+        }));
+    }
+
+    /** The newest buffered output of a process, for redrawing the webview card. */
+    getOutputTail(id: string, length = 20000): string {
+        return this.processes.get(id)?.buffer.slice(-length) ?? '';
+    }
+
+    /** Drop a finished process from the list; running processes must be killed first. */
+    removeProcess(id: string): void {
+        if (this.processes.get(id)?.status !== 'running') {
+            this.processes.delete(id);
+        }
+    }
+
+    private appendOutput(entry: BackgroundProcess, text: string): void {
+        entry.buffer += text;
+        entry.received += text.length;
+        if (entry.buffer.length > MAX_BUFFERED_OUTPUT) {
+            entry.buffer = entry.buffer.slice(-MAX_BUFFERED_OUTPUT);
+        }
+        this.emit(entry, text);
+    }
+
+    private finish(entry: BackgroundProcess, exitCode: number | undefined, signal: string | undefined): void {
+        if (entry.endedAt !== undefined) {
+            return;
+        }
+        entry.endedAt = Date.now();
+        entry.status = entry.status === 'killed' ? 'killed' : 'exited';
+        entry.exitCode = exitCode;
+        entry.signal = signal;
+        this.outputChannel.appendLine(`${entry.id} ${this.describeStatus(entry)}: ${entry.command}`);
+        this.emit(entry, '');
+    }
+
+    private emit(entry: BackgroundProcess, chunk: string): void {
+        const { id, command, status, startedAt, endedAt, exitCode, signal } = entry;
+        this.onProcessEvent?.({ id, command, status, startedAt, endedAt, exitCode, signal, chunk });
+    }
+
+    /** Resolve once the process has closed or `timeoutMs` passed. */
+    private waitForExit(entry: BackgroundProcess, timeoutMs: number): Promise<void> {
+        if (entry.endedAt !== undefined) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve) => {
+            const timer = setTimeout(finish, timeoutMs);
+            function finish() {
+                clearTimeout(timer);
+                entry.child.off('close', finish);
+                resolve();
+            }
+            entry.child.on('close', finish);
+        });
+    }
+
+    private signalProcess(entry: BackgroundProcess, signal: NodeJS.Signals): void {
+        const pid = entry.child.pid;
+        try {
+            if (pid && process.platform === 'win32') {
+                spawn('taskkill', ['/pid', String(pid), '/T', '/F']);
+            } else if (pid) {
+                process.kill(-pid, signal);
+            }
+        } catch {
+            entry.child.kill(signal);
+        }
+    }
+
+    private describeStatus(entry: BackgroundProcessInfo): string {
+        if (entry.endedAt === undefined) {
+            return `running for ${Math.round((Date.now() - entry.startedAt) / 1000)}s`;
+        }
+        if (entry.status === 'killed') {
+            return 'killed';
+        }
+        return entry.signal ? `exited on ${entry.signal}` : `exited with code ${entry.exitCode ?? 'unknown'}`;
+    }
+
+    private unknownProcess(id: string): string {
+        const known = Array.from(this.processes.keys());
+        return `Unknown process id: ${id}.${known.length ? ` Known processes: ${known.join(', ')}.` : ' No background processes are running.'}`;
     }
 
     dispose() {
+        for (const entry of this.processes.values()) {
+            if (entry.status === 'running') {
+                this.signalProcess(entry, 'SIGTERM');
+            }
+        }
+        this.terminal?.dispose();
         this.outputChannel.dispose();
     }
 }
\ No newline at end of file
@@ -0,0 +1,224 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Translate a glob (`**`, `*`, `?`, `{a,b}`, `[abc]`/`[!abc]`) into a RegExp anchored to the
+ * start of a forward-slash relative path. A trailing slash matches everything below the folder.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+    let pattern = glob.trim().replace(/\\/g, '/').replace(/^\.?\//, '');
+    if (pattern.endsWith('/')) {
+        pattern = `${pattern}**`;
+    }
+
+    let source = '';
+    let braceDepth = 0;
+    for (let index = 0; index < pattern.length; index += 1) {
+        const char = pattern[index];
+        if (char === '*') {
+            if (pattern[index + 1] === '*') {
+                const atSegmentStart = index === 0 || pattern[index - 1] === '/';
+                const next = pattern[index + 2];
+                index += 1;
+                if (atSegmentStart && next === '/') {
+                    source += '(?:.*/)?';
+                    index += 1;
+                } else if (atSegmentStart && next === undefined) {
+                    source += '.*';
+                } else {
+                    source += '[^/]*';
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const close = pattern.indexOf(']', index + 2);
+            if (close === -1) {
+                source += '\\[';
+                continue;
+            }
+            let body = pattern.slice(index + 1, close).replace(/\\/g, '\\\\');
+            if (body.startsWith('!')) {
+                body = `^${body.slice(1)}`;
+            }
+            source += `[${body}]`;
+            index = close;
+        } else if (char === '{') {
+            braceDepth += 1;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth -= 1;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}$`);
+};
+
+/**
+ * Compile a list of user globs once; the returned predicate is true when any of them matches.
+ * Globs without a slash match at any depth, like VS Code's "files to include" box (`*.ts` also matches `src/a.ts`).
+ */
+export const compileGlobs = (globs: string[] = []): ((relativePath: string) => boolean) => {
+    const patterns = globs
+        .map((glob) => glob.trim())
+        .filter(Boolean)
+        .map((glob) => globToRegExp(glob.includes('/') ? glob : `**/${glob}`));
+    return (relativePath) => patterns.some((pattern) => pattern.test(relativePath));
+};
+
+interface IgnoreRule {
+    pattern: RegExp;
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+/** The rules of one `.gitignore`, matched against paths relative to the directory that holds it. */
+export class GitignoreRules {
+    private readonly rules: IgnoreRule[];
+
+    constructor(
+        /** Workspace-relative directory of the `.gitignore` ('' for the root). */
+        readonly base: string,
+        content: string
+    ) {
+        this.rules = content
+            .split(/\r?\n/)
+            .map((line) => line.replace(/(?<!\\)\s+$/, ''))
+            .filter((line) => line && !line.startsWith('#'))
+            .map((line) => {
+                const negated = line.startsWith('!');
+                let body = negated ? line.slice(1) : line;
+                body = body.replace(/^\\([#!])/, '$1');
+                const directoryOnly = body.endsWith('/');
+                if (directoryOnly) {
+                    body = body.slice(0, -1);
+                }
+                // A slash anywhere but the end anchors the pattern to the .gitignore directory.
+                const glob = body.includes('/') ? body : `**/${body}`;
+                return { pattern: globToRegExp(glob), negated, directoryOnly };
+            });
+    }
+
+    static async load(root: string, base: string): Promise<GitignoreRules | undefined> {
+        try {
+            const content = await fs.readFile(path.join(root, base, '.gitignore'), 'utf8');
+            return new GitignoreRules(base, content);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** True/false when a rule decides the path, undefined when none applies. */
+    decide(relativePath: string, isDirectory: boolean): boolean | undefined {
+        const local = this.base ? relativePath.slice(this.base.length + 1) : relativePath;
+        let verdict: boolean | undefined;
+        for (const rule of this.rules) {
+            if (rule.directoryOnly && !isDirectory) {
+                continue;
+            }
+            if (rule.pattern.test(local)) {
+                verdict = !rule.negated;
+            }
+        }
+        return verdict;
+    }
+}
+
+export interface WalkOptions {
+    /** Globs whose matching files and folders are skipped entirely (e.g. `files.exclude`). */
+    exclude?: string[];
+    respectGitignore?: boolean;
+    /** Also yield directories, not just files. */
+    includeDirectories?: boolean;
+    /** Stop descending below this many folder levels (0 = only the start folder). */
+    maxDepth?: number;
+}
+
+export interface WalkEntry {
+    /** Workspace-relative path with forward slashes. */
+    relativePath: string;
+    fullPath: string;
+    isDirectory: boolean;
+    depth: number;
+}
+
+/**
+ * Depth-first walk of the workspace in name order. Skips `.git`, symlinks (to avoid cycles),
+ * excluded globs and, unless disabled, anything ignored by the `.gitignore` files on the way down.
+ */
+export async function* walkWorkspace(root: string, start = '', options: WalkOptions = {}): AsyncGenerator<WalkEntry> {
+    const isExcluded = compileGlobs(options.exclude);
+    const respectGitignore = options.respectGitignore ?? true;
+
+    const inheritedRules: GitignoreRules[] = [];
+    if (respectGitignore) {
+        // Rules from the ancestors of a sub-folder start still apply to it.
+        const segments = start ? start.split('/') : [];
+        for (let depth = 0; depth < segments.length; depth += 1) {
+            const rules = await GitignoreRules.load(root, segments.slice(0, depth).join('/'));
+            if (rules) {
+                inheritedRules.push(rules);
+            }
+        }
+    }
+
+    const isIgnored = (rules: GitignoreRules[], relativePath: string, isDirectory: boolean) => {
+        let ignored = false;
+        for (const ruleSet of rules) {
+            const verdict = ruleSet.decide(relativePath, isDirectory);
+            if (verdict !== undefined) {
+                ignored = verdict;
+            }
+        }
+        return ignored;
+    };
+
+    async function* visit(directory: string, depth: number, rules: GitignoreRules[]): AsyncGenerator<WalkEntry> {
+        const local = respectGitignore ? await GitignoreRules.load(root, directory) : undefined;
+        const activeRules = local ? [...rules, local] : rules;
+
+        let entries;
+        try {
+            entries = await fs.readdir(path.join(root, directory), { withFileTypes: true });
+        } catch {
+            return;
+        }
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+
+        for (const entry of entries) {
+            if (entry.isSymbolicLink() || entry.name === '.git') {
+                continue;
+            }
+            const isDirectory = entry.isDirectory();
+            if (!isDirectory && !entry.isFile()) {
+                continue;
+            }
+            const relativePath = directory ? `${directory}/${entry.name}` : entry.name;
+            if (isExcluded(relativePath) || (respectGitignore && isIgnored(activeRules, relativePath, isDirectory))) {
+                continue;
+            }
+
+            const walkEntry = { relativePath, fullPath: path.join(root, relativePath), isDirectory, depth };
+            if (!isDirectory) {
+                yield walkEntry;
+                continue;
+            }
+            if (options.includeDirectories) {
+                yield walkEntry;
+            }
+            if (options.maxDepth === undefined || depth < options.maxDepth) {
+                yield* visit(relativePath, depth + 1, activeRules);
+            }
+        }
+    }
+
+    yield* visit(start, 0, inheritedRules);
+}
@@ -0,0 +1,437 @@
+/**
+ * Unified-diff parsing and hunk application for the `apply_patch` tool. Kept free of file-system
+ * access so `FileManager` decides what is read, written, renamed or deleted.
+ */
+
+export interface PatchHunk {
+    /** 1-based line in the original file, as written in the `@@` header (0 for empty files). */
+    oldStart: number;
+    header: string;
+    /** Lines prefixed with ' ', '-' or '+'. */
+    lines: string[];
+    /** `\ No newline at end of file` followed the last added line. */
+    newNoNewlineAtEnd: boolean;
+}
+
+export interface FilePatch {
+    /** Workspace-relative path before the change; undefined for new files. */
+    oldPath?: string;
+    /** Workspace-relative path after the change; undefined for deleted files. */
+    newPath?: string;
+    hunks: PatchHunk[];
+}
+
+export type HunkMatch = 'exact' | 'whitespace' | 'fuzz';
+
+export interface HunkResult {
+    index: number;
+    header: string;
+    applied: boolean;
+    /** 1-based line where the hunk was applied, in the file as patched so far. */
+    line?: number;
+    offset?: number;
+    match?: HunkMatch;
+    /** Leading plus trailing context lines ignored to make the hunk fit. */
+    fuzz?: number;
+    error?: string;
+}
+
+export interface ApplyResult {
+    lines: string[];
+    results: HunkResult[];
+    noNewlineAtEnd?: boolean;
+}
+
+const DEV_NULL = '/dev/null';
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+/** A line that starts a new hunk or file section and therefore ends the current hunk. */
+const isSectionStart = (lines: string[], index: number) => {
+    const line = lines[index];
+    return (
+        line.startsWith('@@') ||
+        line.startsWith('diff --git ') ||
+        (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ '))
+    );
+};
+
+/** `--- a/src/x.ts\t2024-01-01` → `src/x.ts`; `/dev/null` → undefined. */
+const parsePathLine = (value: string, prefix: 'a/' | 'b/'): string | undefined => {
+    let target = value.replace(/\t.*$/, '').trim();
+    if (target.startsWith('"') && target.endsWith('"')) {
+        target = target.slice(1, -1);
+    }
+    if (target === DEV_NULL) {
+        return undefined;
+    }
+    return target.startsWith(prefix) ? target.slice(prefix.length) : target;
+};
+
+/**
+ * Parse one or more file sections of a unified diff (plain `---`/`+++` or `git diff` output,
+ * including `new file`, `deleted file` and `rename from/to` headers). Hunk bodies run until the next
+ * header rather than trusting the `@@` line counts, which hand-written diffs often get wrong.
+ */
+export const parseUnifiedDiff = (text: string): FilePatch[] => {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    const patches: FilePatch[] = [];
+    // `headers` is set once the section's `---`/`+++` lines have been read.
+    let current: (FilePatch & { headers: boolean }) | undefined;
+    let index = 0;
+
+    const startFile = () => {
+        current = { hunks: [], headers: false };
+        patches.push(current);
+        return current;
+    };
+
+    while (index < lines.length) {
+        const line = lines[index];
+
+        if (line.startsWith('diff --git ')) {
+            const file = startFile();
+            const match = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+            if (match) {
+                file.oldPath = match[1];
+                file.newPath = match[2];
+            }
+            index += 1;
+            continue;
+        }
+        if (line.startsWith('new file mode')) {
+            if (current) {
+                current.oldPath = undefined;
+            }
+            index += 1;
+            continue;
+        }
+        if (line.startsWith('deleted file mode')) {
+            if (current) {
+                current.newPath = undefined;
+            }
+            index += 1;
+            continue;
+        }
+        if (line.startsWith('rename from ') || line.startsWith('rename to ')) {
+            const file = current ?? startFile();
+            if (line.startsWith('rename from ')) {
+                file.oldPath = line.slice('rename from '.length).trim();
+            } else {
+                file.newPath = line.slice('rename to '.length).trim();
+            }
+            index += 1;
+            continue;
+        }
+        if (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) {
+            // These belong to an open `diff --git` section; plain diffs have none, so `---` opens the file section.
+            const file = current && !current.hunks.length && !current.headers ? current : startFile();
+            file.oldPath = parsePathLine(line.slice(4), 'a/');
+            file.newPath = parsePathLine(lines[index + 1].slice(4), 'b/');
+            file.headers = true;
+            index += 2;
+            continue;
+        }
+
+        if (line.startsWith('@@')) {
+            if (!current) {
+                throw new Error(`Hunk "${line}" appears before any file header (--- / +++).`);
+            }
+            const header = line.match(HUNK_HEADER);
+            const hunk: PatchHunk = {
+                oldStart: header ? Number(header[1]) : 0,
+                header: line,
+                lines: [],
+                newNoNewlineAtEnd: false
+            };
+            index += 1;
+
+            while (index < lines.length && !isSectionStart(lines, index)) {
+                const body = lines[index];
+                if (body.startsWith('\\')) {
+                    if (hunk.lines[hunk.lines.length - 1]?.startsWith('+')) {
+                        hunk.newNoNewlineAtEnd = true;
+                    }
+                    index += 1;
+                    continue;
+                }
+                if (body === '') {
+                    // Editors and models often strip the space from blank context lines; blank
+                    // lines at the end of the hunk are just padding.
+                    let next = index + 1;
+                    while (next < lines.length && lines[next] === '') {
+                        next += 1;
+                    }
+                    if (next >= lines.length || isSectionStart(lines, next)) {
+                        break;
+                    }
+                    hunk.lines.push(' ');
+                    index += 1;
+                    continue;
+                }
+                if (body[0] !== ' ' && body[0] !== '+' && body[0] !== '-') {
+                    break;
+                }
+                hunk.lines.push(body);
+                index += 1;
+            }
+            current.hunks.push(hunk);
+            continue;
+        }
+
+        index += 1;
+    }
+
+    const files = patches.filter((file) => file.oldPath || file.newPath);
+    if (!files.length) {
+        throw new Error('No file changes found. Provide a unified diff with ---/+++ headers and @@ hunks.');
+    }
+    const seen = new Set<string>();
+    for (const file of files) {
+        for (const filePath of new Set([file.oldPath, file.newPath])) {
+            if (!filePath) {
+                continue;
+            }
+            if (seen.has(filePath)) {
+                throw new Error(`${filePath} appears in more than one file section; put all of its hunks in one section.`);
+            }
+            seen.add(filePath);
+        }
+    }
+    return files.map(({ oldPath, newPath, hunks }) => ({ oldPath, newPath, hunks }));
+};
+
+type LineComparer = (a: string, b: string) => boolean;
+
+const COMPARERS: Array<{ match: HunkMatch; equals: LineComparer }> = [
+    { match: 'exact', equals: (a, b) => a === b },
+    { match: 'whitespace', equals: (a, b) => a.trimEnd() === b.trimEnd() },
+    { match: 'whitespace', equals: (a, b) => a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim() }
+];
+
+const blockMatchesAt = (lines: string[], block: string[], at: number, equals: LineComparer) => {
+    if (at < 0 || at + block.length > lines.length) {
+        return false;
+    }
+    return block.every((line, offset) => equals(lines[at + offset], line));
+};
+
+/** Closest position to `expected` where `block` matches, searching outward in both directions. */
+const findBlock = (lines: string[], block: string[], expected: number, equals: LineComparer): number | undefined => {
+    const last = lines.length - block.length;
+    if (last < 0) {
+        return undefined;
+    }
+    const start = Math.min(Math.max(expected, 0), last);
+    for (let distance = 0; distance <= Math.max(start, last - start); distance += 1) {
+        if (blockMatchesAt(lines, block, start - distance, equals)) {
+            return start - distance;
+        }
+        if (distance > 0 && blockMatchesAt(lines, block, start + distance, equals)) {
+            return start + distance;
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Apply hunks in order. Each hunk is located by its context and removed lines, trying an exact
+ * match first, then ignoring trailing and inner whitespace, then (with `fuzz` > 0) dropping up to
+ * `fuzz` context lines from each end, like GNU patch. Failed hunks are reported, not applied.
+ */
+export const applyHunks = (original: string[], hunks: PatchHunk[], fuzz: number): ApplyResult => {
+    const lines = [...original];
+    const results: HunkResult[] = [];
+    let delta = 0;
+    let noNewlineAtEnd: boolean | undefined;
+
+    hunks.forEach((hunk, index) => {
+        const expected = Math.max(0, hunk.oldStart - 1) + delta;
+        let leading = 0;
+        while (leading < hunk.lines.length && hunk.lines[leading].startsWith(' ')) {
+            leading += 1;
+        }
+        let trailing = 0;
+        while (trailing < hunk.lines.length - leading && hunk.lines[hunk.lines.length - 1 - trailing].startsWith(' ')) {
+            trailing += 1;
+        }
+
+        for (let dropped = 0; dropped <= fuzz; dropped += 1) {
+            const dropLeading = Math.min(dropped, leading);
+            const dropTrailing = Math.min(dropped, trailing);
+            if (dropped > 0 && dropLeading + dropTrailing === 0) {
+                break;
+            }
+            const body = hunk.lines.slice(dropLeading, hunk.lines.length - dropTrailing);
+            const oldBlock = body.filter((line) => !line.startsWith('+')).map((line) => line.slice(1));
+            if (dropped > 0 && !oldBlock.length) {
+                // Fuzz must leave something to anchor on; a bare insertion would land anywhere.
+                break;
+            }
+
+            for (const comparer of COMPARERS) {
+                // A pure insertion (`@@ -5,0 +6,2 @@`) goes after its header line rather than at it.
+                const at = oldBlock.length
+                    ? findBlock(lines, oldBlock, expected + dropLeading, comparer.equals)
+                    : Math.min(hunk.oldStart + delta, lines.length);
+                if (at === undefined) {
+                    continue;
+                }
+                // Keep the file's own text for context lines that only matched loosely.
+                const replacement: string[] = [];
+                let oldIndex = 0;
+                for (const line of body) {
+                    if (line.startsWith('+')) {
+                        replacement.push(line.slice(1));
+                    } else {
+                        if (line.startsWith(' ')) {
+                            replacement.push(lines[at + oldIndex]);
+                        }
+                        oldIndex += 1;
+                    }
+                }
+
+                lines.splice(at, oldBlock.length, ...replacement);
+                delta += replacement.length - oldBlock.length;
+                results.push({
+                    index: index + 1,
+                    header: hunk.header,
+                    applied: true,
+                    line: at + 1,
+                    offset: at - (expected + dropLeading),
+                    match: dropped > 0 ? 'fuzz' : comparer.match,
+                    fuzz: dropLeading + dropTrailing
+                });
+                if (hunk.newNoNewlineAtEnd && at + replacement.length === lines.length) {
+                    noNewlineAtEnd = true;
+                }
+                return;
+            }
+        }
+
+        const removed = hunk.lines.filter((line) => !line.startsWith('+'));
+        const preview = removed.slice(0, 6).map((line) => `  ${line.slice(1)}`).join('\n');
+        results.push({
+            index: index + 1,
+            header: hunk.header,
+            applied: false,
+            error: removed.length
+                ? `context not found near line ${expected + 1}. Expected:\n${preview}${removed.length > 6 ? '\n  …' : ''}`
+                : 'nothing to anchor the hunk to'
+        });
+    });
+
+    return { lines, results, noNewlineAtEnd };
+};
+
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Line-level LCS edit script between the differing middles; falls back to replace-all when too large. */
+const diffLines = (before: string[], after: string[]): Array<{ type: ' ' | '-' | '+'; text: string }> => {
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+        prefix += 1;
+    }
+    let suffix = 0;
+    while (
+        suffix < before.length - prefix &&
+        suffix < after.length - prefix &&
+        before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) {
+        suffix += 1;
+    }
+
+    const oldMiddle = before.slice(prefix, before.length - suffix);
+    const newMiddle = after.slice(prefix, after.length - suffix);
+    const script: Array<{ type: ' ' | '-' | '+'; text: string }> = before
+        .slice(0, prefix)
+        .map((text) => ({ type: ' ' as const, text }));
+
+    if ((oldMiddle.length + 1) * (newMiddle.length + 1) > MAX_DIFF_CELLS) {
+        script.push(...oldMiddle.map((text) => ({ type: '-' as const, text })));
+        script.push(...newMiddle.map((text) => ({ type: '+' as const, text })));
+    } else {
+        const columns = newMiddle.length + 1;
+        const table = new Uint32Array((oldMiddle.length + 1) * columns);
+        for (let i = oldMiddle.length - 1; i >= 0; i -= 1) {
+            for (let j = newMiddle.length - 1; j >= 0; j -= 1) {
+                table[i * columns + j] = oldMiddle[i] === newMiddle[j]
+                    ? table[(i + 1) * columns + j + 1] + 1
+                    : Math.max(table[(i + 1) * columns + j], table[i * columns + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < oldMiddle.length || j < newMiddle.length) {
+            if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+                script.push({ type: ' ', text: oldMiddle[i] });
+                i += 1;
+                j += 1;
+            } else if (i < oldMiddle.length && (j >= newMiddle.length || table[(i + 1) * columns + j] >= table[i * columns + j + 1])) {
+                script.push({ type: '-', text: oldMiddle[i] });
+                i += 1;
+            } else {
+                script.push({ type: '+', text: newMiddle[j] });
+                j += 1;
+            }
+        }
+    }
+
+    script.push(...before.slice(before.length - suffix).map((text) => ({ type: ' ' as const, text })));
+    return script;
+};
+
+/**
+ * Render a compact unified diff (`context` lines around each change) between two versions of a
+ * file. Returns an empty string when the texts are equal.
+ */
+export const createUnifiedDiff = (filePath: string, before: string, after: string, context = 2): string => {
+    if (before === after) {
+        return '';
+    }
+    const split = (text: string) => {
+        const lines = text.split(/\r?\n/);
+        if (lines.length && lines[lines.length - 1] === '') {
+            lines.pop();
+        }
+        return lines;
+    };
+    const script = diffLines(split(before), split(after));
+
+    const output = [`--- a/${filePath}`, `+++ b/${filePath}`];
+    let index = 0;
+    while (index < script.length) {
+        if (script[index].type === ' ') {
+            index += 1;
+            continue;
+        }
+        // Grow the hunk while the next change is within 2 × context lines.
+        const start = Math.max(0, index - context);
+        let end = index;
+        let lastChange = index;
+        while (end < script.length && end - lastChange <= context * 2) {
+            if (script[end].type !== ' ') {
+                lastChange = end;
+            }
+            end += 1;
+        }
+        end = Math.min(script.length, lastChange + context + 1);
+
+        let oldLine = 1;
+        let newLine = 1;
+        for (let position = 0; position < start; position += 1) {
+            if (script[position].type !== '+') {
+                oldLine += 1;
+            }
+            if (script[position].type !== '-') {
+                newLine += 1;
+            }
+        }
+        const slice = script.slice(start, end);
+        const oldCount = slice.filter((entry) => entry.type !== '+').length;
+        const newCount = slice.filter((entry) => entry.type !== '-').length;
+        output.push(`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`);
+        output.push(...slice.map((entry) => `${entry.type}${entry.text}`));
+        index = end;
+    }
+    return output.join('\n');
+};